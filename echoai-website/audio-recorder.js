@@ -4,6 +4,7 @@ import path from 'path';
 import pkg from 'wavefile';
 const { WaveFile } = pkg;
 import { fileURLToPath } from 'url';
+import { Decoder as OpusDecoder } from '@evan/wasm/target/opus/node.mjs';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -16,6 +17,16 @@ const SAMPLE_RATE = 48000;
 const OUTPUT_DIR = path.join(__dirname, '.idea');
 const OUTPUT_FILE = path.join(OUTPUT_DIR, `recording_${Date.now()}.wav`);
 
+// Binary audio frame header (see src/services/websocket/audio/types.ts)
+const BINARY_FRAME_VERSION = 1;
+const BINARY_FRAME_HEADER_SIZE = 20;
+const BINARY_FORMAT_INT16 = 1;
+const BINARY_FORMAT_OPUS = 2;
+
+// Protocol version and optional features this server speaks in the handshake
+const PROTOCOL_VERSION = 1;
+const SERVER_CAPABILITIES = ['binary_frames', 'opus', 'target_language'];
+
 // Create output directory if it doesn't exist
 if (!fs.existsSync(OUTPUT_DIR)) {
   fs.mkdirSync(OUTPUT_DIR, { recursive: true });
@@ -80,11 +91,151 @@ wss.on('connection', (ws) => {
   totalSamples = 0;
   recording = true;
   
-  ws.on('message', (message) => {
+  // Wire format agreed with this client (JSON until a config message asks for binary)
+  let messageFormat = 'json';
+  let lastSequenceNumber = null;
+  
+  // Opus decoder, present once the client has announced Opus audio
+  let opusDecoder = null;
+  
+  // Store an Int16 chunk and log progress
+  const storeChunk = (int16Data) => {
+    audioChunks.push(int16Data);
+    totalSamples += int16Data.length;
+    
+    if (audioChunks.length % 10 === 0) {
+      console.log(`Received ${audioChunks.length} chunks (${totalSamples} samples)`);
+    }
+  };
+  
+  // Decode length-prefixed Opus packets into Int16 PCM at SAMPLE_RATE
+  const decodeOpusPayload = (payload) => {
+    if (!opusDecoder) {
+      console.warn('Received Opus audio before an Opus config message');
+      return;
+    }
+    
+    let offset = 0;
+    while (offset + 2 <= payload.length) {
+      const packetLength = payload.readUInt16LE(offset);
+      const packet = payload.subarray(offset + 2, offset + 2 + packetLength);
+      offset += 2 + packetLength;
+      
+      const pcm = opusDecoder.decode(packet);
+      const int16Data = new Int16Array(pcm.length / 2);
+      for (let i = 0; i < int16Data.length; i++) {
+        int16Data[i] = pcm[i * 2] | (pcm[i * 2 + 1] << 8);
+      }
+      
+      storeChunk(int16Data);
+    }
+  };
+  
+  // Parse a binary frame: fixed little-endian header followed by raw PCM or Opus packets
+  const handleBinaryFrame = (buffer) => {
+    if (buffer.length < BINARY_FRAME_HEADER_SIZE) {
+      console.warn(`Ignoring binary message shorter than the frame header (${buffer.length} bytes)`);
+      return;
+    }
+    
+    const version = buffer.readUInt8(0);
+    const format = buffer.readUInt8(1);
+    const channels = buffer.readUInt16LE(2);
+    const sequenceNumber = buffer.readUInt32LE(4);
+    const sampleRate = buffer.readUInt32LE(16);
+    
+    if (version !== BINARY_FRAME_VERSION || (format !== BINARY_FORMAT_INT16 && format !== BINARY_FORMAT_OPUS)) {
+      console.warn(`Ignoring binary frame with unsupported version ${version} or format ${format}`);
+      return;
+    }
+    
+    if (channels !== 1) {
+      console.warn(`Warning: Received ${channels} channels but expected 1`);
+    }
+    
+    // Opus is decoded straight to SAMPLE_RATE, whatever rate it was encoded at
+    if (format === BINARY_FORMAT_INT16 && sampleRate !== SAMPLE_RATE) {
+      console.warn(`Warning: Received sample rate ${sampleRate} but expected ${SAMPLE_RATE}`);
+    }
+    
+    if (lastSequenceNumber !== null && sequenceNumber !== lastSequenceNumber + 1) {
+      console.warn(`Warning: Sequence gap, expected ${lastSequenceNumber + 1} but received ${sequenceNumber}`);
+    }
+    lastSequenceNumber = sequenceNumber;
+    
+    const payload = buffer.subarray(BINARY_FRAME_HEADER_SIZE);
+    if (format === BINARY_FORMAT_OPUS) {
+      decodeOpusPayload(payload);
+      return;
+    }
+    
+    const int16Data = new Int16Array(Math.floor(payload.length / 2));
+    for (let i = 0; i < int16Data.length; i++) {
+      int16Data[i] = payload.readInt16LE(i * 2);
+    }
+    
+    storeChunk(int16Data);
+  };
+  
+  ws.on('message', (message, isBinary) => {
     try {
+      if (isBinary) {
+        if (messageFormat !== 'binary') {
+          console.warn('Received a binary frame before binary format was negotiated');
+        }
+        handleBinaryFrame(message);
+        return;
+      }
+      
       // Parse the incoming JSON message
       const data = JSON.parse(message);
       
+      if (data.type === 'hello') {
+        // Only the capabilities both sides list are enabled; sessions aren't kept, so no session_id
+        const capabilities = SERVER_CAPABILITIES.filter(capability => (data.capabilities || []).includes(capability));
+        console.log(`Client hello: protocol ${data.min_protocol_version}-${data.protocol_version}, capabilities ${capabilities.join(', ') || 'none'}`);
+        ws.send(JSON.stringify({
+          type: 'hello_ack',
+          protocol_version: PROTOCOL_VERSION,
+          capabilities
+        }));
+        return;
+      }
+      
+      if (data.type === 'target_language') {
+        // Nothing is translated here, but confirm the language so clients can show it
+        console.log(`Client target language: ${data.language}`);
+        ws.send(JSON.stringify({ type: 'target_language_ack', language: data.language }));
+        return;
+      }
+      
+      if (data.type === 'config') {
+        // This server understands binary frames and Opus, so accept whatever was requested
+        messageFormat = data.message_format === 'binary' ? 'binary' : 'json';
+        lastSequenceNumber = null;
+        console.log(`Client config: ${data.sample_rate}Hz, ${data.channels} channel(s), ${data.format}, ${messageFormat} frames`);
+        
+        opusDecoder = data.format === 'opus'
+          ? new OpusDecoder({ channels: data.channels || 1, sample_rate: SAMPLE_RATE })
+          : null;
+        
+        ws.send(JSON.stringify({
+          type: 'config_ack',
+          message_format: messageFormat,
+          format: opusDecoder ? 'opus' : 'int16'
+        }));
+        return;
+      }
+      
+      // PCM can still arrive after an Opus config (encoder not ready yet, reconnects, replays),
+      // so each message is decoded by its own format; older clients don't send one
+      const audioFormat = data.format || (opusDecoder ? 'opus' : 'int16');
+      
+      if (data.type === 'audio' && data.value && audioFormat === 'opus') {
+        decodeOpusPayload(Buffer.from(data.value, 'base64'));
+        return;
+      }
+      
       if (data.type === 'audio' && data.value && data.sample_rate) {
         if (data.sample_rate !== SAMPLE_RATE) {
           console.warn(`Warning: Received sample rate ${data.sample_rate} but expected ${SAMPLE_RATE}`);
@@ -104,13 +255,7 @@ wss.on('connection', (ws) => {
         }
         
         // Store the audio chunk
-        audioChunks.push(int16Data);
-        totalSamples += int16Data.length;
-        
-        // Log progress
-        if (audioChunks.length % 10 === 0) {
-          console.log(`Received ${audioChunks.length} chunks (${totalSamples} samples)`);
-        }
+        storeChunk(int16Data);
       }
     } catch (error) {
       console.error('Error processing message:', error);
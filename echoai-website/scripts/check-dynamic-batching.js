@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Check where dynamic batching cuts synthetic signals
+ *
+ * Builds signals from tone bursts separated by pauses of known length and
+ * position, runs them through AudioBatchManager with the DYNAMIC strategy and
+ * checks that:
+ * - every cut made at a pause lies inside one of the known pauses;
+ * - every batch lasts between minBatchDuration and maxBatchDuration (the last one may be shorter);
+ * - the batches add up to the signal;
+ * - feeding the signal in chunks with push()/flush() gives the same batches as process().
+ * Signals whose every cut window contains a pause must be cut at pauses only.
+ * Where a window contains a pause of a given minimum length (a phrase end
+ * rather than a gap between words), the cut must lie in such a pause. Signals
+ * without pauses must not report pause cuts.
+ *
+ * The signals use a fixed random seed, so the results are reproducible. The
+ * script exits with an error code if a check fails.
+ *
+ * @module scripts/check-dynamic-batching
+ * @requires vite
+ */
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Configuration
+const sampleRate = 16000;
+const chunkSize = 4096;
+
+/**
+ * Create a pseudo-random generator with a fixed seed
+ * @param {number} seed The seed
+ * @returns {() => number} Generator of values in [-1, 1)
+ */
+const createRandom = (seed) => {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state / 2147483647) * 2 - 1;
+  };
+};
+
+/**
+ * Build a signal of tone bursts separated by pauses
+ * Bursts are a harmonic tone with 10 ms fades; noise is added everywhere.
+ * @param {Array<[number, number]>} segments Burst and following pause durations in seconds
+ * @param {number} noise Peak amplitude of the noise floor
+ * @returns {{ samples: Float32Array, pauses: Array<[number, number]> }} The signal and its pauses in samples
+ */
+const createSignal = (segments, noise) => {
+  const random = createRandom(1);
+  const total = segments.reduce((sum, [burst, pause]) => sum + Math.round(burst * sampleRate) + Math.round(pause * sampleRate), 0);
+  const samples = new Float32Array(total);
+  const pauses = [];
+  const fade = Math.round(0.01 * sampleRate);
+
+  let position = 0;
+  for (const [burst, pause] of segments) {
+    const burstLength = Math.round(burst * sampleRate);
+    for (let i = 0; i < burstLength; i++) {
+      const time = i / sampleRate;
+      const envelope = Math.min(1, i / fade, (burstLength - i) / fade);
+      samples[position + i] = envelope * 0.3 * (
+        Math.sin(2 * Math.PI * 150 * time) +
+        0.5 * Math.sin(2 * Math.PI * 300 * time) +
+        0.3 * Math.sin(2 * Math.PI * 900 * time)
+      );
+    }
+    position += burstLength;
+
+    const pauseLength = Math.round(pause * sampleRate);
+    if (pauseLength > 0) {
+      pauses.push([position, position + pauseLength]);
+    }
+    position += pauseLength;
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] += noise * random();
+  }
+
+  return { samples, pauses };
+};
+
+/**
+ * Build phrases of words with short gaps, each phrase ending in a longer pause
+ * @param {number[]} wordCounts Words per phrase
+ * @param {number} wordGap Gap between words in seconds
+ * @param {number} phrasePause Pause after each phrase in seconds
+ * @returns {Array<[number, number]>} Burst and pause durations
+ */
+const createPhrases = (wordCounts, wordGap, phrasePause) => {
+  return wordCounts.flatMap(count => Array.from({ length: count }, (_, i) => [
+    0.25 + 0.05 * (i % 3),
+    i === count - 1 ? phrasePause : wordGap
+  ]));
+};
+
+const phrases = createPhrases([5, 8, 3, 12, 6, 20, 4], 0.08, 0.4);
+
+// Each case lists the signal, batch options, the reason every cut must have,
+// and the length (in seconds) of the pauses cuts prefer where a window has one
+const cases = [
+  {
+    name: 'bursts with pauses of 0.3-0.6s',
+    signal: createSignal([[1.2, 0.3], [2.5, 0.5], [0.8, 0.4], [3.1, 0.6], [1.7, 0.35], [2.2, 0.45], [1.0, 0]], 0.001),
+    options: {},
+    expect: 'pause'
+  },
+  {
+    name: 'bursts with pauses, noise 20 dB below the tone',
+    signal: createSignal([[1.2, 0.3], [2.5, 0.5], [0.8, 0.4], [3.1, 0.6], [1.7, 0.35], [2.2, 0.45], [1.0, 0]], 0.05),
+    options: {},
+    expect: 'pause'
+  },
+  {
+    name: 'phrases with 80 ms word gaps and 0.4s pauses',
+    signal: createSignal(phrases, 0.001),
+    options: {},
+    expect: 'pause',
+    minPause: 0.3
+  },
+  {
+    name: 'phrases, batches of 0.5-2s',
+    signal: createSignal(phrases, 0.001),
+    options: { minBatchDuration: 0.5, maxBatchDuration: 2 },
+    minPause: 0.3
+  },
+  {
+    name: 'continuous tone',
+    signal: createSignal([[12, 0]], 0.001),
+    options: {},
+    expect: 'max_duration'
+  }
+];
+
+/**
+ * Run one case and print its cuts
+ * @param {typeof import('../src/components/audio/batch/AudioBatchManager').AudioBatchManager} AudioBatchManager The batch manager class
+ * @param {string} strategy The DYNAMIC strategy value
+ * @param {object} testCase The case
+ * @returns {string[]} Failed checks
+ */
+const runCase = (AudioBatchManager, strategy, testCase) => {
+  const { samples, pauses } = testCase.signal;
+  const options = { strategy, ...testCase.options };
+  const failures = [];
+
+  const manager = new AudioBatchManager(options);
+  const batches = manager.process(samples, sampleRate);
+  const cuts = manager.getCutPoints();
+  const minLength = Math.floor((options.minBatchDuration ?? 1) * sampleRate);
+  const maxLength = manager.getMaxBatchSize(sampleRate);
+
+  // Cuts at pauses lie inside a known pause
+  const inside = (position, ranges) => ranges.some(([start, end]) => position >= start && position <= end);
+  const misplaced = cuts.filter(cut => cut.reason === 'pause' && !inside(cut.position, pauses));
+  if (misplaced.length > 0) {
+    failures.push(`pause cuts outside the pauses at ${misplaced.map(cut => `${cut.time.toFixed(2)}s`).join(', ')}`);
+  }
+
+  // Where a cut window holds a long pause, the cut lies in one
+  if (testCase.minPause) {
+    const longPauses = pauses.filter(([start, end]) => end - start >= testCase.minPause * sampleRate);
+    let batchStart = 0;
+    const missed = cuts.filter(cut => {
+      const available = longPauses.filter(([start, end]) => end > batchStart + minLength && start < batchStart + maxLength);
+      batchStart = cut.position;
+      return available.length > 0 && !inside(cut.position, available);
+    });
+    if (missed.length > 0) {
+      failures.push(`cuts in short pauses next to a long one at ${missed.map(cut => `${cut.time.toFixed(2)}s`).join(', ')}`);
+    }
+  }
+
+  if (testCase.expect) {
+    const unexpected = cuts.filter(cut => cut.reason !== testCase.expect);
+    if (unexpected.length > 0) {
+      failures.push(`${unexpected.length} cuts not at ${testCase.expect === 'pause' ? 'a pause' : 'the maximum duration'}`);
+    }
+  }
+
+  // Batch durations within the limits
+  batches.forEach((batch, index) => {
+    const isLast = index === batches.length - 1;
+    if (batch.length > maxLength || (!isLast && batch.length < minLength)) {
+      failures.push(`batch ${index + 1} lasts ${(batch.length / sampleRate).toFixed(2)}s`);
+    }
+  });
+
+  const total = batches.reduce((sum, batch) => sum + batch.length, 0);
+  if (total !== samples.length) {
+    failures.push(`batches hold ${total} samples instead of ${samples.length}`);
+  }
+
+  // Incremental batching matches
+  const incremental = new AudioBatchManager(options);
+  const pushed = [];
+  for (let offset = 0; offset < samples.length; offset += chunkSize) {
+    pushed.push(...incremental.push(samples.subarray(offset, offset + chunkSize), sampleRate));
+  }
+  pushed.push(...incremental.flush());
+
+  const sameBatches = pushed.length === batches.length &&
+    pushed.every((batch, index) => batch.length === batches[index].length);
+  if (!sameBatches) {
+    failures.push('push()/flush() batches differ from process()');
+  }
+
+  const pauseCuts = cuts.filter(cut => cut.reason === 'pause').length;
+  console.log(`\n${testCase.name}`);
+  console.log(`  ${batches.length} batches of ${batches.map(batch => (batch.length / sampleRate).toFixed(2)).join(', ')}s`);
+  console.log(`  ${pauseCuts} of ${cuts.length} cuts at pauses: ${cuts.map(cut => `${cut.time.toFixed(2)}s${cut.reason === 'pause' ? '' : ' (max)'}`).join(', ')}`);
+  console.log(`  ${failures.length === 0 ? 'OK' : `FAILED: ${failures.join('; ')}`}`);
+
+  return failures;
+};
+
+// Load the TypeScript sources the way the app does
+const server = await createServer({
+  root: path.join(__dirname, '..'),
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false }
+});
+
+let failed = 0;
+try {
+  const { AudioBatchManager } = await server.ssrLoadModule('/src/components/audio/batch/AudioBatchManager.ts');
+  const { BatchStrategy } = await server.ssrLoadModule('/src/types/audio-batch.ts');
+  const { logger, LogLevel } = await server.ssrLoadModule('/src/utils/Logger.ts');
+
+  // Keep the batch manager's logging out of the report
+  logger.setLogLevel(LogLevel.ERROR);
+
+  for (const testCase of cases) {
+    const failures = runCase(AudioBatchManager, BatchStrategy.DYNAMIC, testCase);
+    failed += failures.length > 0 ? 1 : 0;
+  }
+} finally {
+  await server.close();
+}
+
+console.log(`\n${cases.length - failed} of ${cases.length} cases passed`);
+process.exit(failed > 0 ? 1 : 0);
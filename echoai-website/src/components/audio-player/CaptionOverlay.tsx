@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '../ui/button';
+import { Caption } from '../../types/captions';
+
+interface CaptionOverlayProps {
+  captions: Caption[];
+  visibleCaptions: Caption[];
+  currentTime: number;
+  onClear?: () => void;
+  className?: string;
+}
+
+/**
+ * Format a playback position as m:ss
+ */
+const formatTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Component for rolling live captions over the visualizer, with a history scrollback
+ */
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({
+  captions,
+  visibleCaptions,
+  currentTime,
+  onClear,
+  className = '',
+}) => {
+  const { t } = useTranslation();
+  const [showHistory, setShowHistory] = useState(false);
+  const historyRef = useRef<HTMLDivElement>(null);
+  const followLatestRef = useRef(true);
+
+  // Keep the history scrolled to the latest caption unless the user scrolled up
+  useEffect(() => {
+    const history = historyRef.current;
+    if (showHistory && history && followLatestRef.current) {
+      history.scrollTop = history.scrollHeight;
+    }
+  }, [captions, showHistory]);
+
+  const handleHistoryScroll = () => {
+    const history = historyRef.current;
+    if (history) {
+      followLatestRef.current = history.scrollHeight - history.scrollTop - history.clientHeight < 8;
+    }
+  };
+
+  if (captions.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Rolling captions */}
+      <div className={`absolute top-0 left-0 right-0 h-20 flex flex-col justify-end items-center px-10 pb-1 pointer-events-none ${className}`}>
+        {visibleCaptions.map(caption => (
+          <p
+            key={caption.id}
+            lang={caption.targetLanguage}
+            className="max-w-full text-center text-sm text-white bg-black/70 px-2 py-0.5 rounded mt-0.5 truncate"
+          >
+            {caption.text}
+          </p>
+        ))}
+      </div>
+
+      {/* History toggle */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowHistory(prev => !prev)}
+        className="absolute top-1 right-1 h-7 text-white/70 hover:text-white p-1"
+        title={showHistory ? t('audioPlayer.captions.hideHistory') : t('audioPlayer.captions.showHistory')}
+      >
+        <ScrollText className="h-4 w-4" />
+      </Button>
+
+      {/* History scrollback */}
+      {showHistory && (
+        <div className="mb-4 bg-black/30 rounded-md">
+          <div className="flex items-center justify-between px-3 pt-2">
+            <span className="text-xs text-white/70">{t('audioPlayer.captions.history')}</span>
+            {onClear && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClear}
+                className="h-6 text-xs text-white/70 hover:text-white px-2"
+              >
+                {t('audioPlayer.captions.clear')}
+              </Button>
+            )}
+          </div>
+          <div
+            ref={historyRef}
+            onScroll={handleHistoryScroll}
+            className="max-h-40 overflow-y-auto px-3 py-2 space-y-1"
+          >
+            {captions.map(caption => {
+              const isActive = caption.startTime <= currentTime && currentTime < caption.endTime;
+              return (
+                <div key={caption.id} className="flex gap-2 text-xs">
+                  <span className="text-white/50 tabular-nums shrink-0">{formatTime(caption.startTime)}</span>
+                  <span lang={caption.targetLanguage} className={isActive ? 'text-white' : 'text-white/70'}>
+                    {caption.text}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CaptionOverlay;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Mic } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { MicrophoneCaptureSource } from '../audio/capture';
+import { AudioCaptureSource, CaptureSourceType } from '../../types/audio-capture';
+import { audioLoggers } from '../../utils/LoggerFactory';
+
+interface CaptureSourcePickerProps {
+  sourceType: CaptureSourceType;
+  onSourceTypeChange: (type: CaptureSourceType) => void;
+  deviceId: string;
+  onDeviceChange: (deviceId: string) => void;
+  // Source being captured, once it is open
+  activeSource: AudioCaptureSource | null;
+  error?: string | null;
+  className?: string;
+}
+
+/**
+ * Component for choosing what is captured: the player, a microphone, or tab/system audio
+ */
+const CaptureSourcePicker: React.FC<CaptureSourcePickerProps> = ({
+  sourceType,
+  onSourceTypeChange,
+  deviceId,
+  onDeviceChange,
+  activeSource,
+  error,
+  className = '',
+}) => {
+  const { t } = useTranslation();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  
+  const canCaptureDisplay = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+  const isMicrophone = sourceType === CaptureSourceType.MICROPHONE;
+  
+  // List microphones; labels become available once a microphone is open
+  useEffect(() => {
+    if (!isMicrophone) {
+      return;
+    }
+    
+    MicrophoneCaptureSource.listDevices()
+      .then(setDevices)
+      .catch(err => audioLoggers.audioCapture.warn('CaptureSourcePicker: Failed to list microphones', err));
+    
+    return MicrophoneCaptureSource.onDevicesChange(setDevices);
+  }, [isMicrophone, activeSource]);
+  
+  const isActive = activeSource?.type === sourceType;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <Mic className="h-4 w-4 text-white/70" />
+      <label htmlFor="capture-source" className="text-xs text-white/70">
+        {t('audioPlayer.captureSource.label')}
+      </label>
+      <select
+        id="capture-source"
+        value={sourceType}
+        onChange={(e) => onSourceTypeChange(e.target.value as CaptureSourceType)}
+        className="bg-slate-800 text-white text-xs rounded px-2 py-1 border-none focus:outline-none focus:ring-1 focus:ring-slate-500"
+      >
+        <option value={CaptureSourceType.MEDIA_ELEMENT}>{t('audioPlayer.captureSource.mediaElement')}</option>
+        <option value={CaptureSourceType.MICROPHONE}>{t('audioPlayer.captureSource.microphone')}</option>
+        {canCaptureDisplay && (
+          <option value={CaptureSourceType.DISPLAY}>{t('audioPlayer.captureSource.display')}</option>
+        )}
+      </select>
+      
+      {isMicrophone && (
+        <select
+          aria-label={t('audioPlayer.captureSource.device')}
+          value={deviceId}
+          onChange={(e) => onDeviceChange(e.target.value)}
+          className="bg-slate-800 text-white text-xs rounded px-2 py-1 border-none focus:outline-none focus:ring-1 focus:ring-slate-500 max-w-48"
+        >
+          <option value="">{t('audioPlayer.captureSource.defaultDevice')}</option>
+          {devices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || t('audioPlayer.captureSource.unnamedDevice', { number: index + 1 })}
+            </option>
+          ))}
+        </select>
+      )}
+      
+      {error ? (
+        <span className="text-xs text-white bg-red-700 px-2 py-0.5 rounded-full" title={error}>
+          {t('audioPlayer.captureSource.error')}
+        </span>
+      ) : (
+        <span className={`text-xs text-white px-2 py-0.5 rounded-full ${isActive ? 'bg-green-700' : 'bg-gray-700'}`}>
+          {isActive ? t('audioPlayer.captureSource.active') : t('audioPlayer.captureSource.opening')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default CaptureSourcePicker;
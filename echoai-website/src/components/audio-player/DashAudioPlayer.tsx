@@ -6,10 +6,16 @@ import { DashAudioPlayerProps } from '../../types/dash-player';
 import { useDashPlayer } from '../../hooks/useDashPlayer';
 import { useAudioVisualization } from '../../hooks/useAudioVisualization';
 import { useAudioOrchestrator } from '../../hooks/useAudioOrchestrator';
+import { useCaptureSource } from '../../hooks/useCaptureSource';
+import { useLiveCaptions } from '../../hooks/useLiveCaptions';
 import { audioLoggers } from '../../utils/LoggerFactory';
 import AudioVisualizer from './AudioVisualizer';
 import PlayerControls from './PlayerControls';
 import ErrorDisplay from './ErrorDisplay';
+import CaptionOverlay from './CaptionOverlay';
+import TargetLanguageSelector from './TargetLanguageSelector';
+import CaptureSourcePicker from './CaptureSourcePicker';
+import { CaptureSourceType } from '../../types/audio-capture';
 
 /**
  * DashAudioPlayer component for streaming audio using dash.js
@@ -22,6 +28,8 @@ const DashAudioPlayer: React.FC<DashAudioPlayerProps> = ({
   streamingUrl,
   streamingEnabled = false,
   enableCapture = false,
+  showCaptions = true,
+  showTargetLanguage = false,
 }) => {
   // Log streaming configuration
   audioLoggers.dashPlayer.info(`DashAudioPlayer: Component initialized with streamingEnabled=${streamingEnabled}, streamingUrl=${streamingUrl}, enableCapture=${enableCapture}`);
@@ -65,12 +73,43 @@ const DashAudioPlayer: React.FC<DashAudioPlayerProps> = ({
     showCanvas
   });
   
+  // Where captured audio comes from; the player by default
+  const {
+    source: captureSource,
+    sourceType,
+    deviceId,
+    selectSourceType,
+    selectDevice,
+    deviceError
+  } = useCaptureSource({
+    mediaRef: videoRef,
+    enabled: enableCapture
+  });
+  
   // Use audio orchestrator when capture is enabled
-  const { isCapturing, error: orchestratorError } = useAudioOrchestrator({
+  // (microphone and tab audio are captured whether or not the player is playing)
+  const {
+    isCapturing,
+    error: orchestratorError,
+    activeSource,
+    sourceError
+  } = useAudioOrchestrator({
     enabled: enableCapture,
-    audioContext,
-    sourceNode,
-    isPlaying
+    captureSource,
+    isPlaying: sourceType === CaptureSourceType.MEDIA_ELEMENT ? isPlaying : true,
+    sourceUrl: url,
+    onSourceEnded: () => selectSourceType(CaptureSourceType.MEDIA_ELEMENT)
+  });
+  
+  // Live captions from incoming translation messages
+  const {
+    captions,
+    visibleCaptions,
+    currentTime,
+    clearCaptions
+  } = useLiveCaptions({
+    videoRef,
+    enabled: showCaptions
   });
   
   // Set up audio visualization when player is initialized - only attempt once
@@ -150,11 +189,21 @@ const DashAudioPlayer: React.FC<DashAudioPlayerProps> = ({
         }}
       />
       
-      {/* Audio visualization component */}
-      <AudioVisualizer 
-        ref={canvasRef}
-        showCanvas={showCanvas}
-      />
+      {/* Audio visualization component with caption overlay */}
+      <div className="relative">
+        <AudioVisualizer 
+          ref={canvasRef}
+          showCanvas={showCanvas}
+        />
+        {showCaptions && (
+          <CaptionOverlay
+            captions={captions}
+            visibleCaptions={visibleCaptions}
+            currentTime={currentTime}
+            onClear={clearCaptions}
+          />
+        )}
+      </div>
       
       {/* Player controls component */}
       <PlayerControls
@@ -169,6 +218,24 @@ const DashAudioPlayer: React.FC<DashAudioPlayerProps> = ({
         sourceNode={sourceNode}
         audioContext={audioContext}
       />
+      
+      {/* Capture source picker */}
+      {enableCapture && (
+        <CaptureSourcePicker
+          className="mt-3 justify-end"
+          sourceType={sourceType}
+          onSourceTypeChange={selectSourceType}
+          deviceId={deviceId}
+          onDeviceChange={selectDevice}
+          activeSource={activeSource}
+          error={sourceError?.message ?? deviceError}
+        />
+      )}
+      
+      {/* Translation language selector */}
+      {showTargetLanguage && (
+        <TargetLanguageSelector className="mt-3 justify-end" />
+      )}
     </div>
   );
 };
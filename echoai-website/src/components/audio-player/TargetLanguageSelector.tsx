@@ -0,0 +1,54 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { TARGET_LANGUAGES } from '../../config';
+
+interface TargetLanguageSelectorProps {
+  className?: string;
+}
+
+/**
+ * Component for choosing the language the server translates into
+ */
+const TargetLanguageSelector: React.FC<TargetLanguageSelectorProps> = ({
+  className = '',
+}) => {
+  const { t } = useTranslation();
+  const { targetLanguage, acknowledgedTargetLanguage, setTargetLanguage } = useWebSocket();
+
+  const isPending = acknowledgedTargetLanguage === null;
+  const isConfirmed = acknowledgedTargetLanguage === targetLanguage;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Languages className="h-4 w-4 text-white/70" />
+      <label htmlFor="target-language" className="text-xs text-white/70">
+        {t('audioPlayer.targetLanguage.label')}
+      </label>
+      <select
+        id="target-language"
+        value={targetLanguage}
+        onChange={(e) => setTargetLanguage(e.target.value)}
+        className="bg-slate-800 text-white text-xs rounded px-2 py-1 border-none focus:outline-none focus:ring-1 focus:ring-slate-500"
+      >
+        {TARGET_LANGUAGES.map(lang => (
+          <option key={lang.code} value={lang.code}>{lang.name}</option>
+        ))}
+      </select>
+      <span
+        className={`text-xs text-white px-2 py-0.5 rounded-full ${
+          isConfirmed ? 'bg-green-700' : isPending ? 'bg-gray-700' : 'bg-yellow-700'
+        }`}
+      >
+        {isConfirmed
+          ? t('audioPlayer.targetLanguage.confirmed')
+          : isPending
+            ? t('audioPlayer.targetLanguage.pending')
+            : t('audioPlayer.targetLanguage.serverLanguage', { language: acknowledgedTargetLanguage.toUpperCase() })}
+      </span>
+    </div>
+  );
+};
+
+export default TargetLanguageSelector;
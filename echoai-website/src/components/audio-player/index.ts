@@ -1,4 +1,7 @@
 export { default as DashAudioPlayer } from './DashAudioPlayer';
 export { default as AudioVisualizer } from './AudioVisualizer';
 export { default as PlayerControls } from './PlayerControls';
-export { default as ErrorDisplay } from './ErrorDisplay'; 
\ No newline at end of file
+export { default as ErrorDisplay } from './ErrorDisplay';
+export { default as CaptionOverlay } from './CaptionOverlay';
+export { default as TargetLanguageSelector } from './TargetLanguageSelector';
+export { default as CaptureSourcePicker } from './CaptureSourcePicker';
@@ -3,11 +3,35 @@ import {
   AudioBatchOptions, 
   AudioBatchState, 
   AudioBatchEventType, 
+  BatchCutPoint,
   BatchStrategy 
 } from '../../../types/audio-batch';
 
+// Dynamic batching analyses the audio in 10ms frames
+const DYNAMIC_FRAME_DURATION = 0.01;
+
+// Frames quieter than this always count as a pause, in dBFS
+const SILENCE_FLOOR_DB = -60;
+const MIN_LEVEL_DB = -100;
+
+// Frames this close to the quietest frame count as a pause, if that is still
+// well below the loudest frame; catches pauses over background noise
+const NOISE_MARGIN_DB = 6;
+const MIN_SIGNAL_TO_NOISE_DB = 10;
+
+/**
+ * A batch within a buffer, with the cut that ended it (DYNAMIC strategy)
+ */
+interface BatchRange {
+  start: number;
+  end: number;
+  cut?: BatchCutPoint;
+}
+
 /**
  * Manages audio batching operations
+ * Audio is either batched in one go with process(), or chunk by chunk as it
+ * arrives with push() and flush(); both cut the same batches.
  */
 export class AudioBatchManager {
   // Configuration
@@ -20,6 +44,12 @@ export class AudioBatchManager {
   // Data storage
   private inputData: Float32Array | null = null;
   private batches: Float32Array[] = [];
+  private cutPoints: BatchCutPoint[] = [];
+  
+  // Incremental batching: audio not yet in a complete batch, and its position in the pushed audio
+  private pending: Float32Array | null = null;
+  private pendingPosition = 0;
+  private pushedBatchCount = 0;
   
   // Event listeners
   private eventListeners: Map<AudioBatchEventType, ((event: any) => void)[]> = new Map();
@@ -36,7 +66,10 @@ export class AudioBatchManager {
       batchSize: options.batchSize || 4096,
       batchDuration: options.batchDuration || 1.0,
       processIncomplete: options.processIncomplete !== false,
-      overlap: options.overlap || 0
+      overlap: options.overlap || 0,
+      minBatchDuration: options.minBatchDuration ?? 1.0,
+      maxBatchDuration: options.maxBatchDuration || 5.0,
+      silenceThreshold: options.silenceThreshold ?? 20
     };
     
     audioLoggers.audioCapture.info('AudioBatchManager: Created new instance', { options: this.options });
@@ -58,6 +91,7 @@ export class AudioBatchManager {
     this.sampleRate = sampleRate;
     this.inputData = audioData;
     this.batches = [];
+    this.cutPoints = [];
     this.state = AudioBatchState.BATCHING;
     
     audioLoggers.audioCapture.info('AudioBatchManager: Starting batching process', {
@@ -74,30 +108,31 @@ export class AudioBatchManager {
     });
     
     try {
-      // Process according to strategy
-      switch (this.options.strategy) {
-        case BatchStrategy.FIXED_SIZE:
-          this._processFixedSizeBatches(audioData);
-          break;
-          
-        case BatchStrategy.TIME_BASED:
-          this._processTimeBasedBatches(audioData, sampleRate);
-          break;
-          
-        case BatchStrategy.DYNAMIC:
-          this._processDynamicBatches(audioData, sampleRate);
-          break;
-          
-        default:
-          throw new Error(`Unknown batch strategy: ${this.options.strategy}`);
-      }
+      const ranges = this._cutBatches(audioData, sampleRate, true);
+      
+      ranges.forEach((range, i) => {
+        // Create batch
+        this.batches.push(audioData.slice(range.start, range.end));
+        if (range.cut) {
+          this.cutPoints.push(range.cut);
+        }
+        
+        // Emit progress event
+        this._emitEvent(AudioBatchEventType.BATCH_PROGRESS, {
+          currentBatch: i + 1,
+          totalBatches: ranges.length,
+          progress: (i + 1) / ranges.length,
+          cut: range.cut
+        });
+      });
       
       this.state = AudioBatchState.COMPLETE;
       
       // Emit complete event
       this._emitEvent(AudioBatchEventType.BATCH_COMPLETE, {
         batchCount: this.batches.length,
-        totalSamples: audioData.length
+        totalSamples: audioData.length,
+        cutPoints: this.cutPoints
       });
       
       audioLoggers.audioCapture.info('AudioBatchManager: Batching complete', {
@@ -117,6 +152,64 @@ export class AudioBatchManager {
     }
   }
   
+  /**
+   * Add audio to incremental batching
+   * Each batch that is complete is emitted as a BATCH_COMPLETE event. Audio
+   * that doesn't complete a batch yet (including the overlap with the next
+   * batch) is kept for the next push.
+   * 
+   * @param chunk Audio chunk to add
+   * @param sampleRate Sample rate of the audio (defaults to the rate of the previous push or process call)
+   * @returns The batches completed by this chunk
+   */
+  push(chunk: Float32Array, sampleRate: number = this.sampleRate): Float32Array[] {
+    if (!this.pending) {
+      this.sampleRate = sampleRate;
+      this.pending = new Float32Array(0);
+      this.pendingPosition = 0;
+      this.pushedBatchCount = 0;
+      this.state = AudioBatchState.BATCHING;
+      
+      this._emitEvent(AudioBatchEventType.BATCH_START, {
+        sampleRate,
+        options: this.options
+      });
+    } else if (sampleRate !== this.sampleRate) {
+      throw new Error(`Sample rate changed from ${this.sampleRate} to ${sampleRate} while batching; flush first`);
+    }
+    
+    const combined = new Float32Array(this.pending.length + chunk.length);
+    combined.set(this.pending);
+    combined.set(chunk, this.pending.length);
+    this.pending = combined;
+    
+    return this._takeBatches(combined, false);
+  }
+  
+  /**
+   * Finish incremental batching
+   * Emits the last, possibly incomplete batch (if processIncomplete is set) and
+   * starts over, so the next push begins a new stream.
+   * 
+   * @returns The last batch, if any
+   */
+  flush(): Float32Array[] {
+    if (!this.pending) {
+      return [];
+    }
+    
+    const batches = this._takeBatches(this.pending, true);
+    
+    audioLoggers.audioCapture.info('AudioBatchManager: Incremental batching complete', {
+      batchCount: this.pushedBatchCount,
+      totalSamples: this.pendingPosition
+    });
+    
+    this.pending = null;
+    this.state = AudioBatchState.COMPLETE;
+    return batches;
+  }
+  
   /**
    * Get the processed batches
    * 
@@ -127,164 +220,297 @@ export class AudioBatchManager {
   }
   
   /**
-   * Process audio data into fixed-size batches
+   * Get where the processed audio was cut (DYNAMIC strategy)
    * 
-   * @param audioData Audio data to batch
+   * @returns The cut points, one fewer than the batches
+   */
+  getCutPoints(): BatchCutPoint[] {
+    return this.cutPoints;
+  }
+  
+  /**
+   * Get the longest batch the options produce
+   * 
+   * @param sampleRate Sample rate of the audio data
+   * @returns The maximum batch length in samples
+   */
+  getMaxBatchSize(sampleRate: number): number {
+    switch (this.options.strategy) {
+      case BatchStrategy.TIME_BASED:
+        return Math.floor((this.options.batchDuration || 1.0) * sampleRate);
+        
+      case BatchStrategy.DYNAMIC:
+        return Math.max(1, Math.floor((this.options.maxBatchDuration || 5.0) * sampleRate));
+        
+      default:
+        return this.options.batchSize || 4096;
+    }
+  }
+  
+  /**
+   * Cut the complete batches off the pending audio and emit them
+   * 
+   * @param pending The pending audio
+   * @param final Whether no more audio follows
+   * @returns The batches
    * @private
    */
-  private _processFixedSizeBatches(audioData: Float32Array): void {
-    const batchSize = this.options.batchSize || 4096;
-    const overlap = Math.min(this.options.overlap || 0, batchSize - 1);
-    
-    audioLoggers.audioCapture.debug('AudioBatchManager: Processing fixed-size batches', {
-      batchSize,
-      overlap,
-      dataLength: audioData.length
-    });
+  private _takeBatches(pending: Float32Array, final: boolean): Float32Array[] {
+    const ranges = this._cutBatches(pending, this.sampleRate, final);
+    const batches: Float32Array[] = [];
     
-    // Calculate the number of batches
-    const effectiveStep = batchSize - overlap;
-    const fullBatchCount = Math.floor((audioData.length - overlap) / effectiveStep);
-    const hasPartialBatch = (audioData.length - overlap) % effectiveStep > 0;
-    const totalBatches = fullBatchCount + (hasPartialBatch && this.options.processIncomplete ? 1 : 0);
-    
-    for (let i = 0; i < totalBatches; i++) {
-      const startIdx = i * effectiveStep;
-      const endIdx = Math.min(startIdx + batchSize, audioData.length);
+    for (const range of ranges) {
+      const batch = pending.slice(range.start, range.end);
+      const position = this.pendingPosition + range.start;
+      batches.push(batch);
+      this.pushedBatchCount++;
       
-      // Create batch
-      const batch = audioData.slice(startIdx, endIdx);
-      this.batches.push(batch);
+      // Cut points count from the start of the pushed audio
+      const cut = range.cut && {
+        ...range.cut,
+        position: this.pendingPosition + range.cut.position,
+        time: (this.pendingPosition + range.cut.position) / this.sampleRate
+      };
       
-      // Emit progress event
-      this._emitEvent(AudioBatchEventType.BATCH_PROGRESS, {
-        currentBatch: i + 1,
-        totalBatches,
-        progress: (i + 1) / totalBatches
+      this._emitEvent(AudioBatchEventType.BATCH_COMPLETE, {
+        batch,
+        batchNumber: this.pushedBatchCount,
+        position,
+        sampleRate: this.sampleRate,
+        cut
       });
     }
+    
+    // The next batch starts at the end of the last one, less the overlap
+    const consumed = final
+      ? pending.length
+      : ranges.length > 0 ? this._getNextBatchStart(ranges[ranges.length - 1], this.sampleRate) : 0;
+    this.pending = pending.slice(consumed);
+    this.pendingPosition += consumed;
+    
+    return batches;
   }
   
   /**
-   * Process audio data into time-based batches
+   * Find the batches in a buffer
+   * Without final, only batches that more audio can't change are returned.
    * 
    * @param audioData Audio data to batch
    * @param sampleRate Sample rate of the audio data
+   * @param final Whether the buffer ends the audio
+   * @returns The batches in order
    * @private
    */
-  private _processTimeBasedBatches(audioData: Float32Array, sampleRate: number): void {
-    const batchDuration = this.options.batchDuration || 1.0; // Default 1 second
-    const batchSize = Math.floor(batchDuration * sampleRate);
-    const overlap = Math.min(
-      Math.floor((this.options.overlap || 0) * sampleRate),
-      batchSize - 1
-    );
+  private _cutBatches(audioData: Float32Array, sampleRate: number, final: boolean): BatchRange[] {
+    switch (this.options.strategy) {
+      case BatchStrategy.FIXED_SIZE:
+      case BatchStrategy.TIME_BASED:
+        return this._cutFixedSizeBatches(audioData, sampleRate, final);
+        
+      case BatchStrategy.DYNAMIC:
+        return this._cutDynamicBatches(audioData, sampleRate, final);
+        
+      default:
+        throw new Error(`Unknown batch strategy: ${this.options.strategy}`);
+    }
+  }
+  
+  /**
+   * Get the batch size and overlap in samples for the fixed-size and time-based strategies
+   * 
+   * @param sampleRate Sample rate of the audio data
+   * @returns Batch size and overlap in samples
+   * @private
+   */
+  private _getFixedLayout(sampleRate: number): { batchSize: number; overlap: number } {
+    const batchSize = this.getMaxBatchSize(sampleRate);
     
-    audioLoggers.audioCapture.debug('AudioBatchManager: Processing time-based batches', {
-      batchDuration,
-      batchSize,
-      overlap,
-      dataLength: audioData.length
-    });
+    // Time-based overlap is given in seconds
+    const overlap = this.options.strategy === BatchStrategy.TIME_BASED
+      ? Math.floor((this.options.overlap || 0) * sampleRate)
+      : this.options.overlap || 0;
+    
+    return { batchSize, overlap: Math.min(overlap, batchSize - 1) };
+  }
+  
+  /**
+   * Get where the batch after a batch starts
+   * 
+   * @param range The batch
+   * @param sampleRate Sample rate of the audio data
+   * @returns Start index of the next batch
+   * @private
+   */
+  private _getNextBatchStart(range: BatchRange, sampleRate: number): number {
+    if (this.options.strategy === BatchStrategy.DYNAMIC) {
+      return range.end;
+    }
     
-    // Use the fixed-size implementation with calculated batch size
-    this.options.batchSize = batchSize;
-    this.options.overlap = overlap;
-    this._processFixedSizeBatches(audioData);
+    return range.end - this._getFixedLayout(sampleRate).overlap;
   }
   
   /**
-   * Process audio data into dynamic batches
-   * This is a placeholder for more sophisticated dynamic batching
+   * Find fixed-size batches (time-based batches are fixed-size batches of batchDuration)
    * 
    * @param audioData Audio data to batch
    * @param sampleRate Sample rate of the audio data
+   * @param final Whether the buffer ends the audio
+   * @returns The batches in order
    * @private
    */
-  private _processDynamicBatches(audioData: Float32Array, sampleRate: number): void {
-    audioLoggers.audioCapture.debug('AudioBatchManager: Processing dynamic batches', {
-      dataLength: audioData.length,
-      sampleRate
-    });
+  private _cutFixedSizeBatches(audioData: Float32Array, sampleRate: number, final: boolean): BatchRange[] {
+    const { batchSize, overlap } = this._getFixedLayout(sampleRate);
+    const effectiveStep = batchSize - overlap;
+    const ranges: BatchRange[] = [];
     
-    // For now, this is a simple implementation that analyzes audio energy
-    // to find reasonable batch boundaries
+    let startIdx = 0;
+    while (audioData.length - startIdx >= batchSize) {
+      ranges.push({ start: startIdx, end: startIdx + batchSize });
+      startIdx += effectiveStep;
+    }
     
-    // Default batch size as fallback
-    const defaultBatchSize = Math.floor(sampleRate * 0.5); // 0.5 seconds
-    const minBatchSize = Math.floor(sampleRate * 0.1); // 0.1 seconds minimum
+    // A partial batch needs audio beyond the overlap with the batch before
+    if (final && this.options.processIncomplete && audioData.length - startIdx > overlap) {
+      ranges.push({ start: startIdx, end: audioData.length });
+    }
+    
+    return ranges;
+  }
+  
+  /**
+   * Find dynamic batches
+   * Each batch ends in the longest pause between its minimum and maximum
+   * duration, or at the quietest point if there is none. A cut only depends on
+   * the audio up to the maximum duration after the batch start, so it is final
+   * as soon as that much audio is there.
+   * 
+   * @param audioData Audio data to batch
+   * @param sampleRate Sample rate of the audio data
+   * @param final Whether the buffer ends the audio
+   * @returns The batches in order
+   * @private
+   */
+  private _cutDynamicBatches(audioData: Float32Array, sampleRate: number, final: boolean): BatchRange[] {
+    const maxBatchSize = this.getMaxBatchSize(sampleRate);
+    const minBatchSize = Math.min(Math.floor((this.options.minBatchDuration ?? 1.0) * sampleRate), maxBatchSize);
+    const ranges: BatchRange[] = [];
     
     let startIdx = 0;
-    let batchCount = 0;
+    while (audioData.length - startIdx > maxBatchSize) {
+      const cut = this._findOptimalBatchBoundary(audioData, startIdx, minBatchSize, maxBatchSize, sampleRate);
+      ranges.push({ start: startIdx, end: cut.position, cut });
+      startIdx = cut.position;
+    }
     
-    while (startIdx < audioData.length) {
-      // Find a good boundary by looking for low-energy points
-      const maxBatchSize = Math.min(defaultBatchSize * 2, audioData.length - startIdx);
-      let endIdx = this._findOptimalBatchBoundary(audioData, startIdx, maxBatchSize);
-      
-      // Ensure minimum batch size
-      if (endIdx - startIdx < minBatchSize && startIdx + minBatchSize <= audioData.length) {
-        endIdx = startIdx + minBatchSize;
-      }
-      
-      // Create batch
-      const batch = audioData.slice(startIdx, endIdx);
-      this.batches.push(batch);
-      batchCount++;
-      
-      // Emit progress event
-      this._emitEvent(AudioBatchEventType.BATCH_PROGRESS, {
-        currentBatch: batchCount,
-        progress: endIdx / audioData.length
-      });
-      
-      // Move to next position
-      startIdx = endIdx;
+    // Only the last batch may be shorter than the minimum
+    const remaining = audioData.length - startIdx;
+    if (final && remaining > 0 && (remaining >= minBatchSize || this.options.processIncomplete)) {
+      ranges.push({ start: startIdx, end: audioData.length });
     }
+    
+    return ranges;
   }
   
   /**
-   * Find an optimal batch boundary based on audio characteristics
-   * Simple algorithm that looks for low-energy points
+   * Find where to end a dynamic batch
+   * Frames more than silenceThreshold dB below the loudest frame, near the
+   * noise floor or below -60 dBFS form pauses; the batch is cut in the middle
+   * of the longest pause that reaches past the minimum length, the later one
+   * on a tie.
    * 
    * @param audioData Audio data
-   * @param startIdx Start index
-   * @param maxLength Maximum length to search
-   * @returns End index for the batch
+   * @param startIdx Start index of the batch
+   * @param minLength Minimum batch length in samples
+   * @param maxLength Maximum batch length in samples
+   * @param sampleRate Sample rate of the audio data
+   * @returns The cut point
    * @private
    */
   private _findOptimalBatchBoundary(
     audioData: Float32Array,
     startIdx: number,
-    maxLength: number
-  ): number {
-    const endIdx = Math.min(startIdx + maxLength, audioData.length);
+    minLength: number,
+    maxLength: number,
+    sampleRate: number
+  ): BatchCutPoint {
+    const frameSize = Math.max(1, Math.round(sampleRate * DYNAMIC_FRAME_DURATION));
+    const frameCount = Math.floor(maxLength / frameSize);
+    const lowest = Math.max(1, minLength);
     
-    // If we're close to the end, just return the end
-    if (endIdx >= audioData.length - 10) {
-      return audioData.length;
+    // Frame levels up to the maximum length; later audio is not looked at
+    const levels = new Float32Array(frameCount);
+    let loudest = MIN_LEVEL_DB;
+    let quietest = 0;
+    for (let frame = 0; frame < frameCount; frame++) {
+      const frameStart = startIdx + frame * frameSize;
+      let sumSquares = 0;
+      for (let i = frameStart; i < frameStart + frameSize; i++) {
+        sumSquares += audioData[i] * audioData[i];
+      }
+      
+      levels[frame] = Math.max(MIN_LEVEL_DB, 10 * Math.log10(sumSquares / frameSize + 1e-12));
+      loudest = Math.max(loudest, levels[frame]);
+      quietest = Math.min(quietest, levels[frame]);
     }
     
-    // Look for a quiet point (low amplitude) near the end
-    const searchStart = Math.max(startIdx + Math.floor(maxLength * 0.8), startIdx + 10);
-    let minEnergy = Number.MAX_VALUE;
-    let bestPosition = endIdx;
-    
-    // Simple energy calculation over small windows
-    const windowSize = 5;
-    for (let i = searchStart; i < endIdx - windowSize; i++) {
-      let energy = 0;
-      for (let j = 0; j < windowSize; j++) {
-        energy += Math.abs(audioData[i + j]);
+    const threshold = Math.max(
+      SILENCE_FLOOR_DB,
+      loudest - (this.options.silenceThreshold ?? 20),
+      Math.min(quietest + NOISE_MARGIN_DB, loudest - MIN_SIGNAL_TO_NOISE_DB)
+    );
+    
+    // Longest pause (run of quiet frames) that ends after the minimum length
+    let bestCut = -1;
+    let bestFrames = 0;
+    let runStart = -1;
+    for (let frame = 0; frame <= frameCount; frame++) {
+      if (frame < frameCount && levels[frame] < threshold) {
+        if (runStart === -1) {
+          runStart = frame;
+        }
+        continue;
       }
       
-      if (energy < minEnergy) {
-        minEnergy = energy;
-        bestPosition = i + Math.floor(windowSize / 2);
+      if (runStart !== -1) {
+        const runFrames = frame - runStart;
+        const pauseStart = Math.max(runStart * frameSize, lowest);
+        const pauseEnd = frame * frameSize;
+        
+        if (pauseEnd > pauseStart && runFrames >= bestFrames) {
+          const middle = Math.round(((runStart + frame) * frameSize) / 2);
+          bestCut = Math.min(Math.max(middle, pauseStart), pauseEnd);
+          bestFrames = runFrames;
+        }
+        runStart = -1;
       }
     }
     
-    return bestPosition;
+    if (bestCut !== -1) {
+      return {
+        position: startIdx + bestCut,
+        time: (startIdx + bestCut) / sampleRate,
+        reason: 'pause',
+        pauseDuration: (bestFrames * frameSize) / sampleRate,
+        level: levels[Math.min(Math.floor(bestCut / frameSize), frameCount - 1)]
+      };
+    }
+    
+    // No pause: cut in the middle of the quietest frame after the minimum length
+    let quietestFrame = -1;
+    for (let frame = Math.ceil(lowest / frameSize); frame < frameCount; frame++) {
+      if (quietestFrame === -1 || levels[frame] < levels[quietestFrame]) {
+        quietestFrame = frame;
+      }
+    }
+    
+    const cut = quietestFrame === -1 ? maxLength : quietestFrame * frameSize + Math.floor(frameSize / 2);
+    return {
+      position: startIdx + cut,
+      time: (startIdx + cut) / sampleRate,
+      reason: 'max_duration',
+      pauseDuration: 0,
+      level: quietestFrame === -1 ? levels[frameCount - 1] ?? MIN_LEVEL_DB : levels[quietestFrame]
+    };
   }
   
   /**
@@ -0,0 +1,143 @@
+import { CaptionExportFormat } from '../../../types/audio-export';
+import { CaptionCue } from '../../../types/captions';
+import { audioLoggers } from '../../../utils/LoggerFactory';
+import { AudioFileExporter } from '../save/AudioFileExporter';
+
+/**
+ * CaptionFileExporter
+ * 
+ * Handles exporting caption cues to WebVTT and SRT files and triggering downloads.
+ */
+export class CaptionFileExporter {
+  /**
+   * Export caption cues to a file
+   * 
+   * @param cues The cues to export
+   * @param format The caption format
+   * @param options Download options, as in AudioExportOptions
+   * @returns A Promise that resolves with the exported blob URL
+   */
+  static async exportCaptions(
+    cues: CaptionCue[],
+    format: CaptionExportFormat,
+    options: { autoDownload: boolean, filename?: string }
+  ): Promise<string> {
+    audioLoggers.audioCapture.info('CaptionFileExporter: Starting caption export', {
+      cueCount: cues.length,
+      format
+    });
+    
+    let blob: Blob;
+    
+    switch (format) {
+      case CaptionExportFormat.VTT:
+        blob = new Blob([CaptionFileExporter.createVtt(cues)], { type: 'text/vtt' });
+        break;
+      case CaptionExportFormat.SRT:
+        blob = new Blob([CaptionFileExporter.createSrt(cues)], { type: 'application/x-subrip' });
+        break;
+      default:
+        audioLoggers.audioCapture.error(`CaptionFileExporter: Unsupported caption format: ${format}`);
+        throw new Error(`Unsupported caption format: ${format}`);
+    }
+    
+    const url = URL.createObjectURL(blob);
+    
+    if (options.autoDownload) {
+      const filename = options.filename
+        ? `${options.filename}.${format}`
+        : CaptionFileExporter.generateFilename(format);
+      audioLoggers.audioCapture.info('CaptionFileExporter: Triggering download', { filename });
+      await AudioFileExporter.triggerDownload(url, filename);
+    }
+    
+    audioLoggers.audioCapture.info('CaptionFileExporter: Export completed successfully');
+    return url;
+  }
+  
+  /**
+   * Create a WebVTT document from caption cues
+   * 
+   * @param cues The cues to include
+   * @returns The WebVTT text
+   */
+  static createVtt(cues: CaptionCue[]): string {
+    const blocks = cues.map(cue => {
+      const start = CaptionFileExporter.formatTimestamp(cue.startTime, '.');
+      const end = CaptionFileExporter.formatTimestamp(cue.endTime, '.');
+      return `${start} --> ${end}\n<lang ${cue.targetLanguage}>${CaptionFileExporter.escapeVttText(CaptionFileExporter.removeBlankLines(cue.text))}</lang>`;
+    });
+    
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+  }
+  
+  /**
+   * Create an SRT document from caption cues
+   * 
+   * @param cues The cues to include
+   * @returns The SRT text
+   */
+  static createSrt(cues: CaptionCue[]): string {
+    return cues.map((cue, index) => {
+      const start = CaptionFileExporter.formatTimestamp(cue.startTime, ',');
+      const end = CaptionFileExporter.formatTimestamp(cue.endTime, ',');
+      return `${index + 1}\n${start} --> ${end}\n${CaptionFileExporter.removeBlankLines(cue.text)}\n`;
+    }).join('\n');
+  }
+  
+  /**
+   * Format a time as HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+   * 
+   * @param seconds Time in seconds
+   * @param separator Separator between seconds and milliseconds
+   * @returns The formatted timestamp
+   */
+  private static formatTimestamp(seconds: number, separator: '.' | ','): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+  }
+  
+  /**
+   * Escape characters that have a meaning in WebVTT cue text
+   * 
+   * @param text The caption text
+   * @returns The escaped text
+   */
+  private static escapeVttText(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+  
+  /**
+   * Remove blank lines from caption text, since a blank line ends a cue
+   * 
+   * @param text The caption text
+   * @returns The text without blank lines
+   */
+  private static removeBlankLines(text: string): string {
+    return text.replace(/\n\s*\n/g, '\n');
+  }
+  
+  /**
+   * Generate a filename based on current date/time
+   * 
+   * @param format The caption format
+   * @returns A generated filename
+   */
+  private static generateFilename(format: CaptionExportFormat): string {
+    const timestamp = new Date().toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\..+/, '')
+      .replace('T', '_');
+    
+    return `captions_${timestamp}.${format}`;
+  }
+}
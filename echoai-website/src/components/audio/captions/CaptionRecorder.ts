@@ -0,0 +1,290 @@
+import { audioLoggers } from '../../../utils/LoggerFactory';
+import { WebSocketService } from '../../../services/websocket/WebSocketService';
+import { IncomingTranslationMessageSchema } from '../../../services/websocket/WebSocketSchemas';
+import { CaptionCue, CaptionRecorderOptions } from '../../../types/captions';
+
+/**
+ * A translation message and the time its speech started
+ * (the time it was received, if the server didn't timestamp it)
+ */
+interface RecordedTranslation {
+  message: IncomingTranslationMessageSchema;
+  receivedAt: number;
+}
+
+/**
+ * A time the capture was paused (ms since epoch; end is null while paused)
+ */
+interface PausedRange {
+  start: number;
+  end: number | null;
+}
+
+// Duration in seconds of a cue that starts at the same time as the next one
+const MIN_CUE_DURATION = 0.5;
+
+/**
+ * Audio fed into the capture by a point in time, for captures that don't run in real time
+ */
+interface FeedMark {
+  time: number;
+  position: number;
+}
+
+/**
+ * CaptionRecorder
+ * 
+ * Records incoming translation messages during a capture so they can be
+ * exported as caption files. Cue times are positions in the captured audio:
+ * time since the capture start, without the time the capture was paused.
+ * When audio is fed faster or slower than real time (see markFeedPosition),
+ * they are the amount of audio fed by the time a message's speech started.
+ */
+export class CaptionRecorder {
+  private options: Required<CaptionRecorderOptions>;
+  
+  // Recording state
+  private captureStartTime: number | null = null;
+  private translations: RecordedTranslation[] = [];
+  private pausedRanges: PausedRange[] = [];
+  private feedMarks: FeedMark[] = [];
+  
+  // Message source
+  private webSocketService: WebSocketService | null = null;
+  private removeTranslationHandler: (() => void) | null = null;
+  
+  /**
+   * Create a new CaptionRecorder
+   * 
+   * @param options Recorder options
+   */
+  constructor(options: CaptionRecorderOptions = {}) {
+    this.options = {
+      maxCueDuration: 6,
+      ...options
+    };
+  }
+  
+  /**
+   * Record translation messages received by a WebSocket service
+   * 
+   * @param service The service to listen to
+   */
+  attach(service: WebSocketService): void {
+    if (this.webSocketService === service) {
+      return;
+    }
+    
+    this.detach();
+    this.webSocketService = service;
+    this.removeTranslationHandler = service.onMessage('translation', message => {
+      // Server timestamps are converted to the local clock the capture start is measured on
+      const spokenAt = message.start_timestamp !== undefined
+        ? service.toLocalTime(message.start_timestamp)
+        : Date.now();
+      this.addTranslation(message, spokenAt);
+    });
+    
+    audioLoggers.audioCapture.debug('CaptionRecorder: Attached to WebSocket service');
+  }
+  
+  /**
+   * Stop listening to the attached WebSocket service
+   */
+  detach(): void {
+    if (!this.webSocketService) {
+      return;
+    }
+    
+    this.removeTranslationHandler?.();
+    this.removeTranslationHandler = null;
+    this.webSocketService = null;
+  }
+  
+  /**
+   * Start a new recording, discarding earlier captions
+   * 
+   * @param captureStartTime Time the capture started (ms since epoch)
+   */
+  start(captureStartTime: number = Date.now()): void {
+    this.captureStartTime = captureStartTime;
+    this.translations = [];
+    this.pausedRanges = [];
+    this.feedMarks = [];
+    
+    audioLoggers.audioCapture.info('CaptionRecorder: Recording started', { captureStartTime });
+  }
+  
+  /**
+   * Note how much audio has been fed into the capture, e.g. while a file is run
+   * Once marked, cue times come from the fed audio instead of the clock.
+   * 
+   * @param position Seconds of audio fed so far
+   * @param time Time the audio had been fed by (ms since epoch)
+   */
+  markFeedPosition(position: number, time: number = Date.now()): void {
+    if (this.captureStartTime === null) {
+      return;
+    }
+    
+    this.feedMarks.push({ time, position });
+  }
+  
+  /**
+   * Note that the capture was paused; nothing is captured until resume
+   * 
+   * @param pausedAt Time the capture was paused (ms since epoch)
+   */
+  pause(pausedAt: number = Date.now()): void {
+    const last = this.pausedRanges[this.pausedRanges.length - 1];
+    if (this.captureStartTime === null || (last && last.end === null)) {
+      return;
+    }
+    
+    this.pausedRanges.push({ start: pausedAt, end: null });
+  }
+  
+  /**
+   * Note that the capture was resumed
+   * 
+   * @param resumedAt Time the capture was resumed (ms since epoch)
+   */
+  resume(resumedAt: number = Date.now()): void {
+    const last = this.pausedRanges[this.pausedRanges.length - 1];
+    if (last && last.end === null) {
+      last.end = Math.max(resumedAt, last.start);
+    }
+  }
+  
+  /**
+   * Record a translation message
+   * Messages that arrive before the recording starts are ignored
+   * 
+   * @param message The translation message
+   * @param receivedAt Time the speech started or the message was received (ms since epoch, local clock)
+   */
+  addTranslation(message: IncomingTranslationMessageSchema, receivedAt: number = Date.now()): void {
+    if (this.captureStartTime === null || receivedAt < this.captureStartTime) {
+      return;
+    }
+    
+    if (!message.text.trim()) {
+      return;
+    }
+    
+    // Timestamped messages can start before ones that arrived earlier
+    let index = this.translations.length;
+    while (index > 0 && this.translations[index - 1].receivedAt > receivedAt) {
+      index--;
+    }
+    this.translations.splice(index, 0, { message, receivedAt });
+  }
+  
+  /**
+   * Get the recorded captions as timed cues
+   * Each cue ends when the next one starts, or after the maximum cue duration
+   * 
+   * @returns The cues in order of start time
+   */
+  getCues(): CaptionCue[] {
+    const startTime = this.captureStartTime;
+    if (startTime === null) {
+      return [];
+    }
+    
+    const starts = this.translations.map(({ receivedAt }) => this.toCapturePosition(receivedAt, startTime));
+    
+    return this.translations.map(({ message }, index) => {
+      const cueStart = starts[index];
+      const nextStart = starts[index + 1] ?? Infinity;
+      
+      // A cue that starts with the next one still gets a short duration
+      const cueEnd = Math.min(
+        nextStart > cueStart ? nextStart : cueStart + MIN_CUE_DURATION,
+        cueStart + this.options.maxCueDuration
+      );
+      
+      return {
+        text: message.text.trim(),
+        sourceLanguage: message.source_language,
+        targetLanguage: message.target_language,
+        startTime: cueStart,
+        endTime: cueEnd
+      };
+    });
+  }
+  
+  /**
+   * Convert a time to a position in the captured audio
+   * Times within a pause map to the position the capture was paused at.
+   * 
+   * @param time Time in ms since epoch
+   * @param startTime Capture start time in ms since epoch
+   * @returns The position in seconds
+   */
+  private toCapturePosition(time: number, startTime: number): number {
+    if (this.feedMarks.length > 0) {
+      return this.toFeedPosition(time);
+    }
+    
+    let paused = 0;
+    for (const range of this.pausedRanges) {
+      if (range.start >= time) {
+        break;
+      }
+      paused += Math.min(range.end ?? time, time) - range.start;
+    }
+    
+    return (time - startTime - paused) / 1000;
+  }
+  
+  /**
+   * Get the amount of audio fed by a time
+   * 
+   * @param time Time in ms since epoch
+   * @returns The position in seconds (0 before the first mark)
+   */
+  private toFeedPosition(time: number): number {
+    let low = 0;
+    let high = this.feedMarks.length;
+    
+    // First mark after the time
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.feedMarks[middle].time <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    
+    return low > 0 ? this.feedMarks[low - 1].position : 0;
+  }
+  
+  /**
+   * Get the number of recorded captions
+   * 
+   * @returns The caption count
+   */
+  getCueCount(): number {
+    return this.translations.length;
+  }
+  
+  /**
+   * Discard all recorded captions
+   */
+  clear(): void {
+    this.translations = [];
+  }
+  
+  /**
+   * Stop listening and discard all recorded captions
+   */
+  dispose(): void {
+    this.detach();
+    this.translations = [];
+    this.pausedRanges = [];
+    this.feedMarks = [];
+    this.captureStartTime = null;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Caption Export Module Exports
+ */
+
+// Export caption recording and export components
+export { CaptionRecorder } from './CaptionRecorder';
+export { CaptionFileExporter } from './CaptionFileExporter';
@@ -1,8 +1,10 @@
 import { 
   AudioCaptureEvent, 
   AudioCaptureEventType, 
+  AudioCaptureSource,
   AudioCaptureState,
-  AudioProcessingOptions
+  AudioProcessingOptions,
+  CaptureSourceConnection
 } from '../../../types/audio-capture';
 import { AudioCaptureNode } from './AudioCaptureNode';
 import { audioLoggers } from '../../../utils/LoggerFactory';
@@ -19,10 +21,27 @@ export class AudioCaptureManager {
   private state: AudioCaptureState = AudioCaptureState.INACTIVE;
   private originalSampleRate: number = 0;
   private audioChunks: Float32Array[] = [];
+  private chunksCount = 0;
+  private totalSamples = 0;
+  
+  // Source set with setSource, and the muted output used when it isn't monitored
+  private source: AudioCaptureSource | null = null;
+  private removeSourceListener: (() => void) | null = null;
+  private silentOutput: GainNode | null = null;
+  
+  // Incremented by every setSource and dispose, so an open that resolves late can tell it was superseded
+  private sourceGeneration = 0;
+  
+  // Whether samples are fed with feed() instead of coming from the capture node
+  private externalInput = false;
+  
+  // Speech state from voice activity detection
+  private speechActive = false;
   private processingOptions: AudioProcessingOptions = {
     resample: false,
     targetSampleRate: 44100,
-    timeStretch: 1.0
+    timeStretch: 1.0,
+    retainChunks: true
   };
   
   // Event callbacks
@@ -69,8 +88,16 @@ export class AudioCaptureManager {
         this._emitEvent(AudioCaptureEventType.CAPTURE_START, { sampleRate });
       });
       
-      this.captureNode.onChunk((chunk) => {
-        this._handleAudioChunk(chunk);
+      this.captureNode.onChunk((chunk, speech) => {
+        if (!this.externalInput) {
+          this._handleAudioChunk(chunk, speech);
+        }
+      });
+      
+      this.captureNode.onVad((speech, offset) => {
+        if (!this.externalInput) {
+          this._handleSpeechChange(speech, offset);
+        }
       });
       
       this.captureNode.onError((error) => {
@@ -81,6 +108,7 @@ export class AudioCaptureManager {
       
       // Initialize the capture node
       await this.captureNode.initialize();
+      this._configureVad();
       
       // Set state to initialized but inactive
       this.state = AudioCaptureState.INACTIVE;
@@ -110,6 +138,83 @@ export class AudioCaptureManager {
     this.captureNode.connect(sourceNode, destinationNode);
   }
   
+  /**
+   * Capture from a source, replacing the current one
+   * The capture state is kept, so the source can be switched while capturing.
+   * If another source is set (or the manager disposed) while this one opens,
+   * it is closed as soon as it opens and never connected.
+   * 
+   * @param source The source
+   * @returns Promise that resolves when the source is connected, or closed if superseded
+   */
+  async setSource(source: AudioCaptureSource): Promise<void> {
+    if (!this.captureNode || !this.audioContext) {
+      audioLoggers.audioCapture.error('AudioCaptureManager: Attempted to set a source before initialization');
+      throw new Error('AudioCaptureManager not initialized');
+    }
+    
+    const generation = ++this.sourceGeneration;
+    this.releaseSource();
+    
+    audioLoggers.audioCapture.info(`AudioCaptureManager: Opening ${source.type} source`);
+    
+    // Called from user gestures, which lets a suspended context start
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+      
+      if (generation !== this.sourceGeneration) {
+        return;
+      }
+    }
+    
+    const connection = await source.open(this.audioContext);
+    
+    if (generation !== this.sourceGeneration) {
+      audioLoggers.audioCapture.info(`AudioCaptureManager: ${source.type} source was replaced while opening, closing it`);
+      source.close();
+      return;
+    }
+    
+    this.source = source;
+    this.removeSourceListener = source.onChange(this._handleSourceChange.bind(this));
+    this._connectSource(connection);
+  }
+  
+  /**
+   * Get the source set with setSource
+   * 
+   * @returns The source, or null
+   */
+  getSource(): AudioCaptureSource | null {
+    return this.source;
+  }
+  
+  /**
+   * Take samples from feed() instead of the capture node, e.g. while a file is run
+   * The node's chunks are ignored meanwhile; the source stays connected.
+   * 
+   * @param enabled Whether samples are fed
+   */
+  setExternalInput(enabled: boolean): void {
+    audioLoggers.audioCapture.info(`AudioCaptureManager: ${enabled ? 'Using' : 'No longer using'} external input`);
+    this.externalInput = enabled;
+  }
+  
+  /**
+   * Capture samples that don't come through the capture node
+   * Handled like the node's chunks: stored and reported only while capturing.
+   * 
+   * @param chunk Mono samples at the capture sample rate (see getSampleRate)
+   */
+  feed(chunk: Float32Array): void {
+    if (!this.externalInput) {
+      audioLoggers.audioCapture.warn('AudioCaptureManager: Ignoring fed chunk, external input is not enabled');
+      return;
+    }
+    
+    this._handleAudioChunk(chunk);
+  }
+  
   /**
    * Start capturing audio
    */
@@ -128,13 +233,15 @@ export class AudioCaptureManager {
     
     // Reset the audio chunks
     this.audioChunks = [];
+    this.chunksCount = 0;
+    this.totalSamples = 0;
     
     // Start capturing
     this.captureNode.startCapture();
     this.state = AudioCaptureState.CAPTURING;
     
     this._emitEvent(AudioCaptureEventType.CAPTURE_START, {
-      sampleRate: this.originalSampleRate
+      sampleRate: this.getSampleRate()
     });
   }
   
@@ -149,13 +256,14 @@ export class AudioCaptureManager {
     
     audioLoggers.audioCapture.info('AudioCaptureManager: Pausing audio capture');
     this.captureNode.stopCapture();
+    this._endSpeech();
     this.state = AudioCaptureState.PAUSED;
     
     const totalSamples = this._getTotalSampleCount();
-    audioLoggers.audioCapture.debug(`AudioCaptureManager: Paused with ${this.audioChunks.length} chunks, ${totalSamples} samples`);
+    audioLoggers.audioCapture.debug(`AudioCaptureManager: Paused with ${this.chunksCount} chunks, ${totalSamples} samples`);
     
     this._emitEvent(AudioCaptureEventType.CAPTURE_PAUSE, {
-      chunksCount: this.audioChunks.length,
+      chunksCount: this.chunksCount,
       totalSamples
     });
   }
@@ -191,19 +299,20 @@ export class AudioCaptureManager {
     if (this.state === AudioCaptureState.CAPTURING) {
       this.captureNode.stopCapture();
     }
+    this._endSpeech();
     
     // Request any remaining buffer from processor
     this.captureNode.requestBuffer();
     
     const totalSamples = this._getTotalSampleCount();
-    const duration = totalSamples / this.originalSampleRate;
+    const duration = totalSamples / this.getSampleRate();
     
-    audioLoggers.audioCapture.info(`AudioCaptureManager: Stopped with ${this.audioChunks.length} chunks, ${totalSamples} samples, ${duration.toFixed(2)}s duration`);
+    audioLoggers.audioCapture.info(`AudioCaptureManager: Stopped with ${this.chunksCount} chunks, ${totalSamples} samples, ${duration.toFixed(2)}s duration`);
     
     this.state = AudioCaptureState.INACTIVE;
     
     this._emitEvent(AudioCaptureEventType.CAPTURE_STOP, {
-      chunksCount: this.audioChunks.length,
+      chunksCount: this.chunksCount,
       totalSamples,
       duration
     });
@@ -217,14 +326,14 @@ export class AudioCaptureManager {
   getCapturedAudio(): { data: Float32Array, sampleRate: number } {
     if (this.audioChunks.length === 0) {
       audioLoggers.audioCapture.warn('AudioCaptureManager: Attempted to get captured audio but no chunks available');
-      return { data: new Float32Array(0), sampleRate: this.originalSampleRate };
+      return { data: new Float32Array(0), sampleRate: this.getSampleRate() };
     }
     
     const data = this.combineAudioChunks();
     
     return {
       data,
-      sampleRate: this.originalSampleRate
+      sampleRate: this.getSampleRate()
     };
   }
   
@@ -269,10 +378,10 @@ export class AudioCaptureManager {
   /**
    * Get the original sample rate
    * 
-   * @returns The sample rate in Hz
+   * @returns The sample rate in Hz; the context's rate until the processor reports its own
    */
   getSampleRate(): number {
-    return this.originalSampleRate;
+    return this.originalSampleRate || this.audioContext?.sampleRate || 0;
   }
   
   /**
@@ -281,7 +390,7 @@ export class AudioCaptureManager {
    * @returns The duration in seconds
    */
   getDuration(): number {
-    return this._getTotalSampleCount() / this.originalSampleRate;
+    return this._getTotalSampleCount() / this.getSampleRate();
   }
   
   /**
@@ -290,7 +399,16 @@ export class AudioCaptureManager {
    * @returns The number of chunks
    */
   getChunksCount(): number {
-    return this.audioChunks.length;
+    return this.chunksCount;
+  }
+  
+  /**
+   * Check whether speech is going on, when voice activity detection is enabled
+   * 
+   * @returns True between SPEECH_START and SPEECH_END
+   */
+  isSpeechActive(): boolean {
+    return this.speechActive;
   }
   
   /**
@@ -299,6 +417,9 @@ export class AudioCaptureManager {
   dispose(): void {
     audioLoggers.audioCapture.info('AudioCaptureManager: Disposing resources');
     
+    this.sourceGeneration++;
+    this.releaseSource();
+    
     if (this.captureNode) {
       this.captureNode.disconnect();
       this.captureNode = null;
@@ -311,22 +432,154 @@ export class AudioCaptureManager {
     audioLoggers.audioCapture.debug('AudioCaptureManager: Resources disposed');
   }
   
+  /**
+   * Close the current source and disconnect it
+   */
+  private releaseSource(): void {
+    if (!this.source) {
+      return;
+    }
+    
+    this.removeSourceListener?.();
+    this.removeSourceListener = null;
+    this.captureNode?.disconnect();
+    this.source.close();
+    this.source = null;
+  }
+  
+  /**
+   * Connect a source's node to the capture node
+   * Unmonitored audio goes to a muted output, which keeps the graph running.
+   * 
+   * @param connection The source's connection
+   */
+  private _connectSource(connection: CaptureSourceConnection): void {
+    if (!this.captureNode || !this.audioContext) {
+      return;
+    }
+    
+    let destination: AudioNode = this.audioContext.destination;
+    if (!connection.monitor) {
+      if (!this.silentOutput) {
+        this.silentOutput = this.audioContext.createGain();
+        this.silentOutput.gain.value = 0;
+        this.silentOutput.connect(this.audioContext.destination);
+      }
+      destination = this.silentOutput;
+    }
+    
+    this.captureNode.disconnect();
+    this.captureNode.connect(connection.node, destination);
+  }
+  
+  /**
+   * Follow a source's new node, or report that it ended
+   * 
+   * @param connection The new connection, or null when the source ended
+   */
+  private _handleSourceChange(connection: CaptureSourceConnection | null): void {
+    const source = this.source;
+    if (!source) {
+      return;
+    }
+    
+    if (connection) {
+      audioLoggers.audioCapture.info(`AudioCaptureManager: ${source.type} source changed to ${source.getLabel()}`);
+      this._connectSource(connection);
+      this._emitEvent(AudioCaptureEventType.SOURCE_CHANGE, {
+        sourceType: source.type,
+        label: source.getLabel()
+      });
+      return;
+    }
+    
+    audioLoggers.audioCapture.warn(`AudioCaptureManager: ${source.type} source ended`);
+    this.captureNode?.disconnect();
+    this._emitEvent(AudioCaptureEventType.SOURCE_ENDED, { sourceType: source.type });
+  }
+  
+  /**
+   * Enable voice activity detection in the capture node if configured
+   * A model that fails to load leaves detection on the spectral rules.
+   */
+  private _configureVad(): void {
+    const vad = this.processingOptions.vad;
+    if (!this.captureNode || !vad || vad.enabled === false) {
+      return;
+    }
+    
+    this.captureNode.configureVad(vad);
+    
+    if (vad.modelUrl) {
+      this.captureNode.loadVadModel(vad.modelUrl).catch(error => {
+        audioLoggers.audioCapture.warn('AudioCaptureManager: Continuing voice activity detection without a model', error);
+      });
+    }
+  }
+  
+  /**
+   * Report a speech state change from voice activity detection
+   * 
+   * @param speech Whether speech started or ended
+   * @param offset Where, in samples from the end of the captured audio
+   */
+  private _handleSpeechChange(speech: boolean, offset: number): void {
+    if (this.state !== AudioCaptureState.CAPTURING || speech === this.speechActive) {
+      return;
+    }
+    
+    this.speechActive = speech;
+    
+    const position = Math.max(0, this.totalSamples + offset);
+    const sampleRate = this.getSampleRate();
+    
+    audioLoggers.audioCapture.debug(`AudioCaptureManager: Speech ${speech ? 'started' : 'ended'} at ${(position / sampleRate).toFixed(2)}s`);
+    
+    this._emitEvent(speech ? AudioCaptureEventType.SPEECH_START : AudioCaptureEventType.SPEECH_END, {
+      position,
+      time: position / sampleRate
+    });
+  }
+  
+  /**
+   * End speech when capture pauses or stops, so every SPEECH_START has a SPEECH_END
+   */
+  private _endSpeech(): void {
+    if (!this.speechActive) {
+      return;
+    }
+    
+    this.speechActive = false;
+    this._emitEvent(AudioCaptureEventType.SPEECH_END, {
+      position: this.totalSamples,
+      time: this.totalSamples / this.getSampleRate()
+    });
+  }
+  
   /**
    * Handle an audio chunk from the capture node
    * 
    * @param chunk The audio chunk
+   * @param speech Whether the chunk contains speech, when voice activity detection is enabled
    */
-  private _handleAudioChunk(chunk: Float32Array): void {
+  private _handleAudioChunk(chunk: Float32Array, speech?: boolean): void {
     // Only store chunks if we're capturing
     if (this.state === AudioCaptureState.CAPTURING) {
-      this.audioChunks.push(chunk);
+      if (this.processingOptions.retainChunks !== false) {
+        this.audioChunks.push(chunk);
+      }
+      this.chunksCount++;
+      this.totalSamples += chunk.length;
       
-      audioLoggers.audioCapture.debug(`AudioCaptureManager: Received chunk #${this.audioChunks.length} with ${chunk.length} samples`);
+      audioLoggers.audioCapture.debug(`AudioCaptureManager: Received chunk #${this.chunksCount} with ${chunk.length} samples`);
       
       this._emitEvent(AudioCaptureEventType.CHUNK_RECEIVED, {
+        chunk,
+        sampleRate: this.getSampleRate(),
         chunkSize: chunk.length,
-        chunksCount: this.audioChunks.length,
-        totalSamples: this._getTotalSampleCount()
+        chunksCount: this.chunksCount,
+        totalSamples: this._getTotalSampleCount(),
+        speech
       });
     } else {
       audioLoggers.audioCapture.debug(`AudioCaptureManager: Ignoring chunk - not capturing (state: ${this.state})`);
@@ -361,7 +614,7 @@ export class AudioCaptureManager {
    * @returns Total sample count
    */
   private _getTotalSampleCount(): number {
-    return this.audioChunks.reduce((total, chunk) => total + chunk.length, 0);
+    return this.totalSamples;
   }
   
   /**
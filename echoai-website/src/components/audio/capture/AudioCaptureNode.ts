@@ -1,4 +1,4 @@
-import { AudioProcessorMessage, AudioProcessorMessageType } from '../../../types/audio-capture';
+import { AudioProcessorMessage, AudioProcessorMessageType, VadOptions } from '../../../types/audio-capture';
 import { audioLoggers } from '../../../utils/LoggerFactory';
 
 /**
@@ -17,9 +17,14 @@ export class AudioCaptureNode {
   private processorSampleRate: number = 0;
   
   // Callbacks
-  private onChunkCallback: ((chunk: Float32Array) => void) | null = null;
+  private onChunkCallback: ((chunk: Float32Array, speech?: boolean) => void) | null = null;
   private onReadyCallback: ((sampleRate: number) => void) | null = null;
   private onErrorCallback: ((error: Error) => void) | null = null;
+  private onVadCallback: ((speech: boolean, offset: number) => void) | null = null;
+  
+  // Settles the pending loadVadModel() call; replies to older requests are ignored
+  private vadModelRequestId = 0;
+  private vadModelLoad: { requestId: number, resolve: () => void, reject: (error: Error) => void } | null = null;
   
   /**
    * Create a new AudioCaptureNode
@@ -193,6 +198,63 @@ export class AudioCaptureNode {
     });
   }
   
+  /**
+   * Enable, reconfigure or disable voice activity detection in the processor
+   * 
+   * @param options Detector options, or null to disable detection
+   */
+  configureVad(options: VadOptions | null): void {
+    if (!this.isLoaded || !this.workletNode) {
+      audioLoggers.audioCapture.error('AudioCaptureNode: Attempted to configure VAD before initialization');
+      throw new Error('AudioCaptureNode not initialized');
+    }
+    
+    // The model is sent separately by loadVadModel
+    const settings: VadOptions = { ...(options || { enabled: false }) };
+    delete settings.modelUrl;
+    audioLoggers.audioCapture.info('AudioCaptureNode: Configuring voice activity detection', settings);
+    
+    this.workletNode.port.postMessage({
+      type: 'configure_vad',
+      data: settings
+    });
+  }
+  
+  /**
+   * Load a WASM model for voice activity detection
+   * Detection has to be enabled with configureVad first.
+   * 
+   * @param url URL of the model
+   * @returns Promise that resolves when the processor uses the model
+   */
+  async loadVadModel(url: string): Promise<void> {
+    if (!this.isLoaded || !this.workletNode) {
+      audioLoggers.audioCapture.error('AudioCaptureNode: Attempted to load a VAD model before initialization');
+      throw new Error('AudioCaptureNode not initialized');
+    }
+    
+    const requestId = ++this.vadModelRequestId;
+    audioLoggers.audioCapture.info(`AudioCaptureNode: Loading VAD model from ${url}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch VAD model: ${response.status} ${response.statusText}`);
+    }
+    const bytes = await response.arrayBuffer();
+    
+    // A later call started while this model was downloading
+    if (requestId !== this.vadModelRequestId) {
+      throw new Error('Superseded by another VAD model');
+    }
+    
+    this.vadModelLoad?.reject(new Error('Superseded by another VAD model'));
+    const loaded = new Promise<void>((resolve, reject) => {
+      this.vadModelLoad = { requestId, resolve, reject };
+    });
+    
+    this.workletNode.port.postMessage({ type: 'load_vad_model', data: { bytes, requestId } }, [bytes]);
+    return loaded;
+  }
+  
   /**
    * Reset the capture node
    */
@@ -216,10 +278,20 @@ export class AudioCaptureNode {
    * 
    * @param callback Function to call with the audio chunk
    */
-  onChunk(callback: (chunk: Float32Array) => void): void {
+  onChunk(callback: (chunk: Float32Array, speech?: boolean) => void): void {
     this.onChunkCallback = callback;
   }
   
+  /**
+   * Set callback for speech start and end, when voice activity detection is enabled
+   * 
+   * @param callback Function to call with the new speech state and where it changed, in samples
+   *   from the start of the next chunk (negative if in a chunk already delivered)
+   */
+  onVad(callback: (speech: boolean, offset: number) => void): void {
+    this.onVadCallback = callback;
+  }
+  
   /**
    * Set callback for when the processor is ready
    * 
@@ -263,8 +335,30 @@ export class AudioCaptureNode {
       case AudioProcessorMessageType.CHUNK_PROCESSED:
         if (this.onChunkCallback && payload.audioData) {
           audioLoggers.audioCapture.debug(`AudioCaptureNode: Received audio chunk with ${payload.audioData.length} samples`);
-          this.onChunkCallback(payload.audioData);
+          this.onChunkCallback(payload.audioData, payload.speech);
+        }
+        break;
+        
+      case AudioProcessorMessageType.VAD_EVENT:
+        audioLoggers.audioCapture.debug(`AudioCaptureNode: Speech ${payload.speech ? 'started' : 'ended'}`, { offset: payload.offset });
+        if (this.onVadCallback) {
+          this.onVadCallback(payload.speech, payload.offset);
+        }
+        break;
+        
+      case AudioProcessorMessageType.VAD_MODEL_LOADED:
+        if (payload.requestId !== this.vadModelLoad?.requestId) {
+          audioLoggers.audioCapture.debug('AudioCaptureNode: Ignoring reply to a superseded VAD model load');
+          break;
+        }
+        if (payload.error) {
+          audioLoggers.audioCapture.warn(`AudioCaptureNode: VAD model not loaded: ${payload.error}`);
+          this.vadModelLoad?.reject(new Error(payload.error));
+        } else {
+          audioLoggers.audioCapture.info('AudioCaptureNode: VAD model loaded');
+          this.vadModelLoad?.resolve();
         }
+        this.vadModelLoad = null;
         break;
         
       case AudioProcessorMessageType.ERROR:
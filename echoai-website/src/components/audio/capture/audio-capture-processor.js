@@ -1,8 +1,12 @@
+import { VoiceActivityDetector } from './voice-activity-detector.js';
+
 /**
  * AudioCaptureProcessor
  * 
  * An AudioWorkletProcessor that captures audio data and sends it to the main thread.
  * This processor runs in a separate thread and processes audio in real-time.
+ * With voice activity detection enabled, each chunk says whether it contains
+ * speech and speech start and end are reported as they are detected.
  */
 class AudioCaptureProcessor extends AudioWorkletProcessor {
   /**
@@ -17,6 +21,13 @@ class AudioCaptureProcessor extends AudioWorkletProcessor {
     this._buffer = [];
     this._totalSamples = 0;
     
+    // Voice activity detection, created by configure_vad
+    this._vad = null;
+    this._chunkHasSpeech = false;
+    
+    // ID of the latest load_vad_model request; older models are not used
+    this._vadModelRequestId = null;
+    
     // Set up message handler from main thread
     this.port.onmessage = this._handleMessage.bind(this);
     
@@ -54,6 +65,10 @@ class AudioCaptureProcessor extends AudioWorkletProcessor {
       this._buffer.push(channelCopy);
       this._totalSamples += channel.length;
       
+      if (this._vad) {
+        this._detectSpeech(channelCopy);
+      }
+      
       // If buffer reached the chunk size, send it to main thread
       if (this._totalSamples >= this._chunkSize) {
         this._sendChunk();
@@ -86,6 +101,18 @@ class AudioCaptureProcessor extends AudioWorkletProcessor {
       case 'start_capture':
         this._isCapturing = true;
         this._chunkSize = data.chunkSize || this._chunkSize;
+        if (this._vad) {
+          this._vad.reset();
+          this._chunkHasSpeech = false;
+        }
+        break;
+        
+      case 'configure_vad':
+        this._configureVad(data);
+        break;
+        
+      case 'load_vad_model':
+        this._loadVadModel(data.bytes, data.requestId);
         break;
         
       case 'stop_capture':
@@ -161,8 +188,81 @@ class AudioCaptureProcessor extends AudioWorkletProcessor {
     // Send the combined buffer to the main thread
     this._sendMessage('chunk_processed', {
       audioData: combinedBuffer,
-      timestamp: currentTime
+      timestamp: currentTime,
+      speech: this._vad ? this._chunkHasSpeech : undefined
     });
+    
+    // The next chunk starts in the current state
+    this._chunkHasSpeech = this._vad ? this._vad.isSpeech() : false;
+  }
+  
+  /**
+   * Create, reconfigure or remove the voice activity detector
+   * 
+   * @param {Object} options Detector settings, with enabled false to remove it
+   * @private
+   */
+  _configureVad(options) {
+    if (!options || options.enabled === false) {
+      this._vad = null;
+      return;
+    }
+    
+    if (!this._vad) {
+      this._vad = new VoiceActivityDetector(sampleRate);
+      this._chunkHasSpeech = false;
+    }
+    this._vad.configure(options);
+  }
+  
+  /**
+   * Instantiate a WASM model for the voice activity detector
+   * 
+   * @param {ArrayBuffer} bytes The compiled model
+   * @param {number} requestId ID echoed in the reply
+   * @private
+   */
+  _loadVadModel(bytes, requestId) {
+    this._vadModelRequestId = requestId;
+    
+    WebAssembly.instantiate(bytes)
+      .then(({ instance }) => {
+        if (requestId !== this._vadModelRequestId) {
+          throw new Error('Superseded by another VAD model');
+        }
+        if (!this._vad) {
+          throw new Error('Voice activity detection is not enabled');
+        }
+        this._vad.setModel(instance);
+        this._sendMessage('vad_model_loaded', { requestId });
+      })
+      .catch(error => {
+        // Detection continues with the spectral rules
+        this._sendMessage('vad_model_loaded', { requestId, error: error.message });
+      });
+  }
+  
+  /**
+   * Run voice activity detection on samples just added to the buffer and report state changes
+   * The offset of a change counts from the start of the next chunk sent, and
+   * is negative when the change lies in a chunk that was already sent.
+   * 
+   * @param {Float32Array} samples The samples
+   * @private
+   */
+  _detectSpeech(samples) {
+    const blockOffset = this._totalSamples - samples.length;
+    
+    for (const change of this._vad.process(samples)) {
+      this._sendMessage('vad_event', {
+        speech: change.speech,
+        offset: blockOffset + change.offset
+      });
+    }
+    
+    if (this._vad.isSpeech()) {
+      this._chunkHasSpeech = true;
+    }
   }
   
   /**
@@ -5,4 +5,13 @@
 // Export audio capture components
 export { AudioCaptureNode } from './AudioCaptureNode';
 export { AudioCaptureManager } from './AudioCaptureManager';
-export { useAudioCapture } from './useAudioCapture'; 
\ No newline at end of file
+export { useAudioCapture } from './useAudioCapture';
+
+// Export capture sources
+export { MediaStreamCaptureSource } from './sources/MediaStreamCaptureSource';
+export { MediaElementCaptureSource } from './sources/MediaElementCaptureSource';
+export { MicrophoneCaptureSource } from './sources/MicrophoneCaptureSource';
+export type { MicrophoneCaptureOptions } from './sources/MicrophoneCaptureSource';
+export { DisplayCaptureSource } from './sources/DisplayCaptureSource';
+export { FileAudioSource } from './sources/FileAudioSource';
+export type { FileAudioSourceOptions, FileAudioProgress } from './sources/FileAudioSource';
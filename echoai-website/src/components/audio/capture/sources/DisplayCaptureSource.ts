@@ -0,0 +1,44 @@
+import { CaptureSourceType } from '../../../../types/audio-capture';
+import { MediaStreamCaptureSource } from './MediaStreamCaptureSource';
+
+/**
+ * DisplayCaptureSource
+ * 
+ * Captures tab or system audio through getDisplayMedia. Browsers only offer
+ * audio together with video, so the video track is stopped right away. The
+ * source ends when the user stops sharing.
+ */
+export class DisplayCaptureSource extends MediaStreamCaptureSource {
+  readonly type = CaptureSourceType.DISPLAY;
+  
+  /**
+   * Ask the user what to share
+   * 
+   * @returns A stream with the shared audio
+   */
+  protected async acquire(): Promise<MediaStream> {
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      throw new Error('Tab and system audio capture is not supported in this browser');
+    }
+    
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      audio: {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false
+      },
+      video: true
+    });
+    
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No audio was shared. Share a tab or screen and enable audio sharing.');
+    }
+    
+    return stream;
+  }
+}
@@ -0,0 +1,220 @@
+import { audioLoggers } from '../../../../utils/LoggerFactory';
+
+/**
+ * Options for feeding a file
+ */
+export interface FileAudioSourceOptions {
+  /**
+   * Speed relative to real time: 1 feeds the file in real time, 4 four times
+   * as fast. 0 feeds it as fast as the pipeline accepts it. (default 1)
+   */
+  speed?: number;
+  
+  /**
+   * Samples per chunk (default 4096, the capture worklet's chunk size)
+   */
+  chunkSize?: number;
+}
+
+/**
+ * How far a file has been fed
+ */
+export interface FileAudioProgress {
+  /**
+   * Seconds of audio fed so far
+   */
+  position: number;
+  
+  /**
+   * Length of the file in seconds
+   */
+  duration: number;
+  
+  /**
+   * Fraction fed, from 0 to 1
+   */
+  progress: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 4096;
+
+/**
+ * FileAudioSource
+ * 
+ * Decodes an audio file and hands its samples out in chunks, paced like live
+ * capture or faster. Unlike the capture sources this doesn't create a node:
+ * worklets only run in real time, so the chunks are fed to the capture
+ * manager directly. Decoding, resampling to the capture sample rate and
+ * mixing down to mono are done with an OfflineAudioContext.
+ */
+export class FileAudioSource {
+  private options: Required<FileAudioSourceOptions>;
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: (() => void)[] = [];
+  
+  // Decoded samples, set by load()
+  private samples: Float32Array | null = null;
+  private sampleRate = 0;
+  
+  /**
+   * Create a new FileAudioSource
+   * 
+   * @param file The audio file, e.g. from a file input
+   * @param options Feeding options
+   */
+  constructor(private file: Blob, options?: FileAudioSourceOptions) {
+    this.options = {
+      speed: 1,
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      ...options
+    };
+    
+    if (!(this.options.speed >= 0)) {
+      throw new Error(`Invalid speed: ${this.options.speed}`);
+    }
+  }
+  
+  /**
+   * Get the name to show
+   * 
+   * @returns The file name, or a generic name for blobs
+   */
+  getLabel(): string {
+    return this.file instanceof File ? this.file.name : 'audio file';
+  }
+  
+  /**
+   * Decode the file to mono samples at the given sample rate
+   * 
+   * @param sampleRate Sample rate of the chunks, i.e. the capture sample rate
+   * @returns The length of the file in seconds
+   */
+  async load(sampleRate: number): Promise<number> {
+    audioLoggers.audioCapture.info(`FileAudioSource: Decoding ${this.getLabel()}`, {
+      size: this.file.size,
+      sampleRate
+    });
+    
+    // decodeAudioData resamples to the context's sample rate
+    const encoded = await this.file.arrayBuffer();
+    const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(encoded);
+    
+    if (decoded.numberOfChannels === 1) {
+      this.samples = decoded.getChannelData(0);
+    } else {
+      // Rendering into a mono context mixes the channels down
+      const mixer = new OfflineAudioContext(1, decoded.length, sampleRate);
+      const bufferSource = mixer.createBufferSource();
+      bufferSource.buffer = decoded;
+      bufferSource.connect(mixer.destination);
+      bufferSource.start();
+      
+      const rendered = await mixer.startRendering();
+      this.samples = rendered.getChannelData(0);
+    }
+    
+    this.sampleRate = sampleRate;
+    return this.samples.length / sampleRate;
+  }
+  
+  /**
+   * Hand out the decoded samples in chunks
+   * 
+   * @param onChunk Called with each chunk; the next chunk waits for a returned promise
+   * @param onProgress Called before the first chunk and after each chunk
+   * @returns Promise that resolves when all chunks were handed out, or the source was cancelled
+   */
+  async run(
+    onChunk: (chunk: Float32Array) => void | Promise<void>,
+    onProgress?: (progress: FileAudioProgress) => void
+  ): Promise<void> {
+    const { samples, sampleRate } = this;
+    if (!samples) {
+      throw new Error('FileAudioSource not loaded');
+    }
+    
+    const duration = samples.length / sampleRate;
+    const { speed, chunkSize } = this.options;
+    
+    audioLoggers.audioCapture.info(`FileAudioSource: Feeding ${duration.toFixed(2)}s of audio`, { speed });
+    
+    onProgress?.({ position: 0, duration, progress: 0 });
+    
+    // Wall clock time at which the fed audio would have played at the set speed
+    let startTime = performance.now();
+    
+    for (let offset = 0; offset < samples.length && !this.cancelled; offset += chunkSize) {
+      if (this.paused) {
+        const pausedAt = performance.now();
+        await this.waitForResume();
+        startTime += performance.now() - pausedAt;
+        if (this.cancelled) {
+          break;
+        }
+      }
+      
+      const chunk = samples.slice(offset, offset + chunkSize);
+      await onChunk(chunk);
+      
+      const position = (offset + chunk.length) / sampleRate;
+      onProgress?.({
+        position,
+        duration,
+        progress: position / duration
+      });
+      
+      if (speed > 0) {
+        const delay = startTime + (position / speed) * 1000 - performance.now();
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+    
+    audioLoggers.audioCapture.info(`FileAudioSource: ${this.cancelled ? 'Cancelled' : 'Finished'} feeding ${this.getLabel()}`);
+  }
+  
+  /**
+   * Hold back the next chunk until resumed
+   */
+  pause(): void {
+    this.paused = true;
+  }
+  
+  /**
+   * Continue after pause()
+   */
+  resume(): void {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+  
+  /**
+   * Stop handing out chunks; run() resolves after the current chunk
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.releaseWaiters();
+  }
+  
+  /**
+   * Wait until resumed or cancelled
+   */
+  private waitForResume(): Promise<void> {
+    if (!this.paused || this.cancelled) {
+      return Promise.resolve();
+    }
+    
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+  
+  /**
+   * Release everyone waiting for resume
+   */
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
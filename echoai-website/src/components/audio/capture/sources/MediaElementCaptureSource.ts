@@ -0,0 +1,82 @@
+import { CaptureSourceType } from '../../../../types/audio-capture';
+import { MediaStreamCaptureSource } from './MediaStreamCaptureSource';
+
+/**
+ * Media elements with the (partly prefixed) captureStream API
+ */
+type CapturableMediaElement = HTMLMediaElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+/**
+ * MediaElementCaptureSource
+ * 
+ * Captures what an <audio> or <video> element plays, through captureStream().
+ * The element keeps playing through its own output, and any Web Audio graph
+ * already attached to it (such as the player's visualization) is untouched.
+ * Opening waits until the element has an audio track, i.e. until it plays.
+ */
+export class MediaElementCaptureSource extends MediaStreamCaptureSource {
+  readonly type = CaptureSourceType.MEDIA_ELEMENT;
+  
+  /**
+   * Create a new MediaElementCaptureSource
+   * 
+   * @param element The element to capture
+   */
+  constructor(private element: HTMLMediaElement) {
+    super();
+  }
+  
+  /**
+   * Get the name to show
+   * 
+   * @returns The element's current source
+   */
+  getLabel(): string {
+    return this.element.currentSrc || super.getLabel();
+  }
+  
+  /**
+   * Capture the element's output
+   * 
+   * @returns A stream with the element's audio
+   */
+  protected async acquire(): Promise<MediaStream> {
+    const element = this.element as CapturableMediaElement;
+    const stream = element.captureStream?.() ?? element.mozCaptureStream?.();
+    if (!stream) {
+      throw new Error('Capturing media elements is not supported in this browser');
+    }
+    
+    if (stream.getAudioTracks().length > 0) {
+      return stream;
+    }
+    
+    // The track appears once media with audio is playing
+    return new Promise(resolve => {
+      const handleAddTrack = (event: MediaStreamTrackEvent) => {
+        if (event.track.kind === 'audio') {
+          stream.removeEventListener('addtrack', handleAddTrack);
+          resolve(stream);
+        }
+      };
+      stream.addEventListener('addtrack', handleAddTrack);
+    });
+  }
+  
+  /**
+   * Media elements replace their tracks when the media changes; follow the new ones
+   */
+  protected handleTrackEnded(): void {
+    if (!this.audioContext || this.element.ended) {
+      super.handleTrackEnded();
+      return;
+    }
+    
+    this.acquire()
+      .then(stream => this.replaceStream(stream))
+      .catch(() => super.handleTrackEnded());
+  }
+}
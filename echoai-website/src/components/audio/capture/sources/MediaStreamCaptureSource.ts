@@ -0,0 +1,175 @@
+import {
+  AudioCaptureSource,
+  CaptureSourceConnection,
+  CaptureSourceType
+} from '../../../../types/audio-capture';
+import { audioLoggers } from '../../../../utils/LoggerFactory';
+
+/**
+ * MediaStreamCaptureSource
+ * 
+ * Base for capture sources backed by a MediaStream. Subclasses acquire the
+ * stream; this class turns it into a node in the capture AudioContext, reports
+ * when its audio tracks end, and swaps in replacement streams.
+ */
+export abstract class MediaStreamCaptureSource implements AudioCaptureSource {
+  abstract readonly type: CaptureSourceType;
+  
+  protected audioContext: AudioContext | null = null;
+  protected stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+  private listeners: ((connection: CaptureSourceConnection | null) => void)[] = [];
+  private readonly boundTrackEnded = this.handleTrackEnded.bind(this);
+  
+  /**
+   * Get a stream with at least one audio track
+   * 
+   * @returns The stream
+   */
+  protected abstract acquire(): Promise<MediaStream>;
+  
+  /**
+   * Get the name to show
+   * 
+   * @returns The label of the audio track, or a generic name
+   */
+  getLabel(): string {
+    return this.stream?.getAudioTracks()[0]?.label || this.type;
+  }
+  
+  /**
+   * Acquire the stream and create its node
+   * 
+   * @param audioContext The capture AudioContext
+   * @returns The connection to capture from
+   */
+  async open(audioContext: AudioContext): Promise<CaptureSourceConnection> {
+    this.close();
+    this.audioContext = audioContext;
+    
+    const stream = await this.acquire();
+    return this.attach(stream);
+  }
+  
+  /**
+   * Stop the stream's tracks and release the node
+   */
+  close(): void {
+    this.detach();
+    this.disconnectNode();
+    this.audioContext = null;
+  }
+  
+  /**
+   * Listen for a new node or the end of the source
+   * 
+   * @param callback Called with the new connection, or null when the source ended
+   * @returns Function that removes the listener
+   */
+  onChange(callback: (connection: CaptureSourceConnection | null) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+  
+  /**
+   * Replace the stream while open, e.g. with another device's
+   * 
+   * @param stream The new stream
+   */
+  protected replaceStream(stream: MediaStream): void {
+    if (!this.audioContext) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    
+    this.notify(this.attach(stream));
+  }
+  
+  /**
+   * Create the node for a stream, releasing the previous one
+   * 
+   * @param stream The stream
+   * @returns The connection
+   */
+  private attach(stream: MediaStream): CaptureSourceConnection {
+    if (!this.audioContext) {
+      throw new Error('Capture source is not open');
+    }
+    
+    const tracks = stream.getAudioTracks();
+    if (tracks.length === 0) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new Error('The selected source has no audio');
+    }
+    
+    // The previous node stays connected until the capture moves to the new one
+    this.detach();
+    this.stream = stream;
+    this.node = this.audioContext.createMediaStreamSource(stream);
+    tracks.forEach(track => track.addEventListener('ended', this.boundTrackEnded));
+    
+    audioLoggers.audioCapture.info(`MediaStreamCaptureSource: Opened ${this.type} source`, {
+      label: this.getLabel(),
+      settings: tracks[0].getSettings()
+    });
+    
+    return { node: this.node, monitor: false };
+  }
+  
+  /**
+   * Stop the current stream's tracks
+   */
+  private detach(): void {
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => {
+        track.removeEventListener('ended', this.boundTrackEnded);
+        track.stop();
+      });
+      this.stream = null;
+    }
+  }
+  
+  /**
+   * Disconnect the current node
+   */
+  private disconnectNode(): void {
+    if (this.node) {
+      try {
+        this.node.disconnect();
+      } catch (e) {
+        // Ignore disconnect errors
+      }
+      this.node = null;
+    }
+  }
+  
+  /**
+   * Report the end of the source once all its audio tracks have ended
+   */
+  protected handleTrackEnded(): void {
+    if (!this.stream || this.stream.getAudioTracks().some(track => track.readyState === 'live')) {
+      return;
+    }
+    
+    audioLoggers.audioCapture.info(`MediaStreamCaptureSource: ${this.type} source ended`);
+    this.detach();
+    this.notify(null);
+  }
+  
+  /**
+   * Call the change listeners
+   * 
+   * @param connection The new connection, or null
+   */
+  private notify(connection: CaptureSourceConnection | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(connection);
+      } catch (error) {
+        audioLoggers.audioCapture.error('MediaStreamCaptureSource: Error in change listener', error);
+      }
+    });
+  }
+}
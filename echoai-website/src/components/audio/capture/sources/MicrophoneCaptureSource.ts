@@ -0,0 +1,151 @@
+import { CaptureSourceType } from '../../../../types/audio-capture';
+import { MediaStreamCaptureSource } from './MediaStreamCaptureSource';
+import { audioLoggers } from '../../../../utils/LoggerFactory';
+
+/**
+ * Microphone capture options
+ */
+export interface MicrophoneCaptureOptions {
+  /**
+   * Input device to use; the system default if omitted
+   */
+  deviceId?: string;
+  
+  /**
+   * Browser audio processing, all on by default since speech is captured
+   */
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+}
+
+/**
+ * MicrophoneCaptureSource
+ * 
+ * Captures a microphone through getUserMedia. The input device can be switched
+ * while capturing; when the device in use is unplugged, capture continues on
+ * the default device.
+ */
+export class MicrophoneCaptureSource extends MediaStreamCaptureSource {
+  readonly type = CaptureSourceType.MICROPHONE;
+  
+  private options: MicrophoneCaptureOptions;
+  private switching = false;
+  
+  /**
+   * Create a new MicrophoneCaptureSource
+   * 
+   * @param options Microphone options
+   */
+  constructor(options: MicrophoneCaptureOptions = {}) {
+    super();
+    this.options = options;
+  }
+  
+  /**
+   * List the audio input devices
+   * Labels are empty until the user has granted microphone access.
+   * 
+   * @returns The input devices
+   */
+  static async listDevices(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return [];
+    }
+    
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+  }
+  
+  /**
+   * Listen for input devices being added or removed
+   * 
+   * @param callback Called with the current input devices
+   * @returns Function that removes the listener
+   */
+  static onDevicesChange(callback: (devices: MediaDeviceInfo[]) => void): () => void {
+    if (!navigator.mediaDevices) {
+      return () => undefined;
+    }
+    
+    const handler = () => {
+      MicrophoneCaptureSource.listDevices()
+        .then(callback)
+        .catch(error => audioLoggers.audioCapture.warn('MicrophoneCaptureSource: Failed to list devices', error));
+    };
+    
+    navigator.mediaDevices.addEventListener('devicechange', handler);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handler);
+  }
+  
+  /**
+   * Get the device being captured
+   * 
+   * @returns The device ID, or null while closed
+   */
+  getDeviceId(): string | null {
+    return this.stream?.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+  }
+  
+  /**
+   * Switch to another input device, keeping the capture running
+   * 
+   * @param deviceId The device, or undefined for the system default
+   */
+  async switchDevice(deviceId?: string): Promise<void> {
+    this.options = { ...this.options, deviceId };
+    
+    if (!this.audioContext) {
+      return;
+    }
+    
+    audioLoggers.audioCapture.info('MicrophoneCaptureSource: Switching input device', { deviceId: deviceId ?? 'default' });
+    
+    this.switching = true;
+    try {
+      this.replaceStream(await this.acquire());
+    } finally {
+      this.switching = false;
+    }
+  }
+  
+  /**
+   * Ask for the microphone stream
+   * 
+   * @returns The stream
+   */
+  protected async acquire(): Promise<MediaStream> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Microphone capture is not supported in this browser');
+    }
+    
+    const { deviceId, echoCancellation = true, noiseSuppression = true, autoGainControl = true } = this.options;
+    
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation,
+        noiseSuppression,
+        autoGainControl,
+        channelCount: 1
+      },
+      video: false
+    });
+  }
+  
+  /**
+   * Fall back to the default device when a selected device is unplugged
+   */
+  protected handleTrackEnded(): void {
+    if (this.switching || !this.options.deviceId || !this.audioContext) {
+      super.handleTrackEnded();
+      return;
+    }
+    
+    audioLoggers.audioCapture.warn('MicrophoneCaptureSource: Input device disconnected, using the default device');
+    this.switchDevice(undefined).catch(error => {
+      audioLoggers.audioCapture.error('MicrophoneCaptureSource: Failed to switch to the default device', error);
+      super.handleTrackEnded();
+    });
+  }
+}
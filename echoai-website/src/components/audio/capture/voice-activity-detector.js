@@ -0,0 +1,336 @@
+/**
+ * VoiceActivityDetector
+ * 
+ * Frame-based voice activity detection for the audio worklet. Each frame
+ * (20ms) is classified from its energy above an adaptive noise floor and from
+ * two spectral features: flatness (noise and dense music are flat, voiced
+ * speech is peaky) and the share of energy in the speech band. Optionally a
+ * small WASM model gives a speech probability instead of the spectral rules.
+ * Short bursts are ignored and short pauses bridged, so the speech state only
+ * changes after minSpeechDuration of speech or hangover of non-speech.
+ */
+
+const FRAME_DURATION = 0.02;
+const FFT_SIZE = 1024;
+const SPEECH_BAND_LOW = 300;
+const SPEECH_BAND_HIGH = 3400;
+
+// Noise floor tracking: falls quickly to quieter frames, rises slowly
+const NOISE_FLOOR_RISE = 0.002;
+const NOISE_FLOOR_FALL = 0.2;
+const MIN_LEVEL_DB = -100;
+
+/**
+ * Default detector settings, overridable through configure()
+ */
+const DEFAULT_SETTINGS = {
+  // Minimum level above the noise floor for speech, in dB
+  energyThreshold: 9,
+  
+  // Frames quieter than this are never speech, in dBFS
+  minLevel: -55,
+  
+  // Maximum spectral flatness (0 tonal to 1 white noise) for speech
+  flatnessThreshold: 0.45,
+  
+  // Minimum share of energy between 300 and 3400 Hz for speech
+  speechBandRatio: 0.5,
+  
+  // Speech needed before the state changes to speech, in ms
+  minSpeechDuration: 60,
+  
+  // Non-speech needed before the state changes back, in ms
+  hangover: 400,
+  
+  // Speech probability from the WASM model needed for speech
+  modelThreshold: 0.5
+};
+
+export class VoiceActivityDetector {
+  /**
+   * Create a detector for the given sample rate
+   * 
+   * @param {number} sampleRate Sample rate of the analysed audio
+   */
+  constructor(sampleRate) {
+    this._sampleRate = sampleRate;
+    this._frameSize = Math.round(sampleRate * FRAME_DURATION);
+    this._frame = new Float32Array(this._frameSize);
+    this._frameFill = 0;
+    
+    this._settings = { ...DEFAULT_SETTINGS };
+    this._model = null;
+    this._noiseFloor = null;
+    
+    // FFT work buffers and a Hann window over the frame
+    this._real = new Float32Array(FFT_SIZE);
+    this._imag = new Float32Array(FFT_SIZE);
+    this._window = new Float32Array(this._frameSize);
+    for (let i = 0; i < this._frameSize; i++) {
+      this._window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (this._frameSize - 1));
+    }
+    
+    this.reset();
+  }
+  
+  /**
+   * Change detector settings
+   * 
+   * @param {Object} settings Settings to change (see DEFAULT_SETTINGS)
+   */
+  configure(settings) {
+    for (const key of Object.keys(DEFAULT_SETTINGS)) {
+      if (typeof settings[key] === 'number') {
+        this._settings[key] = settings[key];
+      }
+    }
+  }
+  
+  /**
+   * Use a WASM model for the frame decision
+   * The module exports memory, input_buffer(length) returning a pointer to room
+   * for length float32 samples, and speech_probability(length, sampleRate).
+   * 
+   * @param {WebAssembly.Instance} instance The instantiated model
+   */
+  setModel(instance) {
+    const { memory, input_buffer, speech_probability } = instance.exports;
+    if (!(memory instanceof WebAssembly.Memory) || typeof input_buffer !== 'function' || typeof speech_probability !== 'function') {
+      throw new Error('VAD model must export memory, input_buffer and speech_probability');
+    }
+    
+    this._model = { memory, inputBuffer: input_buffer, speechProbability: speech_probability };
+  }
+  
+  /**
+   * Forget the speech state, e.g. when capture starts
+   * The noise floor is kept: it describes the source, not the capture.
+   */
+  reset() {
+    this._isSpeech = false;
+    this._speechFrames = 0;
+    this._silenceFrames = 0;
+    this._frameFill = 0;
+  }
+  
+  /**
+   * Whether the detector is currently in speech
+   * 
+   * @returns {boolean} The speech state
+   */
+  isSpeech() {
+    return this._isSpeech;
+  }
+  
+  /**
+   * Analyse a block of samples
+   * 
+   * @param {Float32Array} samples The samples
+   * @returns {Array<{speech: boolean, offset: number}>} State changes, with the offset in the block where each
+   *   takes effect: where the speech began for a start (possibly before the block), where it was decided for an end
+   */
+  process(samples) {
+    const changes = [];
+    let offset = 0;
+    
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, this._frameSize - this._frameFill);
+      this._frame.set(samples.subarray(offset, offset + count), this._frameFill);
+      this._frameFill += count;
+      offset += count;
+      
+      if (this._frameFill === this._frameSize) {
+        this._frameFill = 0;
+        if (this._update(this._classifyFrame())) {
+          changes.push({
+            speech: this._isSpeech,
+            offset: this._isSpeech ? offset - this._speechFrames * this._frameSize : offset
+          });
+        }
+      }
+    }
+    
+    return changes;
+  }
+  
+  /**
+   * Advance the speech state by one frame
+   * 
+   * @param {boolean} frameIsSpeech Whether the frame sounds like speech
+   * @returns {boolean} Whether the state changed
+   * @private
+   */
+  _update(frameIsSpeech) {
+    const frameMs = FRAME_DURATION * 1000;
+    
+    if (frameIsSpeech) {
+      this._speechFrames++;
+      this._silenceFrames = 0;
+    } else {
+      this._silenceFrames++;
+      this._speechFrames = 0;
+    }
+    
+    if (!this._isSpeech && this._speechFrames * frameMs >= this._settings.minSpeechDuration) {
+      this._isSpeech = true;
+      return true;
+    }
+    
+    if (this._isSpeech && this._silenceFrames * frameMs >= this._settings.hangover) {
+      this._isSpeech = false;
+      return true;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Classify the current frame
+   * 
+   * @returns {boolean} Whether the frame sounds like speech
+   * @private
+   */
+  _classifyFrame() {
+    const frame = this._frame;
+    
+    let sumSquares = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sumSquares += frame[i] * frame[i];
+    }
+    const levelDb = Math.max(MIN_LEVEL_DB, 10 * Math.log10(sumSquares / frame.length + 1e-12));
+    
+    const loudEnough = levelDb >= this._settings.minLevel
+      && (this._noiseFloor === null || levelDb > this._noiseFloor + this._settings.energyThreshold);
+    this._trackNoiseFloor(levelDb);
+    if (!loudEnough) {
+      return false;
+    }
+    
+    if (this._model) {
+      return this._modelProbability() >= this._settings.modelThreshold;
+    }
+    
+    const { flatness, bandRatio } = this._spectralFeatures();
+    return flatness <= this._settings.flatnessThreshold && bandRatio >= this._settings.speechBandRatio;
+  }
+  
+  /**
+   * Follow the level of the quietest recent frames
+   * 
+   * @param {number} levelDb Level of the current frame
+   * @private
+   */
+  _trackNoiseFloor(levelDb) {
+    if (this._noiseFloor === null) {
+      this._noiseFloor = levelDb;
+      return;
+    }
+    
+    const rate = levelDb < this._noiseFloor ? NOISE_FLOOR_FALL : NOISE_FLOOR_RISE;
+    this._noiseFloor += (levelDb - this._noiseFloor) * rate;
+  }
+  
+  /**
+   * Compute the spectral flatness and the speech band energy share of the frame
+   * 
+   * @returns {{flatness: number, bandRatio: number}} The features
+   * @private
+   */
+  _spectralFeatures() {
+    const real = this._real;
+    const imag = this._imag;
+    const size = Math.min(this._frameSize, FFT_SIZE);
+    
+    real.fill(0);
+    imag.fill(0);
+    for (let i = 0; i < size; i++) {
+      real[i] = this._frame[i] * this._window[i];
+    }
+    fft(real, imag);
+    
+    const binWidth = this._sampleRate / FFT_SIZE;
+    const lowBin = Math.max(1, Math.floor(SPEECH_BAND_LOW / binWidth));
+    const highBin = Math.min(FFT_SIZE / 2, Math.ceil(SPEECH_BAND_HIGH / binWidth));
+    
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let bin = 1; bin <= FFT_SIZE / 2; bin++) {
+      const power = real[bin] * real[bin] + imag[bin] * imag[bin] + 1e-12;
+      total += power;
+      if (bin >= lowBin && bin <= highBin) {
+        band += power;
+        logSum += Math.log(power);
+      }
+    }
+    
+    // Flatness over the speech band: geometric over arithmetic mean
+    const bins = highBin - lowBin + 1;
+    const flatness = Math.exp(logSum / bins) / (band / bins);
+    
+    return { flatness, bandRatio: band / total };
+  }
+  
+  /**
+   * Run the WASM model on the frame
+   * 
+   * @returns {number} Speech probability from 0 to 1
+   * @private
+   */
+  _modelProbability() {
+    const { memory, inputBuffer, speechProbability } = this._model;
+    const pointer = inputBuffer(this._frameSize);
+    new Float32Array(memory.buffer, pointer, this._frameSize).set(this._frame);
+    return speechProbability(this._frameSize, this._sampleRate);
+  }
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ * 
+ * @param {Float32Array} real Real parts; length must be a power of two
+ * @param {Float32Array} imag Imaginary parts
+ */
+function fft(real, imag) {
+  const n = real.length;
+  
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    
+    for (let start = 0; start < n; start += length) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const productReal = real[b] * twiddleReal - imag[b] * twiddleImag;
+        const productImag = real[b] * twiddleImag + imag[b] * twiddleReal;
+        
+        real[b] = real[a] - productReal;
+        imag[b] = imag[a] - productImag;
+        real[a] += productReal;
+        imag[a] += productImag;
+        
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
@@ -10,6 +10,9 @@ export * from './capture';
 // Re-export from save module
 export * from './save';
 
+// Re-export from captions module
+export * from './captions';
+
 // Re-export from process module
 export * from './process';
 
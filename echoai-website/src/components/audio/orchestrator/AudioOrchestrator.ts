@@ -1,16 +1,26 @@
 import { AudioCaptureManager } from '../capture/AudioCaptureManager';
-import { AudioCaptureEventType } from '../../../types/audio-capture';
+import { FileAudioSource, FileAudioSourceOptions } from '../capture/sources/FileAudioSource';
+import { AudioCaptureEvent, AudioCaptureEventType, AudioCaptureSource } from '../../../types/audio-capture';
 import { AudioSaveManager } from '../save/AudioSaveManager';
 import { AudioBatchManager } from '../batch/AudioBatchManager';
-import { BatchStrategy } from '../../../types/audio-batch';
+import { AudioStreamManager } from '../stream/AudioStreamManager';
+import { CaptionRecorder } from '../captions/CaptionRecorder';
+import { PipelineStageRunner, PipelineStageHandler } from './PipelineStageRunner';
+import { AudioBatchEventType, BatchStrategy } from '../../../types/audio-batch';
+import { AudioExportMetadata, AudioExportOptions } from '../../../types/audio-export';
 import { 
   OrchestratorOptions, 
   OrchestratorState, 
   OrchestratorEventType, 
   OrchestratorEvent,
+  PipelineExecutionMode,
   PipelineType,
   Pipeline,
-  PipelineStep
+  PipelineStep,
+  PipelineStepResults,
+  BatchStepResults,
+  ProcessStepResults,
+  SaveStepResults
 } from '../../../types/audio-orchestrator';
 import { audioLoggers } from '../../../utils/LoggerFactory';
 
@@ -81,6 +91,15 @@ const DEFAULT_PIPELINES: Record<PipelineType, Pipeline> = {
       { type: 'stream', name: 'stream' }
     ]
   },
+  [PipelineType.CAPTURE_STREAM_SAVE]: {
+    id: PipelineType.CAPTURE_STREAM_SAVE,
+    name: 'Capture, Stream and Save',
+    steps: [
+      { type: 'capture', name: 'capture' },
+      { type: 'stream', name: 'stream' },
+      { type: 'save', name: 'save' }
+    ]
+  },
   [PipelineType.CUSTOM]: {
     id: PipelineType.CUSTOM,
     name: 'Custom Pipeline',
@@ -88,14 +107,59 @@ const DEFAULT_PIPELINES: Record<PipelineType, Pipeline> = {
   }
 };
 
+/**
+ * Default maximum number of items queued per step in streaming mode
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 32;
+
+/**
+ * Default length in seconds of the files saved in streaming mode without a batch step
+ */
+const DEFAULT_SAVE_SEGMENT_DURATION = 60;
+
+/**
+ * A streaming mode stage handler and the results it fills in for PIPELINE_STEP_COMPLETE
+ */
+interface StreamingStage<R extends PipelineStepResults = PipelineStepResults> {
+  handler: PipelineStageHandler;
+  results: R;
+}
+
 /**
  * AudioOrchestrator
  * 
  * Coordinates the flow of audio data between capture, process, save, and stream modules.
+ * Steps after capture either run once capture stops (POST_STOP) or on each
+ * captured chunk as it arrives (STREAMING).
  */
 export class AudioOrchestrator {
   // Module instances
   private captureManager: AudioCaptureManager | null = null;
+  private streamManager: AudioStreamManager | null = null;
+  private captionRecorder: CaptionRecorder | null = null;
+  
+  // Whether captured audio is being streamed while capture runs
+  private isLiveStreaming = false;
+  
+  // Cuts live-streamed audio into DYNAMIC batches, and the captured samples batched so far
+  private liveBatcher: AudioBatchManager | null = null;
+  private liveBatchPosition = 0;
+  
+  // File being run through the pipeline instead of live capture
+  private fileSource: FileAudioSource | null = null;
+  
+  // Speech found by voice activity detection, in captured samples with a null end while it goes on;
+  // null when the capture isn't analysed
+  private speechRanges: { start: number; end: number | null }[] | null = null;
+  
+  // Streaming mode stages, one per step after capture
+  private stages: { step: PipelineStep, runner: PipelineStageRunner }[] = [];
+  private stageResults: Map<PipelineStep, PipelineStepResults> = new Map();
+  private droppedChunks = 0;
+  
+  // Context embedded in exported files
+  private captureStartTime: number | null = null;
+  private exportMetadata: AudioExportMetadata = {};
   
   // State
   private state: OrchestratorState = OrchestratorState.INACTIVE;
@@ -163,6 +227,8 @@ export class AudioOrchestrator {
         await this.initializeStep(step);
       }
       
+      this.initializeCaptionRecorder();
+      
       this.state = OrchestratorState.INITIALIZED;
       
       this._emitEvent(OrchestratorEventType.INITIALIZED);
@@ -199,13 +265,44 @@ export class AudioOrchestrator {
         // Save module doesn't require initialization
         break;
       case 'stream':
-        // Stream module initialization would go here
+        await this.initializeStreamStep(step);
         break;
       default:
         audioLoggers.audioCapture.warn(`AudioOrchestrator: Unknown step type: ${step.type}`);
     }
   }
   
+  /**
+   * Initialize the stream step
+   * 
+   * @param step The stream step to initialize
+   */
+  private async initializeStreamStep(_step: PipelineStep): Promise<void> {
+    audioLoggers.audioCapture.debug('AudioOrchestrator: Initializing stream step');
+    
+    this.streamManager = new AudioStreamManager(this.options.streamOptions);
+    await this.streamManager.initialize();
+  }
+  
+  /**
+   * Create the caption recorder when captions are to be saved
+   * Captions are taken from the stream step's WebSocket service if there is one
+   */
+  private initializeCaptionRecorder(): void {
+    if (!this.options.saveOptions?.captionFormats?.length) {
+      return;
+    }
+    
+    this.captionRecorder = new CaptionRecorder();
+    
+    const service = this.streamManager?.getWebSocketService();
+    if (service) {
+      this.captionRecorder.attach(service);
+    } else {
+      audioLoggers.audioCapture.debug('AudioOrchestrator: No stream step, attach a caption source with getCaptionRecorder()');
+    }
+  }
+  
   /**
    * Initialize the capture step
    * 
@@ -214,10 +311,20 @@ export class AudioOrchestrator {
   private async initializeCaptureStep(_step: PipelineStep): Promise<void> {
     audioLoggers.audioCapture.debug('AudioOrchestrator: Initializing capture step');
     
-    this.captureManager = new AudioCaptureManager(this.options.captureOptions);
+    // In streaming mode chunks are consumed as they arrive, so don't keep them
+    this.captureManager = new AudioCaptureManager({
+      ...this.options.captureOptions,
+      retainChunks: this.isStreamingMode() ? false : this.options.captureOptions?.retainChunks
+    });
     
     // Set up event listeners
     this.captureManager.addEventListener(AudioCaptureEventType.CAPTURE_STOP, this.handleCaptureStop.bind(this));
+    this.captureManager.addEventListener(AudioCaptureEventType.CHUNK_RECEIVED, this.handleChunkReceived.bind(this));
+    this.captureManager.addEventListener(AudioCaptureEventType.SOURCE_ENDED, (event) => {
+      this._emitEvent(OrchestratorEventType.SOURCE_ENDED, event.details);
+    });
+    this.captureManager.addEventListener(AudioCaptureEventType.SPEECH_START, this.handleSpeechChange.bind(this));
+    this.captureManager.addEventListener(AudioCaptureEventType.SPEECH_END, this.handleSpeechChange.bind(this));
     
     // Initialize the capture manager
     await this.captureManager.initialize();
@@ -242,6 +349,94 @@ export class AudioOrchestrator {
     }
   }
   
+  /**
+   * Capture from a source (media element, microphone, tab audio), replacing the current one
+   * The source can be switched while the pipeline runs.
+   * 
+   * @param source The capture source
+   * @returns Promise that resolves when the source is connected
+   */
+  async setSource(source: AudioCaptureSource): Promise<void> {
+    if (this.state === OrchestratorState.INACTIVE) {
+      audioLoggers.audioCapture.debug('AudioOrchestrator: Auto-initializing before setting the source');
+      await this.initialize();
+    }
+    
+    if (!this.captureManager) {
+      audioLoggers.audioCapture.error('AudioOrchestrator: Capture manager not initialized');
+      throw new Error('Capture manager not initialized');
+    }
+    
+    await this.captureManager.setSource(source);
+  }
+  
+  /**
+   * Run an audio file through the pipeline instead of live capture
+   * The file is decoded and fed to the capture step at the given speed; the
+   * steps after capture handle it like live audio. FILE_PROGRESS events report
+   * how much has been fed, and the pipeline stops at the end of the file.
+   * 
+   * @param file The audio file
+   * @param options Speed and chunk size
+   * @returns Promise that resolves when the file has been fed and the pipeline is stopping
+   */
+  async runFile(file: Blob, options?: FileAudioSourceOptions): Promise<void> {
+    if (this.state === OrchestratorState.INACTIVE) {
+      audioLoggers.audioCapture.debug('AudioOrchestrator: Auto-initializing before running a file');
+      await this.initialize();
+    }
+    
+    if (this.state !== OrchestratorState.INITIALIZED || !this.captureManager) {
+      audioLoggers.audioCapture.error(`AudioOrchestrator: Cannot run a file, current state is ${this.state}`);
+      throw new Error(`Cannot run a file while the pipeline is ${this.state}`);
+    }
+    
+    const captureManager = this.captureManager;
+    const fileSource = new FileAudioSource(file, options);
+    this.fileSource = fileSource;
+    
+    try {
+      await fileSource.load(captureManager.getSampleRate());
+      
+      // Stopped or disposed while decoding
+      if (this.fileSource !== fileSource) {
+        return;
+      }
+      
+      audioLoggers.audioCapture.info(`AudioOrchestrator: Running ${fileSource.getLabel()} through the pipeline`);
+      captureManager.setExternalInput(true);
+      this.start();
+      
+      await fileSource.run(
+        async (chunk) => {
+          captureManager.feed(chunk);
+          
+          // Unlike live capture, a file can wait for the pipeline instead of dropping chunks
+          await this.stages[0]?.runner.waitForSpace();
+        },
+        (progress) => {
+          // Captions are timed by the fed audio, since the file doesn't play in real time
+          this.captionRecorder?.markFeedPosition(progress.position);
+          this._emitEvent(OrchestratorEventType.FILE_PROGRESS, {
+            file: fileSource.getLabel(),
+            ...progress
+          });
+        }
+      );
+      
+      // Unless the pipeline was stopped meanwhile
+      const state = this.getState();
+      if (this.fileSource === fileSource && (state === OrchestratorState.RUNNING || state === OrchestratorState.PAUSED)) {
+        this.stop();
+      }
+    } finally {
+      if (this.fileSource === fileSource) {
+        this.fileSource = null;
+        captureManager.setExternalInput(false);
+      }
+    }
+  }
+  
   /**
    * Perform the actual connection after ensuring initialization
    * 
@@ -276,7 +471,18 @@ export class AudioOrchestrator {
     
     // Start capture
     if (this.state === OrchestratorState.INITIALIZED) {
+      this.captureStartTime = Date.now();
+      
+      // Fed file audio doesn't pass the worklet's voice activity detection
+      const vad = this.options.captureOptions?.vad;
+      this.speechRanges = vad && vad.enabled !== false && !this.fileSource ? [] : null;
+      
+      if (this.isStreamingMode()) {
+        this.createStreamingStages();
+      }
+      this.captionRecorder?.start(this.captureStartTime);
       this.captureManager.start();
+      this.startLiveStreaming();
     } else if (this.state === OrchestratorState.PAUSED) {
       this.captureManager.resume();
     }
@@ -303,7 +509,9 @@ export class AudioOrchestrator {
     audioLoggers.audioCapture.info('AudioOrchestrator: Pausing pipeline');
     
     // Pause capture
+    this.fileSource?.pause();
     this.captureManager.pause();
+    this.captionRecorder?.pause();
     
     this.state = OrchestratorState.PAUSED;
     
@@ -328,6 +536,8 @@ export class AudioOrchestrator {
     
     // Resume capture
     this.captureManager.resume();
+    this.fileSource?.resume();
+    this.captionRecorder?.resume();
     
     this.state = OrchestratorState.RUNNING;
     
@@ -353,11 +563,175 @@ export class AudioOrchestrator {
     this.state = OrchestratorState.STOPPING;
     
     // Stop capture
+    this.fileSource?.cancel();
     this.captureManager.stop();
     
     // Further processing will be triggered by the capture stop event
   }
   
+  /**
+   * Start streaming captured chunks while capture runs, if the pipeline streams
+   */
+  private startLiveStreaming(): void {
+    if (!this.streamManager || !this.captureManager) {
+      return;
+    }
+    
+    // In streaming mode the stream step receives its audio from the pipeline stages
+    if (this.isStreamingMode()) {
+      this.streamManager.start(this.captureManager.getSampleRate());
+      return;
+    }
+    
+    if (this.options.autoStreamOnStart === false) {
+      return;
+    }
+    
+    const sampleRate = this.captureManager.getSampleRate();
+    
+    // When batching precedes streaming, send frames of one batch each; DYNAMIC
+    // batches vary in length, so they are cut as the audio arrives
+    const batchIndex = this.pipeline.steps.findIndex(step => step.type === 'batch');
+    const streamIndex = this.pipeline.steps.findIndex(step => step.type === 'stream');
+    this.liveBatcher = null;
+    if (batchIndex !== -1 && batchIndex < streamIndex && !this.options.streamOptions?.packetSize) {
+      if (this.options.batchOptions?.strategy === BatchStrategy.DYNAMIC) {
+        this.liveBatcher = this.createBatchManager();
+        this.liveBatchPosition = 0;
+      } else {
+        this.streamManager.setPacketSize(this.getBatchSampleCount(sampleRate));
+      }
+    }
+    
+    this.streamManager.start(sampleRate);
+    this.isLiveStreaming = true;
+    
+    audioLoggers.audioCapture.info('AudioOrchestrator: Live streaming started', { sampleRate });
+  }
+  
+  /**
+   * Get the batch length in samples for the configured batch options
+   * 
+   * @param sampleRate The sample rate of the captured audio
+   * @returns The number of samples per batch
+   */
+  private getBatchSampleCount(sampleRate: number): number {
+    const batchOptions = this.options.batchOptions || {};
+    
+    if (batchOptions.strategy === BatchStrategy.TIME_BASED) {
+      return Math.floor((batchOptions.batchDuration || 1.0) * sampleRate);
+    }
+    
+    return batchOptions.batchSize || 4096;
+  }
+  
+  /**
+   * Get the number of samples consecutive batches share
+   * 
+   * @param sampleRate The sample rate of the captured audio
+   * @returns The overlap in samples
+   */
+  private getBatchOverlapSampleCount(sampleRate: number): number {
+    const batchOptions = this.options.batchOptions || {};
+    
+    if (batchOptions.strategy === BatchStrategy.DYNAMIC) {
+      return 0;
+    }
+    
+    const overlap = batchOptions.strategy === BatchStrategy.TIME_BASED
+      ? Math.floor((batchOptions.overlap || 0) * sampleRate)
+      : batchOptions.overlap || 0;
+    
+    return Math.min(overlap, this.getBatchSampleCount(sampleRate) - 1);
+  }
+  
+  /**
+   * Handle a captured audio chunk
+   * 
+   * @param event The chunk received event
+   */
+  private handleChunkReceived(event: AudioCaptureEvent): void {
+    if (this.state !== OrchestratorState.RUNNING) {
+      return;
+    }
+    
+    const { chunk, sampleRate, speech } = event.details || {};
+    if (!chunk) {
+      return;
+    }
+    
+    if (this.stages.length > 0) {
+      this.pushToStages(chunk);
+      return;
+    }
+    
+    if (!this.isLiveStreaming || !this.streamManager) {
+      return;
+    }
+    
+    if (this.liveBatcher) {
+      for (const batch of this.liveBatcher.push(chunk, sampleRate)) {
+        this.streamLiveBatch(batch, sampleRate).catch(error => {
+          audioLoggers.audioCapture.error('AudioOrchestrator: Error streaming batch', error);
+        });
+      }
+      return;
+    }
+    
+    this.streamManager.streamAudio(chunk, sampleRate, speech).catch(error => {
+      audioLoggers.audioCapture.error('AudioOrchestrator: Error streaming chunk', error);
+    });
+  }
+  
+  /**
+   * Stream a batch cut from the live capture
+   * 
+   * @param batch The batch
+   * @param sampleRate The sample rate of the captured audio
+   */
+  private async streamLiveBatch(batch: Float32Array, sampleRate: number): Promise<void> {
+    const speech = this.containsSpeech(this.liveBatchPosition, batch.length);
+    this.liveBatchPosition += batch.length;
+    await this.streamManager?.streamAudio(batch, sampleRate, speech);
+  }
+  
+  /**
+   * Handle a speech start or end from voice activity detection
+   * 
+   * @param event The speech start or end event
+   */
+  private handleSpeechChange(event: AudioCaptureEvent): void {
+    const speech = event.type === AudioCaptureEventType.SPEECH_START;
+    const position: number = event.details.position;
+    
+    if (this.speechRanges) {
+      const last = this.speechRanges[this.speechRanges.length - 1];
+      if (speech) {
+        this.speechRanges.push({ start: position, end: null });
+      } else if (last && last.end === null) {
+        last.end = position;
+      }
+    }
+    
+    this._emitEvent(speech ? OrchestratorEventType.SPEECH_START : OrchestratorEventType.SPEECH_END, event.details);
+  }
+  
+  /**
+   * Check whether a stretch of the captured audio contains speech
+   * 
+   * @param start First sample of the stretch
+   * @param length Number of samples
+   * @returns True if it overlaps detected speech, undefined if the capture isn't analysed
+   */
+  private containsSpeech(start: number, length: number): boolean | undefined {
+    if (!this.speechRanges) {
+      return undefined;
+    }
+    
+    const end = start + length;
+    return this.speechRanges.some(range => range.start < end && (range.end === null || range.end > start));
+  }
+  
   /**
    * Handle the capture stop event
    * 
@@ -368,7 +742,11 @@ export class AudioOrchestrator {
     
     try {
       // Process the next steps in the pipeline
-      await this.processPipelineAfterCapture();
+      if (this.isStreamingMode()) {
+        await this.finishStreamingStages();
+      } else {
+        await this.processPipelineAfterCapture();
+      }
       
       this.state = OrchestratorState.INACTIVE;
       
@@ -383,6 +761,368 @@ export class AudioOrchestrator {
     }
   }
   
+  /**
+   * Check whether the pipeline runs in streaming mode
+   * 
+   * @returns True if steps run on each chunk as it arrives
+   */
+  private isStreamingMode(): boolean {
+    return this.options.executionMode === PipelineExecutionMode.STREAMING;
+  }
+  
+  /**
+   * Create a stage runner for each step after capture, linked in pipeline order
+   */
+  private createStreamingStages(): void {
+    const captureStepIndex = this.pipeline.steps.findIndex(step => step.type === 'capture');
+    if (captureStepIndex === -1) {
+      throw new Error('Pipeline missing capture step');
+    }
+    
+    const remainingSteps = this.pipeline.steps.slice(captureStepIndex + 1);
+    const hasBatchStep = remainingSteps.some(step => step.type === 'batch');
+    const sampleRate = this.captureManager?.getSampleRate() || 0;
+    const maxQueueSize = this.options.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE;
+    
+    this.stages = [];
+    this.stageResults = new Map();
+    this.droppedChunks = 0;
+    
+    // Build from the last step backwards so each runner knows its successor
+    let next: PipelineStageRunner | null = null;
+    for (let i = remainingSteps.length - 1; i >= 0; i--) {
+      const step = remainingSteps[i];
+      const { handler, results } = this.createStageHandler(step, sampleRate, hasBatchStep);
+      
+      const runner: PipelineStageRunner = new PipelineStageRunner(step.name, handler, maxQueueSize, next, error => {
+        this._emitEvent(OrchestratorEventType.ERROR, { 
+          step: step.type,
+          error
+        });
+      });
+      
+      this.stages.unshift({ step, runner });
+      this.stageResults.set(step, results);
+      next = runner;
+    }
+    
+    audioLoggers.audioCapture.info('AudioOrchestrator: Streaming stages created', {
+      steps: remainingSteps.map(step => step.type),
+      maxQueueSize
+    });
+  }
+  
+  /**
+   * Create the handler that performs a step on each item in streaming mode
+   * 
+   * @param step The pipeline step
+   * @param sampleRate The sample rate of the captured audio
+   * @param hasBatchStep Whether the pipeline batches the audio
+   * @returns The stage handler and the results it fills in
+   */
+  private createStageHandler(
+    step: PipelineStep,
+    sampleRate: number,
+    hasBatchStep: boolean
+  ): StreamingStage {
+    switch (step.type) {
+      case 'batch':
+        return this.createBatchStageHandler(sampleRate);
+      
+      case 'process': {
+        // Processing is a passthrough for now
+        const results: ProcessStepResults = { itemCount: 0 };
+        return {
+          handler: {
+            process: async (item) => {
+              results.itemCount++;
+              return [item];
+            }
+          },
+          results
+        };
+      }
+      
+      case 'save':
+        return this.createSaveStageHandler(sampleRate, hasBatchStep);
+      
+      case 'stream': {
+        // Where the next item starts in the captured audio, to look up its speech
+        const overlap = hasBatchStep ? this.getBatchOverlapSampleCount(sampleRate) : 0;
+        let position = 0;
+        
+        return {
+          handler: {
+            process: async (item) => {
+              const speech = this.containsSpeech(position, item.length);
+              position += item.length - overlap;
+              
+              // Speech that ended before the next item is no longer needed
+              if (this.speechRanges) {
+                this.speechRanges = this.speechRanges.filter(range => range.end === null || range.end > position);
+              }
+              
+              if (this.streamManager) {
+                await this.streamManager.streamAudio(item, sampleRate, speech);
+              }
+              return [item];
+            },
+            flush: async () => {
+              await this.streamManager?.stop();
+              return [];
+            }
+          },
+          results: {}
+        };
+      }
+      
+      default:
+        audioLoggers.audioCapture.warn(`AudioOrchestrator: Unknown step type: ${step.type}`);
+        return {
+          handler: {
+            process: async (item) => [item]
+          },
+          results: {}
+        };
+    }
+  }
+  
+  /**
+   * Create the batch step handler for streaming mode
+   * The batch manager cuts the incoming chunks into the same batches the one-shot batcher would produce
+   * 
+   * @param sampleRate The sample rate of the captured audio
+   * @returns The stage handler and the results it fills in
+   */
+  private createBatchStageHandler(sampleRate: number): StreamingStage<BatchStepResults> {
+    const batchManager = this.createBatchManager();
+    const results: BatchStepResults = { batchCount: 0, cutPoints: [] };
+    
+    batchManager.addEventListener(AudioBatchEventType.BATCH_COMPLETE, (event) => {
+      results.batchCount++;
+      if (event.cut) {
+        results.cutPoints.push(event.cut);
+      }
+    });
+    
+    return {
+      handler: {
+        process: async (item) => batchManager.push(item, sampleRate),
+        flush: async () => batchManager.flush()
+      },
+      results
+    };
+  }
+  
+  /**
+   * Create a batch manager for the configured batch options
+   * 
+   * @returns The batch manager
+   */
+  private createBatchManager(): AudioBatchManager {
+    const batchOptions = this.options.batchOptions || {};
+    
+    return new AudioBatchManager({
+      strategy: batchOptions.strategy || BatchStrategy.FIXED_SIZE,
+      batchSize: batchOptions.batchSize,
+      batchDuration: batchOptions.batchDuration,
+      processIncomplete: batchOptions.processIncomplete,
+      overlap: batchOptions.overlap,
+      minBatchDuration: batchOptions.minBatchDuration,
+      maxBatchDuration: batchOptions.maxBatchDuration,
+      silenceThreshold: batchOptions.silenceThreshold
+    });
+  }
+  
+  /**
+   * Create the save step handler for streaming mode
+   * Saves the audio and, when caption formats are set, the captions once capture stops
+   * 
+   * @param sampleRate The sample rate of the captured audio
+   * @param hasBatchStep Whether the pipeline batches the audio
+   * @returns The stage handler and the results it fills in
+   */
+  private createSaveStageHandler(sampleRate: number, hasBatchStep: boolean): StreamingStage<SaveStepResults> {
+    const results: SaveStepResults = {};
+    const audioHandler = this.createAudioSaveStageHandler(sampleRate, hasBatchStep, results);
+    
+    if (!this.captionRecorder) {
+      return { handler: audioHandler, results };
+    }
+    
+    // Captions are saved once all audio has been through the step
+    return {
+      handler: {
+        process: (item) => audioHandler.process(item),
+        flush: async () => {
+          const outputs = audioHandler.flush ? await audioHandler.flush() : [];
+          results.captionUrls = await this.saveCaptions();
+          return outputs;
+        }
+      },
+      results
+    };
+  }
+  
+  /**
+   * Create the audio part of the save step handler for streaming mode
+   * Each batch is saved as it arrives. Without a batch step, the audio is cut
+   * into files of saveSegmentDuration seconds, so the capture is never held
+   * in memory as a whole.
+   * 
+   * @param sampleRate The sample rate of the captured audio
+   * @param hasBatchStep Whether the pipeline batches the audio
+   * @param results Results the handler fills in
+   * @returns The stage handler
+   */
+  private createAudioSaveStageHandler(
+    sampleRate: number,
+    hasBatchStep: boolean,
+    results: SaveStepResults
+  ): PipelineStageHandler {
+    const saveOptions = this.options.saveOptions;
+    
+    if (!saveOptions || saveOptions.includeAudio === false) {
+      audioLoggers.audioCapture.debug('AudioOrchestrator: Skipping audio save');
+      return {
+        process: async (item) => [item]
+      };
+    }
+    
+    const batchUrls: string[] = [];
+    results.batchUrls = batchUrls;
+    
+    const saveBatch = async (batch: Float32Array): Promise<void> => {
+      const batchNumber = batchUrls.length + 1;
+      const batchFilename = saveOptions.filename
+        ? `${saveOptions.filename}_batch${batchNumber}`
+        : `audio_batch${batchNumber}`;
+      
+      const url = await AudioSaveManager.saveAudio(batch, sampleRate, {
+        ...this.getSaveOptions(),
+        filename: batchFilename
+      });
+      batchUrls.push(url);
+      
+      audioLoggers.audioCapture.info(`AudioOrchestrator: Batch ${batchNumber} saved successfully`, { url });
+    };
+    
+    if (hasBatchStep) {
+      return {
+        process: async (item) => {
+          await saveBatch(item);
+          return [item];
+        }
+      };
+    }
+    
+    // The step's output stays the unsegmented audio; only the saved files are cut
+    const segmentDuration = this.options.saveSegmentDuration || DEFAULT_SAVE_SEGMENT_DURATION;
+    const segmenter = new AudioBatchManager({
+      strategy: BatchStrategy.TIME_BASED,
+      batchDuration: segmentDuration,
+      processIncomplete: true
+    });
+    
+    audioLoggers.audioCapture.info(`AudioOrchestrator: Saving the audio in files of ${segmentDuration}s, no batch step cuts it`);
+    
+    return {
+      process: async (item) => {
+        for (const segment of segmenter.push(item, sampleRate)) {
+          await saveBatch(segment);
+        }
+        return [item];
+      },
+      flush: async () => {
+        for (const segment of segmenter.flush()) {
+          await saveBatch(segment);
+        }
+        return [];
+      }
+    };
+  }
+  
+  /**
+   * Get the save options with the metadata known to the orchestrator
+   * Metadata set with setExportMetadata() takes precedence over saveOptions.metadata
+   * 
+   * @returns The save options, or undefined if there are none
+   */
+  private getSaveOptions(): Partial<AudioExportOptions> | undefined {
+    if (!this.options.saveOptions) {
+      return undefined;
+    }
+    
+    return {
+      ...this.options.saveOptions,
+      metadata: this.getExportMetadata()
+    };
+  }
+  
+  /**
+   * Save the captions recorded during the capture
+   * 
+   * @returns The URLs of the saved caption files
+   */
+  private async saveCaptions(): Promise<string[]> {
+    if (!this.captionRecorder || !this.options.saveOptions) {
+      return [];
+    }
+    
+    const cues = this.captionRecorder.getCues();
+    if (cues.length === 0) {
+      audioLoggers.audioCapture.info('AudioOrchestrator: No captions received, skipping caption export');
+      return [];
+    }
+    
+    return AudioSaveManager.saveCaptions(cues, this.options.saveOptions);
+  }
+  
+  /**
+   * Queue a captured chunk for the first step after capture
+   * 
+   * @param chunk The captured chunk
+   */
+  private pushToStages(chunk: Float32Array): void {
+    const firstStage = this.stages[0].runner;
+    
+    if (!firstStage.offer(chunk)) {
+      this.droppedChunks++;
+      this._emitEvent(OrchestratorEventType.BACKPRESSURE, {
+        step: this.stages[0].step.type,
+        queueLength: firstStage.getQueueLength(),
+        droppedChunks: this.droppedChunks
+      });
+    }
+  }
+  
+  /**
+   * Drain and flush all streaming stages once capture has stopped
+   */
+  private async finishStreamingStages(): Promise<void> {
+    if (this.stages.length === 0) {
+      return;
+    }
+    
+    // Closing the first stage drains and closes the ones after it in order
+    await this.stages[0].runner.close();
+    
+    for (const { step, runner } of this.stages) {
+      this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, {
+        step: step.type,
+        ...this.stageResults.get(step),
+        ...runner.getStats()
+      });
+    }
+    
+    audioLoggers.audioCapture.info('AudioOrchestrator: Streaming pipeline complete', {
+      droppedChunks: this.droppedChunks
+    });
+    
+    this.stages = [];
+    this.stageResults = new Map();
+  }
+  
   /**
    * Process the pipeline steps after capture has completed
    */
@@ -421,13 +1161,7 @@ export class AudioOrchestrator {
             audioLoggers.audioCapture.debug('AudioOrchestrator: Batching audio');
             try {
               // Create a batch manager with the configured options
-              const batchManager = new AudioBatchManager({
-                strategy: this.options.batchOptions.strategy || BatchStrategy.FIXED_SIZE,
-                batchSize: this.options.batchOptions.batchSize,
-                batchDuration: this.options.batchOptions.batchDuration,
-                processIncomplete: this.options.batchOptions.processIncomplete,
-                overlap: this.options.batchOptions.overlap
-              });
+              const batchManager = this.createBatchManager();
               
               // Process the audio into batches
               batches = batchManager.process(processedData, processedSampleRate);
@@ -439,7 +1173,8 @@ export class AudioOrchestrator {
               
               this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, { 
                 step: 'batch',
-                batchCount: batches.length
+                batchCount: batches.length,
+                cutPoints: batchManager.getCutPoints()
               });
             } catch (error) {
               audioLoggers.audioCapture.error('AudioOrchestrator: Error batching audio', error);
@@ -459,18 +1194,20 @@ export class AudioOrchestrator {
             hasBatchedData = true;
           }
           break;
-          
+        
         case 'process':
           // Process the audio - this would use the processing module
           // For now, we'll just pass through the data
           audioLoggers.audioCapture.debug('AudioOrchestrator: Processing step (passthrough)');
           this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, { step: 'process' });
           break;
-          
+        
         case 'save':
           // Save the audio
           if (this.options.saveOptions) {
-            if (hasBatchedData && batches.length > 0) {
+            if (this.options.saveOptions.includeAudio === false) {
+              audioLoggers.audioCapture.debug('AudioOrchestrator: Skipping audio save (includeAudio is false)');
+            } else if (hasBatchedData && batches.length > 0) {
               // Save each batch separately
               audioLoggers.audioCapture.debug(`AudioOrchestrator: Saving ${batches.length} batches`);
               const batchUrls: string[] = [];
@@ -483,7 +1220,7 @@ export class AudioOrchestrator {
                     : `audio_batch${i + 1}`;
                   
                   const batchOptions = {
-                    ...this.options.saveOptions,
+                    ...this.getSaveOptions(),
                     filename: batchFilename
                   };
                   
@@ -512,7 +1249,7 @@ export class AudioOrchestrator {
                 const url = await AudioSaveManager.saveAudio(
                   processedData,
                   processedSampleRate,
-                  this.options.saveOptions
+                  this.getSaveOptions()
                 );
                 
                 audioLoggers.audioCapture.info('AudioOrchestrator: Audio saved successfully', { url });
@@ -528,18 +1265,78 @@ export class AudioOrchestrator {
                 });
               }
             }
+            
+            if (this.captionRecorder) {
+              try {
+                const captionUrls = await this.saveCaptions();
+                this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, { 
+                  step: 'save',
+                  captionUrls
+                });
+              } catch (error) {
+                audioLoggers.audioCapture.error('AudioOrchestrator: Error saving captions', error);
+                this._emitEvent(OrchestratorEventType.ERROR, { 
+                  step: 'save',
+                  error
+                });
+              }
+            }
           } else {
             audioLoggers.audioCapture.debug('AudioOrchestrator: Skipping save step (no options)');
           }
           break;
-          
+        
         case 'stream':
           // Stream the audio
-          // This would be implemented to handle streaming the audio data
-          audioLoggers.audioCapture.debug('AudioOrchestrator: Streaming not implemented yet');
-          this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, { step: 'stream' });
-          break;
+          if (!this.streamManager) {
+            audioLoggers.audioCapture.warn('AudioOrchestrator: Skipping stream step (stream manager not initialized)');
+            break;
+          }
           
+          try {
+            if (this.isLiveStreaming) {
+              // Audio was already sent while capturing; send the final partial frame
+              audioLoggers.audioCapture.debug('AudioOrchestrator: Flushing live stream');
+              this.isLiveStreaming = false;
+              
+              if (this.liveBatcher) {
+                const sampleRate = this.captureManager.getSampleRate();
+                for (const batch of this.liveBatcher.flush()) {
+                  await this.streamLiveBatch(batch, sampleRate);
+                }
+                this.liveBatcher = null;
+              }
+            } else {
+              // Deferred streaming: send the captured audio now
+              const batched = hasBatchedData && batches.length > 0;
+              const frames = batched ? batches : [processedData];
+              audioLoggers.audioCapture.debug(`AudioOrchestrator: Streaming ${frames.length} frames`);
+              
+              // Speech positions count captured samples, which may have been resampled since
+              const overlap = batched && this.options.batchOptions ? this.getBatchOverlapSampleCount(processedSampleRate) : 0;
+              const scale = this.captureManager.getSampleRate() / processedSampleRate;
+              let position = 0;
+              
+              this.streamManager.start(processedSampleRate);
+              for (const frame of frames) {
+                const speech = this.containsSpeech(Math.floor(position * scale), Math.ceil(frame.length * scale));
+                position += frame.length - overlap;
+                await this.streamManager.streamAudio(frame, processedSampleRate, speech);
+              }
+            }
+            
+            await this.streamManager.stop();
+            
+            this._emitEvent(OrchestratorEventType.PIPELINE_STEP_COMPLETE, { step: 'stream' });
+          } catch (error) {
+            audioLoggers.audioCapture.error('AudioOrchestrator: Error streaming audio', error);
+            this._emitEvent(OrchestratorEventType.ERROR, { 
+              step: 'stream',
+              error
+            });
+          }
+          break;
+        
         default:
           audioLoggers.audioCapture.warn(`AudioOrchestrator: Unknown step type: ${step.type}`);
       }
@@ -613,6 +1410,43 @@ export class AudioOrchestrator {
     return this.state;
   }
   
+  /**
+   * Set metadata to embed in exported files, such as the source stream URL
+   * or the target language. Merged with the values set earlier.
+   * 
+   * @param metadata The metadata to set
+   */
+  setExportMetadata(metadata: Partial<AudioExportMetadata>): void {
+    this.exportMetadata = {
+      ...this.exportMetadata,
+      ...metadata
+    };
+    
+    audioLoggers.audioCapture.debug('AudioOrchestrator: Export metadata updated', this.exportMetadata);
+  }
+  
+  /**
+   * Get the metadata embedded in exported files
+   * 
+   * @returns saveOptions.metadata with the capture start time and the metadata set with setExportMetadata()
+   */
+  getExportMetadata(): AudioExportMetadata {
+    return {
+      ...this.options.saveOptions?.metadata,
+      ...(this.captureStartTime !== null ? { captureStartTime: this.captureStartTime } : {}),
+      ...this.exportMetadata
+    };
+  }
+  
+  /**
+   * Get the caption recorder, present when saveOptions.captionFormats is set
+   * 
+   * @returns The caption recorder, or null
+   */
+  getCaptionRecorder(): CaptionRecorder | null {
+    return this.captionRecorder;
+  }
+  
   /**
    * Get the pipeline definition
    * 
@@ -628,11 +1462,33 @@ export class AudioOrchestrator {
   dispose(): void {
     audioLoggers.audioCapture.info('AudioOrchestrator: Disposing resources');
     
+    if (this.fileSource) {
+      this.fileSource.cancel();
+      this.fileSource = null;
+    }
+    
     if (this.captureManager) {
       this.captureManager.dispose();
       this.captureManager = null;
     }
     
+    if (this.streamManager) {
+      this.streamManager.dispose();
+      this.streamManager = null;
+    }
+    
+    if (this.captionRecorder) {
+      this.captionRecorder.dispose();
+      this.captionRecorder = null;
+    }
+    
+    if (this.stages.length > 0) {
+      this.stages[0].runner.abort();
+      this.stages = [];
+    }
+    
+    this.isLiveStreaming = false;
+    this.liveBatcher = null;
     this.state = OrchestratorState.INACTIVE;
     this.eventListeners.clear();
     
@@ -0,0 +1,261 @@
+import { audioLoggers } from '../../../utils/LoggerFactory';
+
+/**
+ * Handler that implements the work of a single pipeline step in streaming mode
+ */
+export interface PipelineStageHandler {
+  /**
+   * Process one item and return the items to pass to the next step
+   * 
+   * @param item Audio data received from the previous step
+   * @returns Audio data for the next step (may be empty while the step accumulates)
+   */
+  process(item: Float32Array): Promise<Float32Array[]>;
+  
+  /**
+   * Emit anything still held by the step once the input has ended
+   * 
+   * @returns Remaining audio data for the next step
+   */
+  flush?(): Promise<Float32Array[]>;
+}
+
+/**
+ * PipelineStageRunner
+ * 
+ * Runs one pipeline step over a bounded queue. Items are processed one at a
+ * time, in order. When the next stage's queue is full, this stage waits before
+ * handing over more output, so a slow step holds back the steps before it.
+ */
+export class PipelineStageRunner {
+  private name: string;
+  private handler: PipelineStageHandler;
+  private maxQueueSize: number;
+  private next: PipelineStageRunner | null;
+  private onError: (error: unknown) => void;
+  
+  // Queue state
+  private queue: Float32Array[] = [];
+  private spaceWaiters: (() => void)[] = [];
+  private idleWaiters: (() => void)[] = [];
+  private isDraining = false;
+  private isClosed = false;
+  
+  // Statistics
+  private itemsProcessed = 0;
+  private itemsEmitted = 0;
+  private itemsDropped = 0;
+  
+  /**
+   * Create a new PipelineStageRunner
+   * 
+   * @param name Name of the pipeline step
+   * @param handler Handler that does the step's work
+   * @param maxQueueSize Maximum number of items waiting in the queue
+   * @param next The stage that receives this stage's output, if any
+   * @param onError Called when the handler throws; the item is skipped
+   */
+  constructor(
+    name: string,
+    handler: PipelineStageHandler,
+    maxQueueSize: number,
+    next: PipelineStageRunner | null,
+    onError: (error: unknown) => void
+  ) {
+    this.name = name;
+    this.handler = handler;
+    this.maxQueueSize = Math.max(1, maxQueueSize);
+    this.next = next;
+    this.onError = onError;
+  }
+  
+  /**
+   * Add an item without waiting. If the queue is full the oldest item is dropped.
+   * Used by the capture step, which cannot be held back.
+   * 
+   * @param item Audio data to queue
+   * @returns False if an item had to be dropped to make room
+   */
+  offer(item: Float32Array): boolean {
+    if (this.isClosed) {
+      return false;
+    }
+    
+    let accepted = true;
+    if (this.queue.length >= this.maxQueueSize) {
+      this.queue.shift();
+      this.itemsDropped++;
+      accepted = false;
+      audioLoggers.audioCapture.warn(`PipelineStageRunner: Queue full for ${this.name}, dropped oldest item`, {
+        queueLength: this.queue.length,
+        itemsDropped: this.itemsDropped
+      });
+    }
+    
+    this.queue.push(item);
+    this._drain();
+    return accepted;
+  }
+  
+  /**
+   * Add an item, waiting until the queue has room
+   * 
+   * @param item Audio data to queue
+   */
+  async enqueue(item: Float32Array): Promise<void> {
+    await this.waitForSpace();
+    
+    if (this.isClosed) {
+      return;
+    }
+    
+    this.queue.push(item);
+    this._drain();
+  }
+  
+  /**
+   * Wait until the queue has room, or the stage is closed
+   * Lets a producer that can be held back use offer() without dropping items.
+   */
+  async waitForSpace(): Promise<void> {
+    while (this.queue.length >= this.maxQueueSize && !this.isClosed) {
+      await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+    }
+  }
+  
+  /**
+   * Signal the end of input: process what is queued, flush the handler
+   * and then close the next stage
+   * 
+   * @returns Promise that resolves when this and all following stages are done
+   */
+  async close(): Promise<void> {
+    await this._waitForIdle();
+    
+    try {
+      const remaining = this.handler.flush ? await this.handler.flush() : [];
+      await this._forward(remaining);
+    } catch (error) {
+      this._handleError(error);
+    }
+    
+    this.isClosed = true;
+    this._releaseWaiters();
+    
+    if (this.next) {
+      await this.next.close();
+    }
+  }
+  
+  /**
+   * Stop the stage without processing what is queued
+   */
+  abort(): void {
+    this.isClosed = true;
+    this.queue = [];
+    this._releaseWaiters();
+    this.next?.abort();
+  }
+  
+  /**
+   * Get the number of items waiting in the queue
+   * 
+   * @returns Queue length
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+  
+  /**
+   * Get the stage statistics
+   * 
+   * @returns Processed, emitted and dropped item counts
+   */
+  getStats(): { itemsProcessed: number, itemsEmitted: number, itemsDropped: number } {
+    return {
+      itemsProcessed: this.itemsProcessed,
+      itemsEmitted: this.itemsEmitted,
+      itemsDropped: this.itemsDropped
+    };
+  }
+  
+  /**
+   * Process queued items until the queue is empty
+   */
+  private async _drain(): Promise<void> {
+    if (this.isDraining) {
+      return;
+    }
+    
+    this.isDraining = true;
+    
+    let item: Float32Array | undefined;
+    while ((item = this.queue.shift()) !== undefined) {
+      this.spaceWaiters.shift()?.();
+      
+      try {
+        const outputs = await this.handler.process(item);
+        this.itemsProcessed++;
+        await this._forward(outputs);
+      } catch (error) {
+        this._handleError(error);
+      }
+    }
+    
+    this.isDraining = false;
+    
+    const idleWaiters = this.idleWaiters;
+    this.idleWaiters = [];
+    idleWaiters.forEach(resolve => resolve());
+  }
+  
+  /**
+   * Pass output to the next stage, waiting for room in its queue
+   * 
+   * @param outputs Audio data produced by this stage
+   */
+  private async _forward(outputs: Float32Array[]): Promise<void> {
+    for (const output of outputs) {
+      this.itemsEmitted++;
+      if (this.next) {
+        await this.next.enqueue(output);
+      }
+    }
+  }
+  
+  /**
+   * Wait until the queue is empty and nothing is being processed
+   */
+  private _waitForIdle(): Promise<void> {
+    if (!this.isDraining && this.queue.length === 0) {
+      return Promise.resolve();
+    }
+    
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+  
+  /**
+   * Wake everything waiting on this stage
+   */
+  private _releaseWaiters(): void {
+    const waiters = [...this.spaceWaiters, ...this.idleWaiters];
+    this.spaceWaiters = [];
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+  
+  /**
+   * Report a handler error
+   * 
+   * @param error The error thrown by the handler
+   */
+  private _handleError(error: unknown): void {
+    audioLoggers.audioCapture.error(`PipelineStageRunner: Error in ${this.name} step`, error);
+    
+    try {
+      this.onError(error);
+    } catch (callbackError) {
+      audioLoggers.audioCapture.error('PipelineStageRunner: Error in error callback', callbackError);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  AudioEncodeOptions,
+  AudioEncoderWorkerRequest,
+  AudioEncoderWorkerResponse,
+  AudioExportFormat
+} from '../../../types/audio-export';
+import { audioLoggers } from '../../../utils/LoggerFactory';
+
+/**
+ * AudioEncoder
+ * 
+ * Encodes audio to MP3, FLAC or Ogg/Opus in a Web Worker so long recordings
+ * don't block the UI.
+ */
+export class AudioEncoder {
+  /**
+   * Check whether worker encoding can run in this environment
+   * 
+   * @returns True if Web Workers and WebAssembly are available
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+  }
+
+  /**
+   * Encode audio to a compressed format
+   * 
+   * @param format The format to encode to (MP3, FLAC or OGG_OPUS)
+   * @param audioData Mono audio samples
+   * @param sampleRate The sample rate of the audio data
+   * @param options Encoding options and metadata
+   * @param onProgress Called with the encoded fraction (0 to 1)
+   * @returns A Promise that resolves with the file data
+   */
+  static encode(
+    format: AudioExportFormat,
+    audioData: Float32Array,
+    sampleRate: number,
+    options: AudioEncodeOptions = {},
+    onProgress?: (progress: number) => void
+  ): Promise<Uint8Array> {
+    const label = format.toUpperCase();
+
+    if (!AudioEncoder.isSupported()) {
+      return Promise.reject(new Error(`${label} encoding requires Web Worker and WebAssembly support`));
+    }
+
+    audioLoggers.audioCapture.debug('AudioEncoder: Starting encoder worker', {
+      format,
+      sampleCount: audioData.length,
+      sampleRate,
+      options
+    });
+
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const worker = new Worker(new URL('./audio-encoder.worker.ts', import.meta.url), { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<AudioEncoderWorkerResponse>) => {
+        const response = event.data;
+
+        switch (response.type) {
+          case 'progress':
+            onProgress?.(response.progress);
+            break;
+
+          case 'encoded':
+            worker.terminate();
+            audioLoggers.audioCapture.debug('AudioEncoder: Encoding complete', { format, size: response.data.length });
+            resolve(response.data);
+            break;
+
+          case 'error':
+            worker.terminate();
+            reject(new Error(`${label} encoder: ${response.message}`));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(`${label} encoder worker error: ${event.message}`));
+      };
+
+      // Send a copy, since the caller may still be using the samples
+      const samples = audioData.slice();
+      const request: AudioEncoderWorkerRequest = { format, samples, sampleRate, options };
+      worker.postMessage(request, [samples.buffer]);
+    });
+  }
+}
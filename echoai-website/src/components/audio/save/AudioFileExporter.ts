@@ -1,5 +1,13 @@
 import { AudioExportFormat, AudioExportOptions } from '../../../types/audio-export';
 import { audioLoggers } from '../../../utils/LoggerFactory';
+import { AudioEncoder } from './AudioEncoder';
+
+// MIME types of the formats encoded in a worker
+const ENCODED_MIME_TYPES: Partial<Record<AudioExportFormat, string>> = {
+  [AudioExportFormat.MP3]: 'audio/mpeg',
+  [AudioExportFormat.FLAC]: 'audio/flac',
+  [AudioExportFormat.OGG_OPUS]: 'audio/ogg; codecs=opus'
+};
 
 /**
  * AudioFileExporter
@@ -13,12 +21,14 @@ export class AudioFileExporter {
    * @param audioData The audio data to export
    * @param sampleRate The sample rate of the audio data
    * @param options Export options
+   * @param onProgress Called with the encoded fraction (0 to 1) for formats encoded in a worker
    * @returns A Promise that resolves with the exported blob URL
    */
   static async exportAudio(
     audioData: Float32Array,
     sampleRate: number,
-    options: AudioExportOptions
+    options: AudioExportOptions,
+    onProgress?: (progress: number) => void
   ): Promise<string> {
     audioLoggers.audioCapture.info('AudioFileExporter: Starting audio export', {
       sampleCount: audioData.length,
@@ -36,8 +46,11 @@ export class AudioFileExporter {
         blob = AudioFileExporter.createWavBlob(audioData, sampleRate, options.normalize);
         break;
       case AudioExportFormat.MP3:
-        audioLoggers.audioCapture.error('AudioFileExporter: MP3 export not implemented');
-        throw new Error('MP3 export not implemented');
+      case AudioExportFormat.FLAC:
+      case AudioExportFormat.OGG_OPUS:
+        audioLoggers.audioCapture.debug(`AudioFileExporter: Creating ${options.format.toUpperCase()} blob`);
+        blob = await AudioFileExporter.createEncodedBlob(audioData, sampleRate, options, onProgress);
+        break;
       default:
         audioLoggers.audioCapture.error(`AudioFileExporter: Unsupported export format: ${options.format}`);
         throw new Error(`Unsupported export format: ${options.format}`);
@@ -138,6 +151,40 @@ export class AudioFileExporter {
     return new Blob([buffer], { type: 'audio/wav' });
   }
   
+  /**
+   * Create an MP3, FLAC or Ogg/Opus blob from audio data.
+   * FLAC and Ogg/Opus files carry options.metadata as Vorbis comments.
+   * 
+   * @param audioData The audio data to export
+   * @param sampleRate The sample rate of the audio data
+   * @param options Export options
+   * @param onProgress Called with the encoded fraction (0 to 1)
+   * @returns A Promise that resolves with a Blob containing the file
+   */
+  private static async createEncodedBlob(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: AudioExportOptions,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    if (options.normalize) {
+      audioLoggers.audioCapture.debug('AudioFileExporter: Normalizing audio data');
+      audioData = AudioFileExporter.normalizeAudio(audioData);
+    }
+    
+    const data = await AudioEncoder.encode(options.format, audioData, sampleRate, {
+      mp3: options.mp3,
+      opus: options.opus,
+      metadata: options.metadata
+    }, onProgress);
+    
+    audioLoggers.audioCapture.debug(`AudioFileExporter: ${options.format.toUpperCase()} data created successfully`, {
+      size: data.length
+    });
+    
+    return new Blob([data], { type: ENCODED_MIME_TYPES[options.format] });
+  }
+  
   /**
    * Normalize audio to peak at ±1.0
    * 
@@ -190,7 +237,7 @@ export class AudioFileExporter {
    * @param filename The filename to use for the download
    * @returns A Promise that resolves when the download is triggered
    */
-  private static async triggerDownload(url: string, filename: string): Promise<void> {
+  static async triggerDownload(url: string, filename: string): Promise<void> {
     audioLoggers.audioCapture.debug(`AudioFileExporter: Triggering download for ${filename}`);
     
     // Create a link element
@@ -1,6 +1,8 @@
 import { audioLoggers } from '../../../utils/LoggerFactory';
 import { AudioExportFormat, AudioExportOptions, AudioExportEventType } from '../../../types/audio-export';
+import { CaptionCue } from '../../../types/captions';
 import { AudioFileExporter } from './AudioFileExporter';
+import { CaptionFileExporter } from '../captions/CaptionFileExporter';
 
 /**
  * Manages audio save operations
@@ -26,7 +28,10 @@ export class AudioSaveManager {
       format: options.format || AudioExportFormat.WAV,
       autoDownload: options.autoDownload !== false,
       filename: options.filename,
-      normalize: options.normalize || false
+      normalize: options.normalize || false,
+      mp3: options.mp3,
+      opus: options.opus,
+      metadata: options.metadata
     };
     
     audioLoggers.audioCapture.info('AudioSaveManager: Saving audio', {
@@ -44,7 +49,12 @@ export class AudioSaveManager {
     
     let url: string;
     try {
-      url = await AudioFileExporter.exportAudio(audioData, sampleRate, fullOptions);
+      url = await AudioFileExporter.exportAudio(audioData, sampleRate, fullOptions, (progress) => {
+        AudioSaveManager._emitEvent(AudioExportEventType.EXPORT_PROGRESS, {
+          format: fullOptions.format,
+          progress
+        });
+      });
       
       // Emit completion event
       AudioSaveManager._emitEvent(AudioExportEventType.EXPORT_COMPLETE, {
@@ -65,6 +75,54 @@ export class AudioSaveManager {
     }
   }
   
+  /**
+   * Save caption cues in each of the requested caption formats
+   * 
+   * @param cues Caption cues, timed relative to the capture start
+   * @param options Export options; captionFormats selects the files to write
+   * @returns Promise resolving to the URLs of the saved files
+   */
+  static async saveCaptions(
+    cues: CaptionCue[],
+    options: Partial<AudioExportOptions> = {}
+  ): Promise<string[]> {
+    const formats = options.captionFormats || [];
+    const autoDownload = options.autoDownload !== false;
+    
+    audioLoggers.audioCapture.info('AudioSaveManager: Saving captions', {
+      cueCount: cues.length,
+      formats
+    });
+    
+    const urls: string[] = [];
+    for (const format of formats) {
+      AudioSaveManager._emitEvent(AudioExportEventType.EXPORT_START, {
+        format,
+        cueCount: cues.length
+      });
+      
+      try {
+        const url = await CaptionFileExporter.exportCaptions(cues, format, {
+          autoDownload,
+          filename: options.filename
+        });
+        urls.push(url);
+        
+        AudioSaveManager._emitEvent(AudioExportEventType.EXPORT_COMPLETE, {
+          url,
+          format,
+          filename: options.filename
+        });
+      } catch (error) {
+        audioLoggers.audioCapture.error(`AudioSaveManager: Error saving ${format} captions`, error);
+        AudioSaveManager._emitEvent(AudioExportEventType.EXPORT_ERROR, { error });
+        throw error;
+      }
+    }
+    
+    return urls;
+  }
+  
   /**
    * Add an event listener
    * 
@@ -0,0 +1,64 @@
+/**
+ * Audio Encoder Worker
+ *
+ * Encodes a complete Float32 recording to MP3, FLAC or Ogg/Opus off the main
+ * thread and reports progress while encoding. Each worker handles a single request.
+ */
+
+import {
+  AudioEncoderWorkerRequest,
+  AudioEncoderWorkerResponse,
+  AudioExportFormat
+} from '../../../types/audio-export';
+import { encodeFlac } from './encoders/flac';
+import { encodeMp3 } from './encoders/mp3';
+import { encodeOggOpus } from './encoders/ogg-opus';
+import { createMetadataTags } from './encoders/vorbis-comment';
+
+const scope = self as unknown as Worker;
+
+/**
+ * Post a response to the main thread
+ * @param response The response
+ * @param transfer Buffers to transfer instead of copy
+ */
+function respond(response: AudioEncoderWorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(response, transfer);
+}
+
+/**
+ * Report the encoded fraction
+ * @param progress Fraction from 0 to 1
+ */
+function reportProgress(progress: number): void {
+  respond({ type: 'progress', progress });
+}
+
+scope.onmessage = async (event: MessageEvent<AudioEncoderWorkerRequest>) => {
+  const { format, samples, sampleRate, options } = event.data;
+
+  try {
+    let data: Uint8Array;
+
+    switch (format) {
+      case AudioExportFormat.MP3:
+        data = await encodeMp3(samples, sampleRate, options.mp3, reportProgress);
+        break;
+      case AudioExportFormat.FLAC:
+        data = encodeFlac(samples, sampleRate, createMetadataTags(sampleRate, options.metadata), reportProgress);
+        break;
+      case AudioExportFormat.OGG_OPUS:
+        data = encodeOggOpus(samples, sampleRate, createMetadataTags(sampleRate, options.metadata), options.opus, reportProgress);
+        break;
+      default:
+        throw new Error(`Format not encoded in a worker: ${format}`);
+    }
+
+    respond({ type: 'encoded', data }, [data.buffer]);
+  } catch (error) {
+    respond({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
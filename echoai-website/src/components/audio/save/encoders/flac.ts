@@ -0,0 +1,484 @@
+/**
+ * FLAC encoder
+ *
+ * Writes mono 16-bit FLAC with fixed-size blocks. Each block is stored as a
+ * constant, fixed-predictor (orders 0 to 4, Rice-coded residual) or verbatim
+ * subframe, whichever is smallest. Tags go in a VORBIS_COMMENT block.
+ */
+
+import { concatBytes, floatToInt16 } from './utils';
+import { createVorbisComment } from './vorbis-comment';
+
+// Samples per frame (the last frame may be shorter)
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+
+// Rice parameters use 4 bits; 15 is reserved as an escape code
+const MAX_RICE_PARAMETER = 14;
+
+// Frames encoded between progress reports
+const PROGRESS_INTERVAL = 64;
+
+// Metadata block types
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+
+// Sample rates with their own frame header code; others are read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11
+};
+
+const CRC8_TABLE = createCrcTable(0x07, 8);
+const CRC16_TABLE = createCrcTable(0x8005, 16);
+
+/**
+ * Build a lookup table for an MSB-first CRC
+ * @param polynomial Generator polynomial without the top bit
+ * @param width CRC width in bits
+ * @returns CRC of every byte value
+ */
+function createCrcTable(polynomial: number, width: number): Uint16Array {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    }
+    table[byte] = crc;
+  }
+
+  return table;
+}
+
+/**
+ * Compute the frame header CRC-8
+ * @param data Bytes to check
+ * @returns The CRC
+ */
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC8_TABLE[crc ^ data[i]];
+  }
+  return crc;
+}
+
+/**
+ * Compute the frame footer CRC-16
+ * @param data Bytes to check
+ * @returns The CRC
+ */
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >>> 8) ^ data[i]];
+  }
+  return crc;
+}
+
+/**
+ * Writes values MSB-first into a growing byte buffer
+ */
+class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(16, capacity));
+  }
+
+  /**
+   * Write the low bits of an unsigned value
+   * @param value The value
+   * @param count Number of bits (0 to 32)
+   */
+  writeBits(value: number, count: number): void {
+    while (count > 0) {
+      const n = Math.min(count, 8 - this.bitCount);
+      const bits = (value >>> (count - n)) & ((1 << n) - 1);
+      this.current = (this.current << n) | bits;
+      this.bitCount += n;
+      count -= n;
+
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  /**
+   * Write a value as a run of zero bits ended by a one bit
+   * @param value The value
+   */
+  writeUnary(value: number): void {
+    while (value > 24) {
+      this.writeBits(0, 24);
+      value -= 24;
+    }
+    this.writeBits(1, value + 1);
+  }
+
+  /**
+   * Pad with zero bits to the next byte boundary
+   */
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount);
+    }
+  }
+
+  /**
+   * Get the bytes written so far (complete bytes only)
+   * @returns A view of the written bytes
+   */
+  getBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * Compute the fixed-predictor residual of a block
+ * @param samples The block's samples
+ * @param order Predictor order (0 to 4)
+ * @returns The residual for samples after the warm-up samples
+ */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  const x = samples;
+
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = x[i - 1]; break;
+      case 2: prediction = 2 * x[i - 1] - x[i - 2]; break;
+      case 3: prediction = 3 * x[i - 1] - 3 * x[i - 2] + x[i - 3]; break;
+      case 4: prediction = 4 * x[i - 1] - 6 * x[i - 2] + 4 * x[i - 3] - x[i - 4]; break;
+    }
+    residual[i - order] = x[i] - prediction;
+  }
+
+  return residual;
+}
+
+/**
+ * Map signed residuals to unsigned values (0, -1, 1, -2, ... to 0, 1, 2, 3, ...)
+ * @param residual Signed residual
+ * @returns Unsigned residual
+ */
+function zigzag(residual: Int32Array): Uint32Array {
+  const output = new Uint32Array(residual.length);
+  for (let i = 0; i < residual.length; i++) {
+    const value = residual[i];
+    output[i] = value >= 0 ? value * 2 : -value * 2 - 1;
+  }
+  return output;
+}
+
+/**
+ * A Rice coding plan for a residual
+ */
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Find the best Rice parameter for one partition
+ * @param values Unsigned residual values in the partition
+ * @returns The parameter and the bits it takes to code the partition
+ */
+function bestRiceParameter(values: Uint32Array): { parameter: number; bits: number } {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+
+  const mean = values.length > 0 ? sum / values.length : 0;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+
+  let best = { parameter: 0, bits: Infinity };
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+    let bits = values.length * (k + 1);
+    for (let i = 0; i < values.length; i++) {
+      bits += values[i] >>> k;
+    }
+    if (bits < best.bits) {
+      best = { parameter: k, bits };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Choose the partition order and Rice parameters for a residual
+ * @param values Unsigned residual (after the warm-up samples)
+ * @param blockSize Samples in the block
+ * @param order Predictor order
+ * @returns The cheapest plan
+ */
+function planRice(values: Uint32Array, blockSize: number, order: number): RicePlan {
+  let best: RicePlan = { partitionOrder: 0, parameters: [], bits: Infinity };
+
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitionSize = blockSize >> partitionOrder;
+    if (blockSize % (1 << partitionOrder) !== 0 || partitionSize <= order) {
+      break;
+    }
+
+    const parameters: number[] = [];
+    let bits = 0;
+    let start = 0;
+
+    for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+      const count = partition === 0 ? partitionSize - order : partitionSize;
+      const { parameter, bits: partitionBits } = bestRiceParameter(values.subarray(start, start + count));
+      parameters.push(parameter);
+      bits += 4 + partitionBits;
+      start += count;
+    }
+
+    if (bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Write one subframe holding a block's samples
+ * @param writer Frame writer
+ * @param samples The block's samples
+ */
+function writeSubframe(writer: BitWriter, samples: Int32Array): void {
+  const blockSize = samples.length;
+
+  // Silence and other constant blocks need a single sample
+  if (samples.every(sample => sample === samples[0])) {
+    writer.writeBits(0b00000000, 8);
+    writer.writeBits(samples[0] & 0xFFFF, BITS_PER_SAMPLE);
+    return;
+  }
+
+  // Pick the predictor order with the smallest residual
+  let bestOrder = -1;
+  let bestValues: Uint32Array | null = null;
+  let bestSum = Infinity;
+
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+    const values = zigzag(fixedResidual(samples, order));
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[i];
+    }
+    if (sum < bestSum) {
+      bestOrder = order;
+      bestValues = values;
+      bestSum = sum;
+    }
+  }
+
+  const values = bestValues;
+  const plan = values ? planRice(values, blockSize, bestOrder) : null;
+  const fixedBits = plan ? 8 + bestOrder * BITS_PER_SAMPLE + 6 + plan.bits : Infinity;
+
+  if (!plan || !values || fixedBits >= 8 + blockSize * BITS_PER_SAMPLE) {
+    writer.writeBits(0b00000010, 8);
+    for (let i = 0; i < blockSize; i++) {
+      writer.writeBits(samples[i] & 0xFFFF, BITS_PER_SAMPLE);
+    }
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8);
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeBits(samples[i] & 0xFFFF, BITS_PER_SAMPLE);
+  }
+
+  // Rice coding with 4-bit parameters
+  writer.writeBits(0, 2);
+  writer.writeBits(plan.partitionOrder, 4);
+
+  const partitionSize = blockSize >> plan.partitionOrder;
+  let start = 0;
+
+  plan.parameters.forEach((parameter, partition) => {
+    const count = partition === 0 ? partitionSize - bestOrder : partitionSize;
+    writer.writeBits(parameter, 4);
+
+    for (let i = start; i < start + count; i++) {
+      const value = values[i];
+      writer.writeUnary(value >>> parameter);
+      writer.writeBits(value & ((1 << parameter) - 1), parameter);
+    }
+
+    start += count;
+  });
+}
+
+/**
+ * Write a frame number in the UTF-8-like coding used by frame headers
+ * @param writer Frame writer
+ * @param value The frame number
+ */
+function writeFrameNumber(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+
+  const extraBytes = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+  const prefix = (0xFF << (7 - extraBytes)) & 0xFF;
+
+  writer.writeBits(prefix | (value >>> (6 * extraBytes)), 8);
+  for (let i = extraBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | ((value >>> (6 * i)) & 0x3F), 8);
+  }
+}
+
+/**
+ * Encode one frame
+ * @param samples The block's samples
+ * @param frameNumber Index of the frame
+ * @param sampleRate Stream sample rate
+ * @returns The frame bytes
+ */
+function encodeFrame(samples: Int32Array, frameNumber: number, sampleRate: number): Uint8Array {
+  const writer = new BitWriter(samples.length * 2 + 32);
+  const blockSizeCode = samples.length === BLOCK_SIZE ? 0b1100 : 0b0111;
+
+  // Sync code, reserved bit and fixed-blocksize strategy
+  writer.writeBits(0b11111111111110, 14);
+  writer.writeBits(0, 2);
+  writer.writeBits(blockSizeCode, 4);
+  writer.writeBits(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+
+  // Mono, 16 bits per sample, reserved bit
+  writer.writeBits(0b0000, 4);
+  writer.writeBits(0b100, 3);
+  writer.writeBits(0, 1);
+
+  writeFrameNumber(writer, frameNumber);
+  if (blockSizeCode === 0b0111) {
+    writer.writeBits(samples.length - 1, 16);
+  }
+  writer.writeBits(crc8(writer.getBytes()), 8);
+
+  writeSubframe(writer, samples);
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.getBytes()), 16);
+
+  return writer.getBytes().slice();
+}
+
+/**
+ * Encode a metadata block header
+ * @param type Block type
+ * @param length Block length in bytes
+ * @param isLast Whether this is the last metadata block
+ * @returns The header bytes
+ */
+function createMetadataHeader(type: number, length: number, isLast: boolean): Uint8Array {
+  return new Uint8Array([
+    (isLast ? 0x80 : 0) | type,
+    (length >>> 16) & 0xFF,
+    (length >>> 8) & 0xFF,
+    length & 0xFF
+  ]);
+}
+
+/**
+ * Encode the STREAMINFO block body
+ * @param sampleRate Stream sample rate
+ * @param totalSamples Samples in the stream
+ * @param frames The encoded frames
+ * @returns The block body
+ */
+function createStreamInfo(sampleRate: number, totalSamples: number, frames: Uint8Array[]): Uint8Array {
+  const writer = new BitWriter(34);
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  const frameSizes = frames.map(frame => frame.length);
+
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(blockSize, 16);
+  writer.writeBits(frameSizes.length > 0 ? Math.min(...frameSizes) : 0, 24);
+  writer.writeBits(frameSizes.length > 0 ? Math.max(...frameSizes) : 0, 24);
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3);
+  writer.writeBits(BITS_PER_SAMPLE - 1, 5);
+  writer.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.writeBits(totalSamples >>> 0, 32);
+
+  // An all-zero MD5 signature means "not computed"
+  for (let i = 0; i < 4; i++) {
+    writer.writeBits(0, 32);
+  }
+
+  return writer.getBytes().slice();
+}
+
+/**
+ * Encode audio to a FLAC file
+ * @param audioData Mono float samples
+ * @param sampleRate Sample rate of the audio
+ * @param tags Vorbis comment tags
+ * @param onProgress Called with the encoded fraction (0 to 1)
+ * @returns The FLAC file data
+ */
+export function encodeFlac(
+  audioData: Float32Array,
+  sampleRate: number,
+  tags: [string, string][],
+  onProgress?: (progress: number) => void
+): Uint8Array {
+  const samples = Int32Array.from(floatToInt16(audioData));
+  const frames: Uint8Array[] = [];
+
+  for (let offset = 0, frameNumber = 0; offset < samples.length; offset += BLOCK_SIZE, frameNumber++) {
+    frames.push(encodeFrame(samples.subarray(offset, offset + BLOCK_SIZE), frameNumber, sampleRate));
+
+    if (frameNumber % PROGRESS_INTERVAL === PROGRESS_INTERVAL - 1) {
+      onProgress?.(Math.min(1, (offset + BLOCK_SIZE) / samples.length));
+    }
+  }
+  onProgress?.(1);
+
+  const streamInfo = createStreamInfo(sampleRate, samples.length, frames);
+  const comment = createVorbisComment(tags);
+
+  return concatBytes([
+    new TextEncoder().encode('fLaC'),
+    createMetadataHeader(METADATA_STREAMINFO, streamInfo.length, false),
+    streamInfo,
+    createMetadataHeader(METADATA_VORBIS_COMMENT, comment.length, true),
+    comment,
+    ...frames
+  ]);
+}
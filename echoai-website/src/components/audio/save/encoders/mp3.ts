@@ -0,0 +1,77 @@
+/**
+ * MP3 encoder
+ *
+ * Encodes mono audio with LAME (wasm-media-encoders) at a constant or
+ * variable bitrate.
+ */
+
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { Mp3BitrateMode, Mp3ExportOptions } from '../../../../types/audio-export';
+import { concatBytes } from './utils';
+
+// Bitrates (kbps) and output sample rates supported by MP3
+const MP3_BITRATES = [8, 16, 24, 32, 40, 48, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320] as const;
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000] as const;
+
+// Samples encoded per step; a multiple of the 1152-sample MP3 frame
+const ENCODE_BLOCK_SIZE = 1152 * 64;
+
+/**
+ * Find the closest value in a list of supported values
+ * @param values Supported values
+ * @param target Requested value
+ * @returns The supported value closest to the target
+ */
+function closest<T extends number>(values: readonly T[], target: number): T {
+  return values.reduce((best, value) =>
+    Math.abs(value - target) < Math.abs(best - target) ? value : best
+  );
+}
+
+/**
+ * Encode audio to an MP3 file
+ * @param samples Mono float samples
+ * @param sampleRate Sample rate of the audio
+ * @param options MP3 encoding options
+ * @param onProgress Called with the encoded fraction (0 to 1)
+ * @returns A Promise that resolves with the MP3 file data
+ */
+export async function encodeMp3(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Mp3ExportOptions = {},
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> {
+  const encoder = await createMp3Encoder();
+  const outputSampleRate = closest(MP3_SAMPLE_RATES, Math.min(sampleRate, 48000));
+
+  if (options.bitrateMode === Mp3BitrateMode.VBR) {
+    encoder.configure({
+      channels: 1,
+      sampleRate,
+      outputSampleRate,
+      vbrQuality: Math.min(9, Math.max(0, options.vbrQuality ?? 4))
+    });
+  } else {
+    encoder.configure({
+      channels: 1,
+      sampleRate,
+      outputSampleRate,
+      bitrate: closest(MP3_BITRATES, options.bitrate ?? 128)
+    });
+  }
+
+  // The encoder reuses its output buffer, so each block is copied out
+  const parts: Uint8Array[] = [];
+
+  for (let offset = 0; offset < samples.length; offset += ENCODE_BLOCK_SIZE) {
+    const block = samples.subarray(offset, offset + ENCODE_BLOCK_SIZE);
+    parts.push(encoder.encode([block]).slice());
+
+    onProgress?.(Math.min(1, (offset + block.length) / samples.length));
+  }
+
+  parts.push(encoder.finalize().slice());
+
+  return concatBytes(parts);
+}
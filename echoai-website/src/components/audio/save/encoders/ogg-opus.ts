@@ -0,0 +1,262 @@
+/**
+ * Ogg/Opus encoder
+ *
+ * Encodes mono audio with libopus and wraps the packets in an Ogg stream
+ * (RFC 7845): an OpusHead page, an OpusTags page holding the tags, then
+ * audio pages of up to one second each.
+ */
+
+import { Encoder } from '@evan/wasm/target/opus/deno.js';
+import { OpusExportOptions } from '../../../../types/audio-export';
+import { getOpusSampleRate } from '../../../../services/websocket/audio/AudioUtils';
+import { concatBytes, floatToInt16 } from './utils';
+import { createVorbisComment } from './vorbis-comment';
+
+// Granule positions are always counted at 48 kHz
+const GRANULE_RATE = 48000;
+
+const FRAME_DURATION_MS = 20;
+
+// Encoder delay, in 48 kHz samples, that players skip at the start
+const PRE_SKIP = 312;
+
+// Bitrate range supported by libopus, in kbps
+const DEFAULT_BITRATE_KBPS = 32;
+const MIN_BITRATE_KBPS = 6;
+const MAX_BITRATE_KBPS = 510;
+
+// Audio packets per page (one second of 20 ms frames)
+const PACKETS_PER_PAGE = 50;
+
+// An Ogg page has at most 255 lacing values
+const MAX_PAGE_SEGMENTS = 255;
+
+// Ogg page header flags
+const PAGE_BOS = 0x02;
+const PAGE_EOS = 0x04;
+
+const CRC32_TABLE = createCrc32Table();
+
+/**
+ * Build the lookup table for the Ogg CRC-32 (polynomial 0x04C11DB7, MSB-first)
+ * @returns CRC of every byte value
+ */
+function createCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+    table[byte] = crc >>> 0;
+  }
+
+  return table;
+}
+
+/**
+ * Compute the Ogg page checksum
+ * @param data The page, with its checksum field zeroed
+ * @returns The CRC
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Count the lacing values a packet takes up in a page
+ * @param packet The packet
+ * @returns The number of segments
+ */
+function countSegments(packet: Uint8Array): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+/**
+ * Writes packets into Ogg pages for a single logical stream
+ */
+class OggPageWriter {
+  private serialNumber = Math.floor(Math.random() * 0xFFFFFFFF);
+  private sequenceNumber = 0;
+  private pages: Uint8Array[] = [];
+
+  /**
+   * Write one page holding complete packets
+   * @param packets The packets, with at most 255 segments in total
+   * @param granulePosition Granule position after the last packet
+   * @param flags Page header flags
+   */
+  writePage(packets: Uint8Array[], granulePosition: number, flags = 0): void {
+    const segments: number[] = [];
+    for (const packet of packets) {
+      // A packet ends with a lacing value under 255, even if that value is 0
+      for (let remaining = packet.length; ; remaining -= 255) {
+        segments.push(Math.min(255, remaining));
+        if (remaining < 255) {
+          break;
+        }
+      }
+    }
+
+    const body = concatBytes(packets);
+    const page = new Uint8Array(27 + segments.length + body.length);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4F, 0x67, 0x67, 0x53]); // 'OggS'
+    page[4] = 0; // version
+    page[5] = flags;
+    view.setUint32(6, granulePosition % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granulePosition / 2 ** 32), true);
+    view.setUint32(14, this.serialNumber, true);
+    view.setUint32(18, this.sequenceNumber++, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+    page.set(body, 27 + segments.length);
+
+    view.setUint32(22, crc32(page), true);
+    this.pages.push(page);
+  }
+
+  /**
+   * Get the complete stream
+   * @returns All pages written so far
+   */
+  getBytes(): Uint8Array {
+    return concatBytes(this.pages);
+  }
+}
+
+/**
+ * Resample audio with linear interpolation
+ * @param samples Samples at the input rate
+ * @param inputRate Input sample rate
+ * @param outputRate Output sample rate
+ * @returns Samples at the output rate
+ */
+function resample(samples: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate || samples.length === 0) {
+    return samples;
+  }
+
+  const step = inputRate / outputRate;
+  const output = new Float32Array(Math.floor((samples.length - 1) / step) + 1);
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const a = samples[index];
+    const b = samples[Math.min(index + 1, samples.length - 1)];
+    output[i] = a + (b - a) * (position - index);
+  }
+
+  return output;
+}
+
+/**
+ * Create the OpusHead identification header
+ * @param inputSampleRate Sample rate of the original audio
+ * @returns The header packet
+ */
+function createOpusHead(inputSampleRate: number): Uint8Array {
+  const packet = new Uint8Array(19);
+  const view = new DataView(packet.buffer);
+
+  packet.set(new TextEncoder().encode('OpusHead'));
+  packet[8] = 1; // version
+  packet[9] = 1; // channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  packet[18] = 0; // channel mapping family (mono/stereo)
+
+  return packet;
+}
+
+/**
+ * Create the OpusTags comment header
+ * @param tags Vorbis comment tags
+ * @returns The header packet
+ */
+function createOpusTags(tags: [string, string][]): Uint8Array {
+  return concatBytes([new TextEncoder().encode('OpusTags'), createVorbisComment(tags)]);
+}
+
+/**
+ * Encode audio to an Ogg/Opus file
+ * @param audioData Mono float samples
+ * @param sampleRate Sample rate of the audio
+ * @param tags Vorbis comment tags
+ * @param options Opus encoding options
+ * @param onProgress Called with the encoded fraction (0 to 1)
+ * @returns The Ogg/Opus file data
+ */
+export function encodeOggOpus(
+  audioData: Float32Array,
+  sampleRate: number,
+  tags: [string, string][],
+  options: OpusExportOptions = {},
+  onProgress?: (progress: number) => void
+): Uint8Array {
+  const opusSampleRate = getOpusSampleRate(sampleRate);
+  const frameSize = opusSampleRate * FRAME_DURATION_MS / 1000;
+  const granulesPerFrame = GRANULE_RATE * FRAME_DURATION_MS / 1000;
+
+  const samples = floatToInt16(resample(audioData, sampleRate, opusSampleRate));
+
+  // Pad with silence so the decoded stream covers the pre-skip and the last partial frame
+  const preSkipSamples = Math.ceil(PRE_SKIP * opusSampleRate / GRANULE_RATE);
+  const frameCount = Math.ceil((samples.length + preSkipSamples) / frameSize);
+  const padded = new Int16Array(frameCount * frameSize);
+  padded.set(samples);
+
+  // The last granule position trims the padding back off
+  const endGranule = PRE_SKIP + Math.round(audioData.length * GRANULE_RATE / sampleRate);
+
+  const encoder = new Encoder({ channels: 1, sample_rate: opusSampleRate, application: 'audio' });
+  const bitrate = Math.min(MAX_BITRATE_KBPS, Math.max(MIN_BITRATE_KBPS, options.bitrate ?? DEFAULT_BITRATE_KBPS));
+  encoder.bitrate = Math.round(bitrate * 1000);
+
+  const writer = new OggPageWriter();
+
+  try {
+    writer.writePage([createOpusHead(sampleRate)], 0, PAGE_BOS);
+    writer.writePage([createOpusTags(tags)], 0);
+
+    let packets: Uint8Array[] = [];
+    let segmentCount = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const pcm = padded.subarray(frame * frameSize, (frame + 1) * frameSize);
+      const packet = encoder.encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength));
+
+      // Start a new page if this packet would not fit
+      if (segmentCount + countSegments(packet) > MAX_PAGE_SEGMENTS) {
+        writer.writePage(packets, frame * granulesPerFrame);
+        packets = [];
+        segmentCount = 0;
+      }
+
+      packets.push(packet);
+      segmentCount += countSegments(packet);
+
+      const isLast = frame === frameCount - 1;
+      if (packets.length === PACKETS_PER_PAGE || isLast) {
+        const granule = isLast ? endGranule : (frame + 1) * granulesPerFrame;
+        writer.writePage(packets, granule, isLast ? PAGE_EOS : 0);
+        packets = [];
+        segmentCount = 0;
+
+        onProgress?.((frame + 1) / frameCount);
+      }
+    }
+  } finally {
+    encoder.drop();
+  }
+
+  return writer.getBytes();
+}
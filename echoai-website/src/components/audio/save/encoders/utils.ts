@@ -0,0 +1,35 @@
+/**
+ * Helpers shared by the file encoders
+ */
+
+/**
+ * Convert float samples to 16-bit integers, clipping to ±1.0
+ * @param samples Float samples
+ * @returns 16-bit samples
+ */
+export function floatToInt16(samples: Float32Array): Int16Array {
+  const output = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    output[i] = sample < 0 ? Math.max(-1, sample) * 0x8000 : Math.min(1, sample) * 0x7FFF;
+  }
+  return output;
+}
+
+/**
+ * Join byte arrays into one
+ * @param parts The arrays to join, in order
+ * @returns A new array holding all parts
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const data = new Uint8Array(totalLength);
+
+  let position = 0;
+  for (const part of parts) {
+    data.set(part, position);
+    position += part.length;
+  }
+
+  return data;
+}
@@ -0,0 +1,68 @@
+/**
+ * Vorbis comments, the tag format used by both FLAC and Ogg/Opus
+ */
+
+import { AudioExportMetadata } from '../../../../types/audio-export';
+
+// Vendor string written before the tags
+const VENDOR = 'echoAI';
+
+/**
+ * Build the tags for an export from its metadata
+ * @param sampleRate Sample rate of the captured audio
+ * @param metadata Metadata provided by the caller
+ * @returns Tag name and value pairs
+ */
+export function createMetadataTags(sampleRate: number, metadata: AudioExportMetadata = {}): [string, string][] {
+  const tags: [string, string][] = [];
+
+  if (metadata.sourceUrl) {
+    tags.push(['SOURCE_URL', metadata.sourceUrl]);
+  }
+
+  if (metadata.captureStartTime !== undefined) {
+    const startTime = new Date(metadata.captureStartTime).toISOString();
+    tags.push(['DATE', startTime]);
+    tags.push(['CAPTURE_START', startTime]);
+  }
+
+  tags.push(['SAMPLE_RATE', String(sampleRate)]);
+
+  if (metadata.targetLanguage) {
+    tags.push(['TARGET_LANGUAGE', metadata.targetLanguage]);
+  }
+
+  return tags;
+}
+
+/**
+ * Encode tags as a Vorbis comment structure (without framing bit)
+ * @param tags Tag name and value pairs
+ * @returns The vendor string followed by the length-prefixed tags
+ */
+export function createVorbisComment(tags: [string, string][]): Uint8Array {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const comments = tags.map(([name, value]) => encoder.encode(`${name}=${value}`));
+
+  const length = 4 + vendor.length + 4 + comments.reduce((sum, comment) => sum + 4 + comment.length, 0);
+  const data = new Uint8Array(length);
+  const view = new DataView(data.buffer);
+
+  // All lengths are little-endian
+  let position = 0;
+  view.setUint32(position, vendor.length, true);
+  data.set(vendor, position + 4);
+  position += 4 + vendor.length;
+
+  view.setUint32(position, comments.length, true);
+  position += 4;
+
+  for (const comment of comments) {
+    view.setUint32(position, comment.length, true);
+    data.set(comment, position + 4);
+    position += 4 + comment.length;
+  }
+
+  return data;
+}
@@ -4,4 +4,5 @@
 
 // Export audio save components
 export { AudioFileExporter } from './AudioFileExporter';
-export { AudioSaveManager } from './AudioSaveManager'; 
\ No newline at end of file
+export { AudioSaveManager } from './AudioSaveManager';
+export { AudioEncoder } from './AudioEncoder'; 
\ No newline at end of file
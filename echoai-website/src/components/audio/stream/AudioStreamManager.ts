@@ -0,0 +1,360 @@
+import { audioLoggers } from '../../../utils/LoggerFactory';
+import { WebSocketManager } from '../../../services/websocket/WebSocketManager';
+import { WebSocketService } from '../../../services/websocket/WebSocketService';
+import { AudioStreamingBridge } from '../../../services/websocket/audio/AudioStreamingBridge';
+import { createOfflineQueueDbName } from '../../../services/websocket/audio/OfflineAudioQueue';
+import {
+  AudioStreamOptions,
+  AudioStreamState,
+  AudioStreamEventType,
+  AudioStreamEvent,
+  AudioStreamEventDetails
+} from '../../../types/audio-stream';
+
+/**
+ * AudioStreamManager
+ * 
+ * Streams audio to a remote endpoint while it is being captured.
+ * WebSocket delivery goes through the AudioStreamingBridge, which is the
+ * single integration point between the audio and WebSocket systems.
+ */
+export class AudioStreamManager {
+  // Configuration
+  private options: AudioStreamOptions;
+  
+  // Transport
+  private webSocketService: WebSocketService | null = null;
+  private bridge: AudioStreamingBridge | null = null;
+  
+  // State
+  private state: AudioStreamState = AudioStreamState.INACTIVE;
+  private sampleRate = 0;
+  private chunksSent = 0;
+  private samplesSent = 0;
+  
+  // Voice activity gating: chunks dropped, and the last one kept to lead into speech
+  private chunksGated = 0;
+  private preRoll: { audioData: Float32Array; sampleRate?: number } | null = null;
+  
+  // Event listeners
+  private eventListeners: Map<AudioStreamEventType, ((event: AudioStreamEvent) => void)[]> = new Map();
+  
+  /**
+   * Create a new AudioStreamManager
+   * 
+   * @param options Stream options
+   */
+  constructor(options: AudioStreamOptions = {}) {
+    this.options = {
+      protocol: 'websocket',
+      packetSize: 0,
+      bufferTimeout: 1000,
+      ...options
+    };
+    
+    audioLoggers.audioCapture.info('AudioStreamManager: Created new instance', {
+      url: this.options.url,
+      protocol: this.options.protocol,
+      packetSize: this.options.packetSize,
+      vadMode: this.options.vadMode
+    });
+  }
+  
+  /**
+   * Prepare the transport for the configured protocol
+   * 
+   * @returns Promise that resolves when the transport is ready
+   */
+  async initialize(): Promise<void> {
+    switch (this.options.protocol) {
+      case 'websocket': {
+        const manager = WebSocketManager.getInstance();
+        this.webSocketService = this.options.url
+          ? manager.getService(this.options.url, undefined, this.options.serviceName)
+          : manager.getActiveService(this.options.serviceName);
+        
+        this.bridge = new AudioStreamingBridge(this.webSocketService, {
+          maxBufferSize: this.options.packetSize || undefined,
+          bufferTimeout: this.options.bufferTimeout,
+          messageFormat: this.options.messageFormat,
+          codec: this.options.codec,
+          opusBitrate: this.options.opusBitrate,
+          opusFrameDuration: this.options.opusFrameDuration,
+          offlineQueue: this.options.offlineQueue,
+          offlineQueueDbName: this.options.offlineQueueDbName
+            || createOfflineQueueDbName(this.options.serviceName)
+        });
+        
+        this.bridge.onStatusChange((connected, message) => {
+          this._emitEvent(AudioStreamEventType.CONNECTION_CHANGE, { connected, message });
+        });
+        break;
+      }
+      
+      case 'custom':
+        if (typeof this.options.customHandler !== 'function') {
+          throw new Error('Custom stream protocol requires a customHandler');
+        }
+        break;
+      
+      case 'http':
+        audioLoggers.audioCapture.error('AudioStreamManager: HTTP streaming not implemented');
+        throw new Error('HTTP streaming not implemented');
+      
+      default:
+        throw new Error(`Unsupported stream protocol: ${this.options.protocol}`);
+    }
+    
+    audioLoggers.audioCapture.info('AudioStreamManager: Initialized', { protocol: this.options.protocol });
+  }
+  
+  /**
+   * Set the frame size used to group audio before sending
+   * 
+   * @param packetSize Frame size in samples (0 = send every chunk as-is)
+   */
+  setPacketSize(packetSize: number): void {
+    this.options.packetSize = packetSize;
+    if (this.bridge && packetSize > 0) {
+      this.bridge.setMaxBufferSize(packetSize);
+    }
+  }
+  
+  /**
+   * Start streaming
+   * 
+   * @param sampleRate Sample rate of the audio that will be streamed
+   */
+  start(sampleRate: number): void {
+    if (this.state === AudioStreamState.STREAMING) {
+      audioLoggers.audioCapture.debug('AudioStreamManager: Already streaming, skipping start');
+      return;
+    }
+    
+    this.sampleRate = sampleRate;
+    this.chunksSent = 0;
+    this.samplesSent = 0;
+    this.chunksGated = 0;
+    this.preRoll = null;
+    
+    if (this.bridge) {
+      this.bridge.setSampleRate(sampleRate);
+      this.bridge.setEnabled(true);
+      this.state = this.webSocketService?.isConnected()
+        ? AudioStreamState.STREAMING
+        : AudioStreamState.CONNECTING;
+    } else {
+      this.state = AudioStreamState.STREAMING;
+    }
+    
+    audioLoggers.audioCapture.info('AudioStreamManager: Streaming started', { sampleRate });
+    this._emitEvent(AudioStreamEventType.STREAM_START, { sampleRate });
+  }
+  
+  /**
+   * Stream a block of audio to the server
+   * 
+   * @param audioData Audio samples to stream
+   * @param sampleRate Sample rate of the audio (defaults to the rate passed to start)
+   * @param speech Whether the audio contains speech, if voice activity detection ran on it
+   */
+  async streamAudio(audioData: Float32Array, sampleRate?: number, speech?: boolean): Promise<void> {
+    if (this.state === AudioStreamState.INACTIVE || this.state === AudioStreamState.ERROR) {
+      audioLoggers.audioCapture.debug(`AudioStreamManager: Ignoring audio, current state is ${this.state}`);
+      return;
+    }
+    
+    if (audioData.length === 0) {
+      return;
+    }
+    
+    if (speech !== undefined && this.options.vadMode === 'gate') {
+      if (!speech) {
+        // Hold the chunk back in case speech starts in the next one
+        if (this.preRoll) {
+          this.chunksGated++;
+        }
+        this.preRoll = { audioData, sampleRate };
+        return;
+      }
+      
+      if (this.preRoll) {
+        const preRoll = this.preRoll;
+        this.preRoll = null;
+        await this._sendAudio(preRoll.audioData, preRoll.sampleRate);
+      }
+    } else if (speech !== undefined && this.options.vadMode === 'flag') {
+      await this.bridge?.setSpeech(speech);
+    }
+    
+    await this._sendAudio(audioData, sampleRate);
+  }
+  
+  /**
+   * Send a block of audio through the transport
+   * 
+   * @param audioData Audio samples to send
+   * @param sampleRate Sample rate of the audio (defaults to the current rate)
+   */
+  private async _sendAudio(audioData: Float32Array, sampleRate?: number): Promise<void> {
+    if (sampleRate && sampleRate !== this.sampleRate) {
+      this.sampleRate = sampleRate;
+      this.bridge?.setSampleRate(sampleRate);
+    }
+    
+    try {
+      if (this.bridge) {
+        if (this.options.packetSize) {
+          this.bridge.bufferAudioChunk(audioData);
+        } else {
+          await this.bridge.processAudioChunk(audioData);
+        }
+        
+        if (this.state === AudioStreamState.CONNECTING && this.webSocketService?.isConnected()) {
+          this.state = AudioStreamState.STREAMING;
+        }
+      } else if (this.options.customHandler) {
+        await this.options.customHandler(audioData, this.sampleRate);
+      }
+      
+      this.chunksSent++;
+      this.samplesSent += audioData.length;
+      
+      this._emitEvent(AudioStreamEventType.STREAM_CHUNK_SENT, {
+        chunkSize: audioData.length,
+        chunksSent: this.chunksSent,
+        samplesSent: this.samplesSent
+      });
+    } catch (error) {
+      audioLoggers.audioCapture.error('AudioStreamManager: Error streaming audio', error);
+      this._emitEvent(AudioStreamEventType.STREAM_ERROR, { error });
+    }
+  }
+  
+  /**
+   * Send any partially filled frame
+   */
+  async flush(): Promise<void> {
+    if (this.bridge) {
+      await this.bridge.flushBuffer();
+    }
+  }
+  
+  /**
+   * Stop streaming, flushing any buffered audio first
+   */
+  async stop(): Promise<void> {
+    if (this.state === AudioStreamState.INACTIVE) {
+      return;
+    }
+    
+    await this.flush();
+    this.bridge?.setEnabled(false);
+    this.state = AudioStreamState.INACTIVE;
+    
+    // A held chunk without speech after it is never sent
+    if (this.preRoll) {
+      this.chunksGated++;
+      this.preRoll = null;
+    }
+    
+    audioLoggers.audioCapture.info('AudioStreamManager: Streaming stopped', {
+      chunksSent: this.chunksSent,
+      samplesSent: this.samplesSent,
+      chunksGated: this.chunksGated
+    });
+    
+    this._emitEvent(AudioStreamEventType.STREAM_STOP, {
+      chunksSent: this.chunksSent,
+      samplesSent: this.samplesSent,
+      chunksGated: this.chunksGated
+    });
+  }
+  
+  /**
+   * Get the current stream state
+   * 
+   * @returns The current state
+   */
+  getState(): AudioStreamState {
+    return this.state;
+  }
+  
+  /**
+   * Get the WebSocket service used for streaming, if any
+   * 
+   * @returns The WebSocket service or null for non-WebSocket protocols
+   */
+  getWebSocketService(): WebSocketService | null {
+    return this.webSocketService;
+  }
+  
+  /**
+   * Add an event listener
+   * 
+   * @param eventType The event type to listen for
+   * @param callback The callback to call when the event occurs
+   */
+  addEventListener<T extends AudioStreamEventType>(eventType: T, callback: (event: AudioStreamEvent<T>) => void): void {
+    const listeners = this.eventListeners.get(eventType) || [];
+    listeners.push(callback as (event: AudioStreamEvent) => void);
+    this.eventListeners.set(eventType, listeners);
+  }
+  
+  /**
+   * Remove an event listener
+   * 
+   * @param eventType The event type to stop listening for
+   * @param callback The callback to remove
+   */
+  removeEventListener<T extends AudioStreamEventType>(eventType: T, callback: (event: AudioStreamEvent<T>) => void): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (!listeners) return;
+    
+    const index = listeners.indexOf(callback as (event: AudioStreamEvent) => void);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+      this.eventListeners.set(eventType, listeners);
+    }
+  }
+  
+  /**
+   * Cleanup resources
+   * The shared WebSocket connection is left open for other consumers
+   */
+  dispose(): void {
+    audioLoggers.audioCapture.info('AudioStreamManager: Disposing resources');
+    
+    if (this.bridge) {
+      this.bridge.dispose();
+      this.bridge = null;
+    }
+    
+    this.webSocketService = null;
+    this.state = AudioStreamState.INACTIVE;
+    this.eventListeners.clear();
+  }
+  
+  /**
+   * Emit an event to all registered listeners
+   * 
+   * @param type The event type
+   * @param details Event details for that type
+   */
+  private _emitEvent<T extends AudioStreamEventType>(type: T, details: AudioStreamEventDetails[T]): void {
+    const event = {
+      type,
+      timestamp: Date.now(),
+      details
+    } as AudioStreamEvent;
+    
+    const listeners = this.eventListeners.get(type) || [];
+    listeners.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        audioLoggers.audioCapture.error('AudioStreamManager: Error in event listener', error);
+      }
+    });
+  }
+}
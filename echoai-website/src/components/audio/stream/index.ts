@@ -2,4 +2,5 @@
  * Audio Stream Module Exports
  */
 
-// This file will export audio streaming components as they are added 
\ No newline at end of file
+// Export audio stream components
+export { AudioStreamManager } from './AudioStreamManager';
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import {
+  WebSocketService,
+  ConnectionMetrics
+} from '../../services/websocket';
+
+interface ConnectionMetricsPanelProps {
+  webSocketService: WebSocketService | null;
+}
+
+interface SparklineProps {
+  values: number[];
+  color: string;
+  // Fixed upper bound, otherwise the largest value
+  max?: number;
+}
+
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 32;
+
+// Line chart of recent values, scaled to the largest one
+const Sparkline: React.FC<SparklineProps> = ({ values, color, max }) => {
+  if (values.length < 2) {
+    return <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} />;
+  }
+
+  const top = Math.max(max ?? Math.max(...values), 1);
+  const step = SPARKLINE_WIDTH / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(SPARKLINE_HEIGHT - (value / top) * (SPARKLINE_HEIGHT - 2) - 1).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="bg-gray-900 rounded">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const formatBytes = (bytesPerSecond: number): string => {
+  if (bytesPerSecond >= 1024 * 1024) {
+    return `${(bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s`;
+  }
+  if (bytesPerSecond >= 1024) {
+    return `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+  }
+  return `${Math.round(bytesPerSecond)} B/s`;
+};
+
+/**
+ * Live connection quality charts and counters for the WebSocket debugger
+ */
+export const ConnectionMetricsPanel: React.FC<ConnectionMetricsPanelProps> = ({ webSocketService }) => {
+  const [metrics, setMetrics] = useState<ConnectionMetrics | null>(null);
+
+  // Sample while the panel is shown
+  useEffect(() => {
+    if (!webSocketService) {
+      setMetrics(null);
+      return;
+    }
+
+    const collector = webSocketService.getMetrics();
+    setMetrics(collector.getMetrics());
+    return collector.subscribe(setMetrics);
+  }, [webSocketService]);
+
+  if (!metrics) {
+    return (
+      <div className="mb-4 text-xs text-gray-500 italic">No connection metrics available.</div>
+    );
+  }
+
+  const { samples, totals, circuitState } = metrics;
+  const latest = samples[samples.length - 1];
+  const rttValues = samples.map(sample => sample.rttMs ?? 0);
+
+  const charts = [
+    {
+      label: 'RTT',
+      value: latest?.rttMs != null ? `${Math.round(latest.rttMs)} ms` : '–',
+      values: rttValues,
+      color: '#facc15'
+    },
+    {
+      label: 'Sent',
+      value: latest ? `${formatBytes(latest.bytesSentPerSecond)}, ${latest.messagesSentPerSecond.toFixed(1)} msg/s` : '–',
+      values: samples.map(sample => sample.bytesSentPerSecond),
+      color: '#60a5fa'
+    },
+    {
+      label: 'Received',
+      value: latest ? `${formatBytes(latest.bytesReceivedPerSecond)}, ${latest.messagesReceivedPerSecond.toFixed(1)} msg/s` : '–',
+      values: samples.map(sample => sample.bytesReceivedPerSecond),
+      color: '#4ade80'
+    },
+    {
+      label: 'Queue',
+      value: latest ? `${latest.queueLength} messages` : '–',
+      values: samples.map(sample => sample.queueLength),
+      color: '#f472b6'
+    }
+  ];
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-medium text-gray-300 mb-2">Connection Metrics</h3>
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        {charts.map(chart => (
+          <div key={chart.label} className="bg-gray-700 rounded p-2">
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-gray-400">{chart.label}</span>
+              <span className="text-white font-mono">{chart.value}</span>
+            </div>
+            <Sparkline values={chart.values} color={chart.color} />
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+        <span>
+          Circuit breaker:{' '}
+          <span className={circuitState === 'open' ? 'text-red-400' : circuitState === 'half_open' ? 'text-yellow-400' : 'text-green-400'}>
+            {circuitState.replace('_', '-')}
+          </span>
+        </span>
+        <span>Reconnects: <span className="text-white">{totals.reconnects}</span></span>
+        <span>Dropped frames: <span className={totals.droppedFrames > 0 ? 'text-red-400' : 'text-white'}>{totals.droppedFrames}</span></span>
+        <span>Dropped messages: <span className={totals.droppedMessages > 0 ? 'text-red-400' : 'text-white'}>{totals.droppedMessages}</span></span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { getWebSocketConfig } from '../../config';
+
+interface EndpointConfigPanelProps {
+  // URL the debugger currently uses
+  currentUrl: string;
+  onSelect: (url: string) => void;
+}
+
+/**
+ * Resolved WebSocket endpoints, where each came from, and configuration problems
+ */
+export const EndpointConfigPanel: React.FC<EndpointConfigPanelProps> = ({ currentUrl, onSelect }) => {
+  const { endpoints, defaultEndpoint, issues, runtimeConfigLoaded } = getWebSocketConfig();
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-medium text-gray-300 mb-2">
+        Endpoints
+        <span className="ml-2 text-xs text-gray-500 font-normal">
+          config.json {runtimeConfigLoaded ? 'loaded' : 'not found'}
+        </span>
+      </h3>
+      <div className="bg-gray-700 rounded p-2 space-y-1">
+        {endpoints.map(endpoint => (
+          <div key={endpoint.name} className="flex items-center gap-2 text-xs">
+            <span className={endpoint.name === defaultEndpoint ? 'text-white font-medium' : 'text-gray-300'}>
+              {endpoint.name}
+              {endpoint.name === defaultEndpoint && ' (default)'}
+            </span>
+            <span className="text-blue-400 font-mono truncate flex-1">{endpoint.url}</span>
+            <span className="text-gray-500">{endpoint.source}</span>
+            <button
+              onClick={() => onSelect(endpoint.url)}
+              disabled={endpoint.url === currentUrl}
+              className="px-2 py-0.5 bg-gray-600 text-white rounded hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Use
+            </button>
+          </div>
+        ))}
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {issues.map((issue, index) => (
+            <li key={index} className={issue.level === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+              {issue.source}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
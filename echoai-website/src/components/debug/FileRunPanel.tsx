@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioOrchestrator } from '../audio/orchestrator';
+import { FileAudioProgress } from '../audio/capture';
+import { AudioExportFormat } from '../../types/audio-export';
+import {
+  OrchestratorEventType,
+  PipelineExecutionMode,
+  PipelineType
+} from '../../types/audio-orchestrator';
+import { audioLoggers } from '../../utils/LoggerFactory';
+
+type RunStatus = 'idle' | 'decoding' | 'running' | 'finishing' | 'done' | 'error';
+
+// Speeds offered for a run; 0 feeds the file as fast as the pipeline accepts it
+const SPEEDS = [
+  { value: 1, label: 'Real time' },
+  { value: 2, label: '2x' },
+  { value: 4, label: '4x' },
+  { value: 0, label: 'Unpaced' }
+];
+
+const formatSeconds = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Runs a local audio file through the stream and save steps, for reproducible tests
+ */
+export const FileRunPanel: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [saveAudio, setSaveAudio] = useState(false);
+  const [status, setStatus] = useState<RunStatus>('idle');
+  const [progress, setProgress] = useState<FileAudioProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const orchestratorRef = useRef<AudioOrchestrator | null>(null);
+
+  // Each run gets its own orchestrator; release the last one on unmount
+  useEffect(() => {
+    return () => {
+      orchestratorRef.current?.dispose();
+      orchestratorRef.current = null;
+    };
+  }, []);
+
+  const handleRun = () => {
+    if (!file) {
+      return;
+    }
+
+    orchestratorRef.current?.dispose();
+
+    const orchestrator = new AudioOrchestrator({
+      pipeline: PipelineType.CAPTURE_STREAM_SAVE,
+      executionMode: PipelineExecutionMode.STREAMING,
+      saveOptions: saveAudio
+        ? {
+            format: AudioExportFormat.WAV,
+            autoDownload: true,
+            filename: file.name.replace(/\.[^.]+$/, '')
+          }
+        : undefined
+    });
+    orchestratorRef.current = orchestrator;
+
+    orchestrator.addEventListener(OrchestratorEventType.FILE_PROGRESS, (event) => {
+      setStatus('running');
+      setProgress(event.details);
+    });
+    orchestrator.addEventListener(OrchestratorEventType.PIPELINE_COMPLETE, () => {
+      setStatus('done');
+    });
+    orchestrator.addEventListener(OrchestratorEventType.ERROR, (event) => {
+      setStatus('error');
+      setError(String(event.details?.error ?? 'Unknown error'));
+    });
+
+    setStatus('decoding');
+    setProgress(null);
+    setError(null);
+
+    orchestrator.setExportMetadata({ sourceUrl: file.name });
+    orchestrator.runFile(file, { speed })
+      .then(() => {
+        setStatus(current => (current === 'running' ? 'finishing' : current));
+      })
+      .catch(err => {
+        audioLoggers.orchestrator.error('FileRunPanel: File run failed', err);
+        setStatus('error');
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  };
+
+  const handleStop = () => {
+    orchestratorRef.current?.stop();
+  };
+
+  const isBusy = status === 'decoding' || status === 'running' || status === 'finishing';
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-lg">
+      <h2 className="text-lg font-semibold text-white mb-2">File Run</h2>
+      <p className="text-xs text-gray-400 mb-3">
+        Streams a local recording to the server instead of the live player, optionally saving what was sent.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <input
+          type="file"
+          accept="audio/*,video/*"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          disabled={isBusy}
+          className="text-white text-xs"
+        />
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          disabled={isBusy}
+          className="p-1 rounded bg-gray-700 border border-gray-600 text-white text-xs"
+        >
+          {SPEEDS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-white text-xs">
+          <input
+            type="checkbox"
+            checked={saveAudio}
+            onChange={(e) => setSaveAudio(e.target.checked)}
+            disabled={isBusy}
+          />
+          Save as WAV
+        </label>
+        {isBusy ? (
+          <button
+            onClick={handleStop}
+            disabled={status !== 'running'}
+            className="px-3 py-1 bg-red-700 text-white rounded hover:bg-red-600 disabled:opacity-40"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!file}
+            className="px-3 py-1 bg-blue-700 text-white rounded hover:bg-blue-600 disabled:opacity-40"
+          >
+            Run
+          </button>
+        )}
+      </div>
+
+      {status !== 'idle' && (
+        <div className="mt-3">
+          <div className="h-2 bg-gray-700 rounded overflow-hidden">
+            <div
+              className={`h-full ${status === 'error' ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${((progress?.progress ?? 0) * 100).toFixed(1)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            {status === 'decoding' && 'Decoding...'}
+            {status === 'running' && progress && `${formatSeconds(progress.position)} / ${formatSeconds(progress.duration)}`}
+            {status === 'finishing' && 'Finishing pipeline...'}
+            {status === 'done' && 'Done'}
+            {status === 'error' && <span className="text-red-400">{error}</span>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -18,7 +18,9 @@ import {
   createAudioMessage,
   OutgoingAudioMessageSchema
 } from '../../services/websocket/WebSocketSchemas';
-import { DEFAULT_WS_URL } from '../../config';
+import { getEndpointUrl } from '../../config';
+import { ConnectionMetricsPanel } from './ConnectionMetricsPanel';
+import { EndpointConfigPanel } from './EndpointConfigPanel';
 
 // Enhanced LogEntry interface with message type
 interface LogEntry {
@@ -35,7 +37,7 @@ interface WebSocketDebuggerProps {
 }
 
 export const WebSocketDebugger: React.FC<WebSocketDebuggerProps> = ({ 
-  initialUrl = DEFAULT_WS_URL
+  initialUrl = getEndpointUrl()
 }) => {
   const [url, setUrl] = useState<string>(initialUrl);
   const [logs, setLogs] = useState<LogEntry[]>([]);
@@ -49,7 +51,7 @@ export const WebSocketDebugger: React.FC<WebSocketDebuggerProps> = ({
   const [lastStatusChange, setLastStatusChange] = useState<string>('');
   
   // Get WebSocket from context
-  const { webSocketService, connectionState, connect, isConnected } = useWebSocket();
+  const { webSocketService, connectionState, connect, isConnected, protocolMismatch } = useWebSocket();
   
   // Update status state with timestamp
   const updateStatusChange = () => {
@@ -381,8 +383,19 @@ export const WebSocketDebugger: React.FC<WebSocketDebuggerProps> = ({
         <div className="text-xs text-gray-400 mt-1">
           Using URL: <span className="text-blue-400 font-mono">{url}</span>
         </div>
+        {protocolMismatch && (
+          <div className="text-xs text-red-400 mt-1">
+            Incompatible server: {protocolMismatch.message}
+          </div>
+        )}
       </div>
       
+      {/* Endpoint Configuration */}
+      <EndpointConfigPanel currentUrl={url} onSelect={setUrl} />
+      
+      {/* Connection Metrics */}
+      <ConnectionMetricsPanel webSocketService={webSocketService} />
+      
       {/* Remove the WebSocket URL input and keep only the Connection Controls */}
       <div className="grid grid-cols-2 gap-2 mb-4">
         <button 
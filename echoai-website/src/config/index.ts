@@ -8,4 +8,7 @@
 // Export WebSocket configuration
 export * from './websocket';
 
+// Export translation configuration
+export * from './translation';
+
 // Add other configuration exports here as your application grows 
\ No newline at end of file
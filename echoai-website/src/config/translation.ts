@@ -0,0 +1,18 @@
+/**
+ * Translation Configuration
+ * 
+ * Languages the server can translate into. This is separate from the
+ * site language chosen in the LanguageSelector.
+ */
+
+export const TARGET_LANGUAGES = [
+  { code: 'de', name: 'Deutsch' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+];
+
+// Language requested when the user hasn't chosen one
+export const DEFAULT_TARGET_LANGUAGE = 'en';
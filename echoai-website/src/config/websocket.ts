@@ -1,20 +1,42 @@
 /**
  * WebSocket Configuration
- * 
+ *
  * Central configuration for WebSocket connection settings.
- * Modify these values to change the default WebSocket server connection.
+ *
+ * Endpoints are resolved from these sources, later ones overriding earlier ones:
+ * 1. The built-in defaults below
+ * 2. Vite env vars (VITE_WS_URL or VITE_WS_HOST/PORT/PROTOCOL, VITE_WS_ENDPOINTS, VITE_WS_DEFAULT_ENDPOINT)
+ * 3. config.json next to index.html, loaded at startup: { "websocket": { "endpoints": {...}, "defaultEndpoint": "..." } }
+ * 4. URL query parameters: ws=<url>, ws.<name>=<url>, ws_endpoint=<name>
+ *
+ * Query URLs are only used in development mode, or when their host is listed in
+ * config.json's "queryHosts"; otherwise a link could point the app at any server.
+ *
+ * Endpoint URLs may leave out the protocol ("host:8081/ws", "//host/ws", "/ws");
+ * they then get wss on HTTPS pages and ws otherwise.
  */
 
+import { networkLoggers } from '../utils/LoggerFactory';
+import { isDevelopmentMode } from '../utils/environment';
+
+/**
+ * Protocol for WebSocket URLs that don't name one
+ * @returns 'wss' on HTTPS pages, otherwise 'ws'
+ */
+const getPageWebSocketProtocol = (): 'ws' | 'wss' => {
+  return typeof window !== 'undefined' && window.location?.protocol === 'https:' ? 'wss' : 'ws';
+};
+
 export const WS_CONFIG = {
   // WebSocket server host
   HOST: 'localhost',
-  
+
   // WebSocket server port
   PORT: 8081,
-  
-  // Protocol (ws or wss)
-  PROTOCOL: 'ws',
-  
+
+  // Protocol (ws or wss), following the page's protocol
+  PROTOCOL: getPageWebSocketProtocol(),
+
   /**
    * Get the full WebSocket URL
    * @returns The complete WebSocket URL (e.g., ws://localhost:8081)
@@ -24,5 +46,380 @@ export const WS_CONFIG = {
   }
 };
 
-// Export a default URL for convenience
-export const DEFAULT_WS_URL = WS_CONFIG.getUrl(); 
\ No newline at end of file
+// Name of the endpoint used when none is given
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+// How long to wait for config.json before starting with the built-in endpoints
+export const CONFIG_LOAD_TIMEOUT = 5000;
+
+/**
+ * Where an endpoint's URL came from
+ */
+export type EndpointSource = 'default' | 'env' | 'config.json' | 'query';
+
+/**
+ * A configured WebSocket endpoint
+ */
+export interface WebSocketEndpoint {
+  name: string;
+  url: string;
+  source: EndpointSource;
+}
+
+/**
+ * A configuration value that was rejected or looks wrong
+ */
+export interface WebSocketConfigIssue {
+  level: 'error' | 'warning';
+  source: EndpointSource;
+  message: string;
+}
+
+/**
+ * Endpoints after all sources were applied and validated
+ */
+export interface ResolvedWebSocketConfig {
+  endpoints: WebSocketEndpoint[];
+  defaultEndpoint: string;
+  issues: WebSocketConfigIssue[];
+
+  // Whether config.json was found and applied
+  runtimeConfigLoaded: boolean;
+}
+
+/**
+ * The websocket section of config.json
+ */
+interface RuntimeWebSocketConfig {
+  endpoints?: Record<string, unknown>;
+  defaultEndpoint?: unknown;
+  queryHosts?: unknown;
+}
+
+const ENDPOINT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+/**
+ * Turn an endpoint value into a full WebSocket URL
+ * @param value The configured value
+ * @returns The URL, or an error message
+ */
+const normalizeEndpointUrl = (value: string): { url: string } | { error: string } => {
+  const trimmed = value.trim();
+  const protocol = getPageWebSocketProtocol();
+  let candidate: string;
+
+  if (/^wss?:\/\//i.test(trimmed)) {
+    candidate = trimmed;
+  } else if (/^https?:\/\//i.test(trimmed)) {
+    candidate = trimmed.replace(/^http/i, 'ws');
+  } else if (trimmed.startsWith('//')) {
+    candidate = `${protocol}:${trimmed}`;
+  } else if (trimmed.startsWith('/')) {
+    if (typeof window === 'undefined') {
+      return { error: `"${value}" is a path, but there is no page to resolve it against` };
+    }
+    candidate = `${protocol}://${window.location.host}${trimmed}`;
+  } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return { error: `"${value}" is not a ws, wss, http or https URL` };
+  } else {
+    candidate = `${protocol}://${trimmed}`;
+  }
+
+  try {
+    new URL(candidate);
+    return { url: candidate };
+  } catch {
+    return { error: `"${value}" is not a valid URL` };
+  }
+};
+
+/**
+ * Collects endpoints from the sources in order
+ */
+class EndpointCollector {
+  endpoints = new Map<string, WebSocketEndpoint>();
+  defaultEndpoint = DEFAULT_ENDPOINT_NAME;
+  issues: WebSocketConfigIssue[] = [];
+
+  // Hosts query parameters may point endpoints at outside development mode
+  queryHosts: string[] = [];
+
+  /**
+   * Set an endpoint if its name and URL are valid
+   * @param name Endpoint name
+   * @param value Endpoint URL as configured
+   * @param source Where it came from
+   */
+  set(name: string, value: unknown, source: EndpointSource): void {
+    if (!ENDPOINT_NAME_PATTERN.test(name)) {
+      this.issues.push({ level: 'error', source, message: `Invalid endpoint name "${name}"` });
+      return;
+    }
+
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.issues.push({ level: 'error', source, message: `Endpoint "${name}" has no URL` });
+      return;
+    }
+
+    const result = normalizeEndpointUrl(value);
+    if ('error' in result) {
+      this.issues.push({ level: 'error', source, message: `Endpoint "${name}": ${result.error}` });
+      return;
+    }
+
+    if (getPageWebSocketProtocol() === 'wss' && /^ws:/i.test(result.url)) {
+      this.issues.push({
+        level: 'warning',
+        source,
+        message: `Endpoint "${name}" uses ws:// on an HTTPS page; browsers block such connections`
+      });
+    }
+
+    this.endpoints.set(name, { name, url: result.url, source });
+  }
+
+  /**
+   * Choose the default endpoint
+   * @param name Endpoint name
+   * @param source Where the choice came from
+   */
+  setDefault(name: unknown, source: EndpointSource): void {
+    if (typeof name !== 'string' || !ENDPOINT_NAME_PATTERN.test(name)) {
+      this.issues.push({ level: 'error', source, message: `Invalid default endpoint name "${String(name)}"` });
+      return;
+    }
+    this.defaultEndpoint = name;
+  }
+
+  /**
+   * Parse "name=url" pairs separated by commas
+   * @param value The list
+   * @param source Where it came from
+   */
+  setList(value: string, source: EndpointSource): void {
+    value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) {
+        this.issues.push({ level: 'error', source, message: `Endpoint "${entry}" is not in the form name=url` });
+        return;
+      }
+      this.set(entry.slice(0, separator).trim(), entry.slice(separator + 1), source);
+    });
+  }
+}
+
+/**
+ * Apply the Vite env vars
+ * @param collector The collector
+ */
+const applyEnv = (collector: EndpointCollector): void => {
+  const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+
+  if (env.VITE_WS_URL) {
+    collector.set(DEFAULT_ENDPOINT_NAME, env.VITE_WS_URL, 'env');
+  } else if (env.VITE_WS_HOST || env.VITE_WS_PORT || env.VITE_WS_PROTOCOL) {
+    const protocol = env.VITE_WS_PROTOCOL || getPageWebSocketProtocol();
+    const host = env.VITE_WS_HOST || WS_CONFIG.HOST;
+    const port = env.VITE_WS_PORT || String(WS_CONFIG.PORT);
+    if (protocol !== 'ws' && protocol !== 'wss') {
+      collector.issues.push({ level: 'error', source: 'env', message: `VITE_WS_PROTOCOL must be ws or wss, not "${protocol}"` });
+    } else {
+      collector.set(DEFAULT_ENDPOINT_NAME, `${protocol}://${host}:${port}`, 'env');
+    }
+  }
+
+  if (env.VITE_WS_ENDPOINTS) {
+    collector.setList(env.VITE_WS_ENDPOINTS, 'env');
+  }
+
+  if (env.VITE_WS_DEFAULT_ENDPOINT) {
+    collector.setDefault(env.VITE_WS_DEFAULT_ENDPOINT, 'env');
+  }
+};
+
+/**
+ * Apply the websocket section of config.json
+ * @param collector The collector
+ * @param runtimeConfig The section
+ */
+const applyRuntimeConfig = (collector: EndpointCollector, runtimeConfig: RuntimeWebSocketConfig): void => {
+  const { endpoints, defaultEndpoint, queryHosts } = runtimeConfig;
+
+  if (endpoints !== undefined) {
+    if (typeof endpoints !== 'object' || endpoints === null || Array.isArray(endpoints)) {
+      collector.issues.push({ level: 'error', source: 'config.json', message: 'websocket.endpoints must map names to URLs' });
+    } else {
+      Object.entries(endpoints).forEach(([name, url]) => collector.set(name, url, 'config.json'));
+    }
+  }
+
+  if (defaultEndpoint !== undefined) {
+    collector.setDefault(defaultEndpoint, 'config.json');
+  }
+
+  if (queryHosts !== undefined) {
+    if (!Array.isArray(queryHosts) || !queryHosts.every(host => typeof host === 'string')) {
+      collector.issues.push({ level: 'error', source: 'config.json', message: 'websocket.queryHosts must list host names' });
+    } else {
+      collector.queryHosts = queryHosts.map(host => host.trim().toLowerCase()).filter(Boolean);
+    }
+  }
+};
+
+/**
+ * Check whether a query parameter may set an endpoint to a URL
+ * @param collector The collector
+ * @param value The URL from the query
+ * @returns True in development mode or if the URL's host is listed in queryHosts
+ */
+const isQueryUrlAllowed = (collector: EndpointCollector, value: string): boolean => {
+  if (isDevelopmentMode()) {
+    return true;
+  }
+
+  const result = normalizeEndpointUrl(value);
+  if ('error' in result) {
+    // Let set() report it
+    return true;
+  }
+
+  const { host, hostname } = new URL(result.url);
+  return collector.queryHosts.includes(host.toLowerCase()) || collector.queryHosts.includes(hostname.toLowerCase());
+};
+
+/**
+ * Apply URL query overrides
+ * @param collector The collector
+ */
+const applyQuery = (collector: EndpointCollector): void => {
+  if (typeof window === 'undefined' || !window.location) {
+    return;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const defaultOverride = params.get('ws_endpoint');
+
+  params.forEach((value, key) => {
+    if (key !== 'ws' && !key.startsWith('ws.')) {
+      return;
+    }
+
+    if (!isQueryUrlAllowed(collector, value)) {
+      collector.issues.push({
+        level: 'error',
+        source: 'query',
+        message: `Ignoring ${key}="${value}": its host is not listed in websocket.queryHosts`
+      });
+      return;
+    }
+
+    collector.set(key === 'ws' ? defaultOverride || DEFAULT_ENDPOINT_NAME : key.slice(3), value, 'query');
+  });
+
+  if (defaultOverride) {
+    collector.setDefault(defaultOverride, 'query');
+  }
+};
+
+/**
+ * Resolve the endpoints from all sources
+ * @param runtimeConfig The websocket section of config.json, if it was loaded
+ * @returns The validated configuration
+ */
+export const resolveWebSocketConfig = (runtimeConfig?: RuntimeWebSocketConfig): ResolvedWebSocketConfig => {
+  const collector = new EndpointCollector();
+
+  collector.set(DEFAULT_ENDPOINT_NAME, WS_CONFIG.getUrl(), 'default');
+  applyEnv(collector);
+  if (runtimeConfig) {
+    applyRuntimeConfig(collector, runtimeConfig);
+  }
+  applyQuery(collector);
+
+  if (!collector.endpoints.has(collector.defaultEndpoint)) {
+    collector.issues.push({
+      level: 'error',
+      source: 'default',
+      message: `Default endpoint "${collector.defaultEndpoint}" is not configured, using "${DEFAULT_ENDPOINT_NAME}"`
+    });
+    collector.defaultEndpoint = DEFAULT_ENDPOINT_NAME;
+  }
+
+  return {
+    endpoints: Array.from(collector.endpoints.values()),
+    defaultEndpoint: collector.defaultEndpoint,
+    issues: collector.issues,
+    runtimeConfigLoaded: !!runtimeConfig
+  };
+};
+
+// Configuration in use; replaced once config.json is loaded
+let activeConfig: ResolvedWebSocketConfig = resolveWebSocketConfig();
+
+/**
+ * Load config.json and resolve the endpoints again
+ * Call this once at startup, before connecting. A missing config.json is not an error,
+ * and one that doesn't arrive within CONFIG_LOAD_TIMEOUT is given up on.
+ * @returns The resolved configuration
+ */
+export const loadWebSocketConfig = async (): Promise<ResolvedWebSocketConfig> => {
+  let runtimeConfig: RuntimeWebSocketConfig | undefined;
+  let loadIssue: WebSocketConfigIssue | null = null;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CONFIG_LOAD_TIMEOUT);
+
+  try {
+    const response = await fetch(`${import.meta.env?.BASE_URL ?? '/'}config.json`, { cache: 'no-store', signal: controller.signal });
+    if (response.ok) {
+      const json = await response.json();
+      runtimeConfig = json?.websocket ?? {};
+    } else if (response.status !== 404) {
+      loadIssue = { level: 'warning', source: 'config.json', message: `config.json could not be loaded (HTTP ${response.status})` };
+    }
+  } catch (error) {
+    // The dev server answers missing files with index.html, which fails to parse
+    const reason = controller.signal.aborted
+      ? `no response within ${CONFIG_LOAD_TIMEOUT} ms`
+      : error instanceof Error ? error.message : String(error);
+    loadIssue = { level: 'warning', source: 'config.json', message: `config.json could not be read: ${reason}` };
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  activeConfig = resolveWebSocketConfig(runtimeConfig);
+  if (loadIssue) {
+    activeConfig.issues.unshift(loadIssue);
+  }
+
+  activeConfig.issues.forEach(issue => {
+    const message = `WebSocket config (${issue.source}): ${issue.message}`;
+    if (issue.level === 'error') {
+      networkLoggers.websocket.error(message);
+    } else {
+      networkLoggers.websocket.warn(message);
+    }
+  });
+  networkLoggers.websocket.info('WebSocket endpoints resolved', {
+    defaultEndpoint: activeConfig.defaultEndpoint,
+    endpoints: activeConfig.endpoints
+  });
+
+  return activeConfig;
+};
+
+/**
+ * Get the configuration in use
+ * @returns The resolved configuration
+ */
+export const getWebSocketConfig = (): ResolvedWebSocketConfig => activeConfig;
+
+/**
+ * Get the URL of an endpoint
+ * @param name Endpoint name; the default endpoint if omitted or not configured
+ * @returns The endpoint URL
+ */
+export const getEndpointUrl = (name?: string): string => {
+  const endpoint = activeConfig.endpoints.find(candidate => candidate.name === (name ?? activeConfig.defaultEndpoint))
+    ?? activeConfig.endpoints.find(candidate => candidate.name === activeConfig.defaultEndpoint);
+  return endpoint?.url ?? WS_CONFIG.getUrl();
+};
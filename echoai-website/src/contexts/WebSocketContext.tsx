@@ -1,11 +1,24 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
-import { WebSocketService, ConnectionState, LogCategory } from '../services/websocket';
-import WebSocketManager from '../services/websocket/WebSocketManager';
+import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
+import {
+  WebSocketService,
+  ConnectionState,
+  LogCategory,
+  IncomingTranslationMessageSchema,
+  ProtocolVersionMismatch,
+  AuthProvider,
+  createTargetLanguageMessage
+} from '../services/websocket';
+import WebSocketManager, { DEFAULT_SERVICE_NAME } from '../services/websocket/WebSocketManager';
 import { networkLoggers } from '../utils/LoggerFactory';
-import { DEFAULT_WS_URL } from '../config';
+import { getEndpointUrl, DEFAULT_TARGET_LANGUAGE } from '../config';
+
+// Handler for incoming translation messages
+export type TranslationHandler = (message: IncomingTranslationMessageSchema) => void;
 
 // Context type definition
 interface WebSocketContextType {
+  serviceName: string;
+  serviceNames: string[];
   webSocketService: WebSocketService | null;
   connectionState: ConnectionState;
   url: string | null;
@@ -13,31 +26,59 @@ interface WebSocketContextType {
   disconnect: () => void;
   isConnected: () => boolean;
   reconnect: () => Promise<void>;
+  subscribeToTranslations: (handler: TranslationHandler) => () => void;
+  targetLanguage: string;
+  acknowledgedTargetLanguage: string | null;
+  setTargetLanguage: (language: string) => void;
+  protocolMismatch: ProtocolVersionMismatch | null;
 }
 
 // Create context with default values
 const WebSocketContext = createContext<WebSocketContextType>({
+  serviceName: DEFAULT_SERVICE_NAME,
+  serviceNames: [],
   webSocketService: null,
   connectionState: ConnectionState.DISCONNECTED,
   url: null,
   connect: async () => {},
   disconnect: () => {},
   isConnected: () => false,
-  reconnect: async () => {}
+  reconnect: async () => {},
+  subscribeToTranslations: () => () => undefined,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE,
+  acknowledgedTargetLanguage: null,
+  setTargetLanguage: () => undefined,
+  protocolMismatch: null
 });
 
 // Custom hook for easy context consumption
 export const useWebSocket = () => useContext(WebSocketContext);
 
+// Send a target language request to the server
+const sendTargetLanguageMessage = (service: WebSocketService, language: string): void => {
+  networkLoggers.websocket.info(`Requesting target language: ${language}`);
+  service.send(JSON.stringify(createTargetLanguageMessage(language)), 1).catch(error => {
+    networkLoggers.websocket.error('Failed to send target language', error);
+  });
+};
+
 interface WebSocketProviderProps {
   children: React.ReactNode;
+  // WebSocketManager service this provider exposes; nest providers to use several
+  serviceName?: string;
   initialUrl?: string;
+  initialTargetLanguage?: string;
+  // Supplies access tokens for the connection
+  auth?: AuthProvider;
 }
 
 // Provider component
 export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ 
   children,
-  initialUrl = DEFAULT_WS_URL
+  serviceName = DEFAULT_SERVICE_NAME,
+  initialUrl = getEndpointUrl(serviceName === DEFAULT_SERVICE_NAME ? undefined : serviceName),
+  initialTargetLanguage = DEFAULT_TARGET_LANGUAGE,
+  auth
 }) => {
   // Get the singleton WebSocketManager
   const manager = WebSocketManager.getInstance();
@@ -46,35 +87,163 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   const [webSocketService, setWebSocketService] = useState<WebSocketService | null>(null);
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [url, setUrl] = useState<string | null>(initialUrl || null);
+  const [serviceNames, setServiceNames] = useState<string[]>(() => manager.getServiceNames());
+  
+  // Subscribers to incoming translation messages
+  const translationHandlersRef = useRef<Set<TranslationHandler>>(new Set());
+  
+  // Requested translation language and the language the server confirmed
+  const [targetLanguage, setTargetLanguageState] = useState<string>(initialTargetLanguage);
+  const [acknowledgedTargetLanguage, setAcknowledgedTargetLanguage] = useState<string | null>(null);
+  const targetLanguageRef = useRef(initialTargetLanguage);
+  
+  // Set when the server speaks a protocol version this client doesn't support
+  const [protocolMismatch, setProtocolMismatch] = useState<ProtocolVersionMismatch | null>(null);
+  
+  // Latest auth provider; a new provider object doesn't recreate the service
+  const authRef = useRef(auth);
+  useEffect(() => {
+    authRef.current = auth;
+  }, [auth]);
+  
+  // Keep the list of registered services current
+  useEffect(() => {
+    const manager = WebSocketManager.getInstance();
+    setServiceNames(manager.getServiceNames());
+    return manager.onServicesChange(setServiceNames);
+  }, []);
   
   // Initialize the service if initial URL is provided
   useEffect(() => {
     if (initialUrl) {
       // Get or initialize the service
-      const service = manager.getService(initialUrl, {
+      const service = WebSocketManager.getInstance().getService(initialUrl, {
         autoReconnect: true,
         maxReconnectAttempts: 5,
-        connectionTimeout: 15000 // 15 seconds timeout
-      });
-      
-      // Set up state change listener
-      service.on('state_change', (event: any) => {
-        const customEvent = event as CustomEvent;
-        if (customEvent.detail?.newState) {
-          const newState = customEvent.detail.newState as ConnectionState;
-          setConnectionState(newState);
-          networkLoggers.websocket.info(`WebSocket state changed to: ${newState}`);
-        }
-      });
+        connectionTimeout: 15000, // 15 seconds timeout
+        auth: authRef.current
+      }, serviceName);
       
       // Store in state
       setWebSocketService(service);
       setUrl(initialUrl);
-      
-      // Sync the connection state
-      setConnectionState(service.getState());
     }
-  }, [initialUrl]);
+  }, [initialUrl, serviceName]);
+  
+  // Follow the connection state of the current service only
+  useEffect(() => {
+    if (!webSocketService) {
+      return;
+    }
+    
+    const handleStateChange = (event: Event) => {
+      const newState = (event as CustomEvent).detail?.newState as ConnectionState | undefined;
+      if (newState) {
+        setConnectionState(newState);
+        networkLoggers.websocket.info(`WebSocket state changed to: ${newState}`);
+      }
+    };
+    
+    webSocketService.on('state_change', handleStateChange);
+    setConnectionState(webSocketService.getState());
+    
+    return () => {
+      webSocketService.off('state_change', handleStateChange);
+    };
+  }, [webSocketService]);
+  
+  // Dispatch incoming translation messages from the current service to subscribers
+  useEffect(() => {
+    if (!webSocketService) {
+      return;
+    }
+    
+    return webSocketService.onMessage('translation', message => {
+      translationHandlersRef.current.forEach(handler => {
+        try {
+          handler(message);
+        } catch (error) {
+          networkLoggers.websocket.error('Error in translation handler', error);
+        }
+      });
+    });
+  }, [webSocketService]);
+  
+  // Send the requested target language on every connection and track the server's acknowledgement
+  useEffect(() => {
+    if (!webSocketService) {
+      return;
+    }
+    
+    const handleStateChange = (event: Event) => {
+      const detail = (event as CustomEvent).detail;
+      if (detail?.newState === ConnectionState.CONNECTED) {
+        setAcknowledgedTargetLanguage(null);
+        sendTargetLanguageMessage(webSocketService, targetLanguageRef.current);
+      } else if (detail?.oldState === ConnectionState.CONNECTED) {
+        setAcknowledgedTargetLanguage(null);
+      }
+    };
+    
+    webSocketService.on('state_change', handleStateChange);
+    const removeAckHandler = webSocketService.onMessage('target_language_ack', message => {
+      networkLoggers.websocket.info(`Server acknowledged target language: ${message.language}`);
+      setAcknowledgedTargetLanguage(message.language);
+    });
+    
+    if (webSocketService.isConnected()) {
+      sendTargetLanguageMessage(webSocketService, targetLanguageRef.current);
+    }
+    
+    return () => {
+      webSocketService.off('state_change', handleStateChange);
+      removeAckHandler();
+    };
+  }, [webSocketService]);
+  
+  // Track protocol version mismatches of the current service
+  useEffect(() => {
+    if (!webSocketService) {
+      return;
+    }
+    
+    const handleProtocolError = (event: Event) => {
+      const mismatch = (event as CustomEvent<ProtocolVersionMismatch>).detail;
+      networkLoggers.websocket.error(`Incompatible WebSocket server: ${mismatch.message}`);
+      setProtocolMismatch(mismatch);
+    };
+    
+    const handleHandshake = () => {
+      setProtocolMismatch(null);
+    };
+    
+    webSocketService.on('protocol_error', handleProtocolError);
+    webSocketService.on('handshake', handleHandshake);
+    setProtocolMismatch(webSocketService.getProtocolMismatch());
+    
+    return () => {
+      webSocketService.off('protocol_error', handleProtocolError);
+      webSocketService.off('handshake', handleHandshake);
+    };
+  }, [webSocketService]);
+  
+  // Method to change the target language; sent right away when connected
+  const setTargetLanguage = useCallback((language: string): void => {
+    targetLanguageRef.current = language;
+    setTargetLanguageState(language);
+    
+    if (webSocketService?.isConnected()) {
+      sendTargetLanguageMessage(webSocketService, language);
+    }
+  }, [webSocketService]);
+  
+  // Method to subscribe to translation messages; returns an unsubscribe function
+  const subscribeToTranslations = useCallback((handler: TranslationHandler): (() => void) => {
+    translationHandlersRef.current.add(handler);
+    return () => {
+      translationHandlersRef.current.delete(handler);
+    };
+  }, []);
   
   // Method to connect to a specific URL
   const connect = async (serverUrl: string): Promise<void> => {
@@ -85,28 +254,20 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       const service = manager.getService(serverUrl, {
         autoReconnect: true,
         maxReconnectAttempts: 5,
-        connectionTimeout: 15000
-      });
+        connectionTimeout: 15000,
+        auth
+      }, serviceName);
       
-      // Set up state change listener if it's a new service
+      // Switch to the new service; its state is followed from then on
       if (service !== webSocketService) {
-        service.on('state_change', (event: any) => {
-          const customEvent = event as CustomEvent;
-          if (customEvent.detail?.newState) {
-            const newState = customEvent.detail.newState as ConnectionState;
-            setConnectionState(newState);
-            networkLoggers.websocket.info(`WebSocket state changed to: ${newState}`);
-          }
-        });
-        
-        // Update state with new service
         setWebSocketService(service);
         setUrl(serverUrl);
       }
       
-      // Connect if not already connected
+      // Connect if not already connected; the user asked for it, so don't wait for a circuit breaker cool-down
       if (!service.isConnected()) {
-        await manager.connect(serverUrl);
+        service.allowReconnect();
+        await manager.connect(serverUrl, undefined, serviceName);
         networkLoggers.websocket.info('Successfully connected to WebSocket server');
       } else {
         networkLoggers.websocket.info('WebSocket already connected');
@@ -120,14 +281,15 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   // Method to disconnect
   const disconnect = (): void => {
     networkLoggers.websocket.info('Disconnecting WebSocket');
-    manager.disconnect();
+    manager.disconnect(undefined, undefined, serviceName);
   };
   
   // Method to reconnect
   const reconnect = async (): Promise<void> => {
     if (url) {
       networkLoggers.websocket.info('Reconnecting WebSocket');
-      await manager.connect(url);
+      manager.findService(serviceName)?.allowReconnect();
+      await manager.connect(url, undefined, serviceName);
     } else {
       networkLoggers.websocket.warn('Cannot reconnect: No URL provided');
       throw new Error('Cannot reconnect: No URL provided');
@@ -136,18 +298,25 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   
   // Method to check connection state
   const isConnected = (): boolean => {
-    return manager.isConnected();
+    return manager.isConnected(serviceName);
   };
   
   // Context value
   const contextValue: WebSocketContextType = {
+    serviceName,
+    serviceNames,
     webSocketService,
     connectionState,
     url,
     connect,
     disconnect,
     isConnected,
-    reconnect
+    reconnect,
+    subscribeToTranslations,
+    targetLanguage,
+    acknowledgedTargetLanguage,
+    setTargetLanguage,
+    protocolMismatch
   };
   
   return (
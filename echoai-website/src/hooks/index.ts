@@ -12,3 +12,6 @@ export { useDashScriptLoader } from './useDashScriptLoader';
 export { usePlayerControls } from './usePlayerControls';
 export { usePlayerEvents } from './usePlayerEvents';
 export { usePlayerInitializer } from './usePlayerInitializer';
+export { useLiveCaptions } from './useLiveCaptions';
+export { useCaptureSource } from './useCaptureSource';
+export { useWebSocketService } from './useWebSocketService';
@@ -1,19 +1,28 @@
 import { useEffect, useRef, useState } from 'react';
 import { AudioOrchestrator } from '../components/audio/orchestrator';
+import { useWebSocket } from '../contexts/WebSocketContext';
 import { BatchStrategy } from '../types/audio-batch';
-import { PipelineType, OrchestratorState } from '../types/audio-orchestrator';
+import { PipelineType, OrchestratorState, OrchestratorEventType } from '../types/audio-orchestrator';
+import { AudioCaptureSource } from '../types/audio-capture';
 import { audioLoggers } from '../utils/LoggerFactory';
 
 interface UseAudioOrchestratorParams {
   enabled: boolean;
-  audioContext: AudioContext | null;
-  sourceNode: MediaElementAudioSourceNode | null;
+  captureSource: AudioCaptureSource | null;
+  // Whether capture should run
   isPlaying: boolean;
+  sourceUrl?: string;
+  // Called when the capture source ends, e.g. when tab sharing is stopped
+  onSourceEnded?: () => void;
 }
 
 interface UseAudioOrchestratorResult {
   isCapturing: boolean;
   error: Error | null;
+  // Source the orchestrator captures from, once it is open
+  activeSource: AudioCaptureSource | null;
+  // Why the capture source could not be opened, e.g. denied permission
+  sourceError: Error | null;
 }
 
 // Helper methods to check orchestrator state
@@ -27,14 +36,21 @@ const isPaused = (orchestrator: AudioOrchestrator) => {
 
 export function useAudioOrchestrator({
   enabled,
-  audioContext,
-  sourceNode,
-  isPlaying
+  captureSource,
+  isPlaying,
+  sourceUrl,
+  onSourceEnded
 }: UseAudioOrchestratorParams): UseAudioOrchestratorResult {
   // Store orchestrator instance in a ref to persist across renders
   const orchestratorRef = useRef<AudioOrchestrator | null>(null);
+  const [isReady, setIsReady] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [activeSource, setActiveSource] = useState<AudioCaptureSource | null>(null);
+  const [sourceError, setSourceError] = useState<Error | null>(null);
+  const onSourceEndedRef = useRef(onSourceEnded);
+  onSourceEndedRef.current = onSourceEnded;
+  const { acknowledgedTargetLanguage } = useWebSocket();
   
   // Initialize orchestrator when hook is first used and enabled
   useEffect(() => {
@@ -58,6 +74,11 @@ export function useAudioOrchestrator({
       orchestrator.initialize()
         .then(() => {
           orchestratorRef.current = orchestrator;
+          orchestrator.addEventListener(OrchestratorEventType.SOURCE_ENDED, () => {
+            setActiveSource(null);
+            onSourceEndedRef.current?.();
+          });
+          setIsReady(true);
           audioLoggers.orchestrator.info('Audio orchestrator initialized successfully');
         })
         .catch(err => {
@@ -71,7 +92,9 @@ export function useAudioOrchestrator({
           audioLoggers.orchestrator.info('Disposing audio orchestrator');
           orchestratorRef.current.dispose();
           orchestratorRef.current = null;
+          setIsReady(false);
           setIsCapturing(false);
+          setActiveSource(null);
         }
       };
     } catch (err) {
@@ -81,20 +104,46 @@ export function useAudioOrchestrator({
     }
   }, [enabled]);
   
-  // Connect to audio source when available
+  // Capture from the selected source; replacing it keeps the capture running
   useEffect(() => {
-    if (!enabled || !orchestratorRef.current || !audioContext || !sourceNode) {
+    if (!enabled || !isReady || !orchestratorRef.current || !captureSource) {
       return;
     }
     
-    try {
-      audioLoggers.orchestrator.info('Connecting orchestrator to audio source');
-      orchestratorRef.current.connect(sourceNode);
-    } catch (err) {
-      audioLoggers.orchestrator.error('Error connecting to audio source:', err);
-      setError(err instanceof Error ? err : new Error(String(err)));
+    let cancelled = false;
+    setSourceError(null);
+    
+    audioLoggers.orchestrator.info(`Connecting orchestrator to ${captureSource.type} source`);
+    orchestratorRef.current.setSource(captureSource)
+      .then(() => {
+        if (!cancelled) {
+          setActiveSource(captureSource);
+        }
+      })
+      .catch(err => {
+        audioLoggers.orchestrator.error('Error connecting to audio source:', err);
+        if (!cancelled) {
+          setActiveSource(null);
+          setSourceError(err instanceof Error ? err : new Error(String(err)));
+        }
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, isReady, captureSource]);
+  
+  // Keep the metadata embedded in exported files up to date
+  useEffect(() => {
+    if (!enabled || !isReady || !orchestratorRef.current) {
+      return;
     }
-  }, [enabled, audioContext, sourceNode]);
+    
+    orchestratorRef.current.setExportMetadata({
+      sourceUrl,
+      targetLanguage: acknowledgedTargetLanguage ?? undefined
+    });
+  }, [enabled, isReady, sourceUrl, acknowledgedTargetLanguage]);
   
   // Sync orchestrator state with player state
   useEffect(() => {
@@ -125,10 +174,12 @@ export function useAudioOrchestrator({
       audioLoggers.orchestrator.error('Error syncing orchestrator state:', err);
       setError(err instanceof Error ? err : new Error(String(err)));
     }
-  }, [enabled, isPlaying]);
+  }, [enabled, isReady, isPlaying]);
   
   return {
     isCapturing,
-    error
+    error,
+    activeSource,
+    sourceError
   };
 } 
\ No newline at end of file
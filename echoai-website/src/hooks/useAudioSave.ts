@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { AudioSaveManager } from '../components/audio/save/AudioSaveManager';
-import { AudioExportEventType, AudioExportFormat, AudioExportOptions } from '../types/audio-export';
+import { AudioExportEventType, AudioExportFormat, AudioExportOptions, Mp3ExportOptions } from '../types/audio-export';
+import { CaptionCue } from '../types/captions';
 import { audioLoggers } from '../utils/LoggerFactory';
 
 /**
@@ -13,6 +14,7 @@ export const useAudioSave = (defaultOptions?: Partial<AudioExportOptions>) => {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [lastSavedUrl, setLastSavedUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
   
   // Save audio data
   const saveAudio = useCallback(async (
@@ -47,15 +49,68 @@ export const useAudioSave = (defaultOptions?: Partial<AudioExportOptions>) => {
     }
   }, [defaultOptions]);
   
+  // Save audio data as MP3
+  const saveMp3 = useCallback((
+    audioData: Float32Array,
+    sampleRate: number,
+    mp3Options?: Mp3ExportOptions,
+    options?: Partial<AudioExportOptions>
+  ) => {
+    return saveAudio(audioData, sampleRate, {
+      ...options,
+      format: AudioExportFormat.MP3,
+      mp3: { ...defaultOptions?.mp3, ...options?.mp3, ...mp3Options }
+    });
+  }, [saveAudio, defaultOptions]);
+  
+  // Save caption cues in the formats listed in captionFormats
+  const saveCaptions = useCallback(async (
+    cues: CaptionCue[],
+    options?: Partial<AudioExportOptions>
+  ) => {
+    const mergedOptions = {
+      ...defaultOptions,
+      ...options
+    };
+    
+    audioLoggers.audioCapture.debug('useAudioSave: Saving captions', {
+      cueCount: cues.length,
+      options: mergedOptions
+    });
+    
+    setIsSaving(true);
+    setError(null);
+    
+    try {
+      const urls = await AudioSaveManager.saveCaptions(cues, mergedOptions);
+      if (urls.length > 0) {
+        setLastSavedUrl(urls[urls.length - 1]);
+      }
+      return urls;
+    } catch (e) {
+      const saveError = e instanceof Error ? e : new Error('Unknown error while saving captions');
+      setError(saveError);
+      throw saveError;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [defaultOptions]);
+  
   // Handle save events
   useEffect(() => {
     const handleExportStart = () => {
       setIsSaving(true);
       setError(null);
+      setProgress(0);
+    };
+    
+    const handleExportProgress = (event: { progress: number }) => {
+      setProgress(event.progress);
     };
     
     const handleExportComplete = (event: any) => {
       setIsSaving(false);
+      setProgress(1);
       setLastSavedUrl(event.url);
     };
     
@@ -66,12 +121,14 @@ export const useAudioSave = (defaultOptions?: Partial<AudioExportOptions>) => {
     
     // Register event listeners
     AudioSaveManager.addEventListener(AudioExportEventType.EXPORT_START, handleExportStart);
+    AudioSaveManager.addEventListener(AudioExportEventType.EXPORT_PROGRESS, handleExportProgress);
     AudioSaveManager.addEventListener(AudioExportEventType.EXPORT_COMPLETE, handleExportComplete);
     AudioSaveManager.addEventListener(AudioExportEventType.EXPORT_ERROR, handleExportError);
     
     // Clean up event listeners on unmount
     return () => {
       AudioSaveManager.removeEventListener(AudioExportEventType.EXPORT_START, handleExportStart);
+      AudioSaveManager.removeEventListener(AudioExportEventType.EXPORT_PROGRESS, handleExportProgress);
       AudioSaveManager.removeEventListener(AudioExportEventType.EXPORT_COMPLETE, handleExportComplete);
       AudioSaveManager.removeEventListener(AudioExportEventType.EXPORT_ERROR, handleExportError);
     };
@@ -79,7 +136,10 @@ export const useAudioSave = (defaultOptions?: Partial<AudioExportOptions>) => {
   
   return {
     saveAudio,
+    saveMp3,
+    saveCaptions,
     isSaving,
+    progress,
     error,
     lastSavedUrl,
     clearError: () => setError(null),
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  MediaElementCaptureSource,
+  MicrophoneCaptureSource,
+  DisplayCaptureSource
+} from '../components/audio/capture';
+import { AudioCaptureSource, CaptureSourceType } from '../types/audio-capture';
+import { audioLoggers } from '../utils/LoggerFactory';
+
+interface UseCaptureSourceProps {
+  mediaRef: React.RefObject<HTMLMediaElement>;
+  enabled: boolean;
+}
+
+interface UseCaptureSourceReturn {
+  source: AudioCaptureSource | null;
+  sourceType: CaptureSourceType;
+  deviceId: string;
+  selectSourceType: (type: CaptureSourceType) => void;
+  selectDevice: (deviceId: string) => void;
+  deviceError: string | null;
+}
+
+/**
+ * Custom hook for choosing where captured audio comes from
+ * Defaults to the player's media element. Switching the microphone device
+ * keeps the same source, which moves the running capture to the new device.
+ */
+export function useCaptureSource({
+  mediaRef,
+  enabled
+}: UseCaptureSourceProps): UseCaptureSourceReturn {
+  const [sourceType, setSourceType] = useState<CaptureSourceType>(CaptureSourceType.MEDIA_ELEMENT);
+  const [source, setSource] = useState<AudioCaptureSource | null>(null);
+  
+  // Empty for the system default device
+  const [deviceId, setDeviceId] = useState('');
+  const deviceIdRef = useRef(deviceId);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  
+  // Create a source object for the selected type
+  useEffect(() => {
+    if (!enabled) {
+      setSource(null);
+      return;
+    }
+    
+    switch (sourceType) {
+      case CaptureSourceType.MEDIA_ELEMENT:
+        setSource(mediaRef.current ? new MediaElementCaptureSource(mediaRef.current) : null);
+        break;
+      case CaptureSourceType.MICROPHONE:
+        setSource(new MicrophoneCaptureSource({ deviceId: deviceIdRef.current || undefined }));
+        break;
+      case CaptureSourceType.DISPLAY:
+        setSource(new DisplayCaptureSource());
+        break;
+    }
+  }, [enabled, sourceType, mediaRef]);
+  
+  const selectSourceType = useCallback((type: CaptureSourceType) => {
+    audioLoggers.audioCapture.info(`useCaptureSource: Selected ${type} source`);
+    setSourceType(type);
+  }, []);
+  
+  const selectDevice = useCallback((newDeviceId: string) => {
+    deviceIdRef.current = newDeviceId;
+    setDeviceId(newDeviceId);
+    setDeviceError(null);
+    
+    if (source instanceof MicrophoneCaptureSource) {
+      source.switchDevice(newDeviceId || undefined).catch(error => {
+        audioLoggers.audioCapture.error('useCaptureSource: Failed to switch microphone', error);
+        setDeviceError(error instanceof Error ? error.message : String(error));
+      });
+    }
+  }, [source]);
+  
+  return {
+    source,
+    sourceType,
+    deviceId,
+    selectSourceType,
+    selectDevice,
+    deviceError
+  };
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { IncomingTranslationMessageSchema } from '../services/websocket';
+import { Caption, LiveCaptionOptions } from '../types/captions';
+import { audioLoggers } from '../utils/LoggerFactory';
+
+interface UseLiveCaptionsProps extends LiveCaptionOptions {
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+interface UseLiveCaptionsReturn {
+  captions: Caption[];
+  visibleCaptions: Caption[];
+  currentTime: number;
+  clearCaptions: () => void;
+}
+
+/**
+ * Custom hook that turns incoming translation messages into captions
+ * placed on the playback clock of a media element
+ */
+export function useLiveCaptions({
+  videoRef,
+  enabled = true,
+  displayDuration = 6,
+  maxVisible = 2,
+  maxHistory = 200
+}: UseLiveCaptionsProps): UseLiveCaptionsReturn {
+  const { subscribeToTranslations, webSocketService } = useWebSocket();
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const nextIdRef = useRef(0);
+
+  // Follow the playback clock
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !video) return;
+
+    const updateTime = () => setCurrentTime(video.currentTime);
+
+    video.addEventListener('timeupdate', updateTime);
+    video.addEventListener('seeked', updateTime);
+    updateTime();
+
+    return () => {
+      video.removeEventListener('timeupdate', updateTime);
+      video.removeEventListener('seeked', updateTime);
+    };
+  }, [enabled, videoRef]);
+
+  // Collect captions from translation messages
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleTranslation = (message: IncomingTranslationMessageSchema) => {
+      const text = message.text.trim();
+      if (!text) return;
+
+      // Captions start at the playback position they arrive at, moved back to
+      // where their speech played if the server timestamped it
+      const video = videoRef.current;
+      const receivedAt = Date.now();
+      let startTime = video?.currentTime ?? 0;
+      
+      if (video && webSocketService && message.start_timestamp !== undefined) {
+        const spokenAt = webSocketService.toLocalTime(message.start_timestamp);
+        const delay = Math.max(0, receivedAt - spokenAt) / 1000 * video.playbackRate;
+        startTime = Math.max(0, startTime - delay);
+      }
+      
+      const caption: Caption = {
+        id: nextIdRef.current++,
+        text,
+        sourceLanguage: message.source_language,
+        targetLanguage: message.target_language,
+        receivedAt,
+        startTime,
+        endTime: startTime + displayDuration
+      };
+
+      audioLoggers.dashPlayer.debug(`useLiveCaptions: Caption received at ${startTime.toFixed(2)}s`, caption);
+
+      setCaptions(prev => {
+        const next = [...prev, caption];
+        return next.length > maxHistory ? next.slice(next.length - maxHistory) : next;
+      });
+    };
+
+    return subscribeToTranslations(handleTranslation);
+  }, [enabled, displayDuration, maxHistory, subscribeToTranslations, webSocketService, videoRef]);
+
+  // Captions whose time span covers the current playback position
+  const visibleCaptions = useMemo(() => {
+    const active = captions.filter(caption =>
+      caption.startTime <= currentTime && currentTime < caption.endTime
+    );
+    return active.slice(Math.max(0, active.length - maxVisible));
+  }, [captions, currentTime, maxVisible]);
+
+  const clearCaptions = useCallback(() => {
+    setCaptions([]);
+  }, []);
+
+  return {
+    captions,
+    visibleCaptions,
+    currentTime,
+    clearCaptions
+  };
+}
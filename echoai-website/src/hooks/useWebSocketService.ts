@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { WebSocketService, ConnectionState } from '../services/websocket';
+import WebSocketManager from '../services/websocket/WebSocketManager';
+
+interface UseWebSocketServiceReturn {
+  webSocketService: WebSocketService | null;
+  connectionState: ConnectionState;
+}
+
+/**
+ * Custom hook for following a named service of the WebSocketManager
+ * Use it e.g. to show a second server next to the provider's; no provider is needed.
+ */
+export function useWebSocketService(name: string): UseWebSocketServiceReturn {
+  const [webSocketService, setWebSocketService] = useState<WebSocketService | null>(
+    () => WebSocketManager.getInstance().findService(name)
+  );
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    () => WebSocketManager.getInstance().getState(name)
+  );
+  
+  // Pick up the service when it is registered or replaced
+  useEffect(() => {
+    const manager = WebSocketManager.getInstance();
+    const update = () => setWebSocketService(manager.findService(name));
+    update();
+    return manager.onServicesChange(update);
+  }, [name]);
+  
+  useEffect(() => {
+    if (!webSocketService) {
+      setConnectionState(ConnectionState.DISCONNECTED);
+      return;
+    }
+    
+    const handleStateChange = (event: Event) => {
+      const newState = (event as CustomEvent).detail?.newState as ConnectionState | undefined;
+      if (newState) {
+        setConnectionState(newState);
+      }
+    };
+    
+    webSocketService.on('state_change', handleStateChange);
+    setConnectionState(webSocketService.getState());
+    
+    return () => {
+      webSocketService.off('state_change', handleStateChange);
+    };
+  }, [webSocketService]);
+  
+  return { webSocketService, connectionState };
+}
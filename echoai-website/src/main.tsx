@@ -8,6 +8,7 @@ import './lib/i18n' // Import i18n configuration
 import { appLogger } from './utils/LoggerFactory'
 import { isDevelopmentMode } from './utils/environment'
 import { WebSocketProvider } from './contexts/WebSocketContext'
+import { loadWebSocketConfig } from './config'
 
 // Initialize debug utilities in development mode
 if (isDevelopmentMode()) {
@@ -16,15 +17,26 @@ if (isDevelopmentMode()) {
     .catch(error => appLogger.error('Failed to initialize debug utilities:', error));
 }
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <WebSocketProvider>
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<App />} />
-          {isDevelopmentMode() && <Route path="/websockettest" element={<WebSocketTestPage />} />}
-        </Routes>
-      </BrowserRouter>
-    </WebSocketProvider>
-  </StrictMode>,
-)
+/**
+ * Render the app
+ */
+const renderApp = () => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <WebSocketProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<App />} />
+            {isDevelopmentMode() && <Route path="/websockettest" element={<WebSocketTestPage />} />}
+          </Routes>
+        </BrowserRouter>
+      </WebSocketProvider>
+    </StrictMode>,
+  )
+}
+
+// Resolve WebSocket endpoints (env, config.json, URL query) before connecting;
+// if that fails, start with the endpoints from the env
+loadWebSocketConfig()
+  .catch(error => appLogger.error('Failed to load WebSocket config, using the built-in endpoints:', error))
+  .then(renderApp)
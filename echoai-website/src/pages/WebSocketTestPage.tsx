@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import DashAudioPlayer from '../components/DashAudioPlayer';
 import { WebSocketDebugger } from '../components/debug/WebSocketDebugger';
+import { FileRunPanel } from '../components/debug/FileRunPanel';
 import { Link } from 'react-router-dom';
 import { useWebSocket } from '../contexts/WebSocketContext';
 import { networkLoggers } from '../utils/LoggerFactory';
-import { DEFAULT_WS_URL } from '../config';
+import { getEndpointUrl } from '../config';
 
 const WebSocketTestPage: React.FC = () => {
-  const [wsUrl, setWsUrl] = useState<string>(DEFAULT_WS_URL);
+  const [wsUrl, setWsUrl] = useState<string>(() => getEndpointUrl());
   const [isInitializing, setIsInitializing] = useState<boolean>(true);
   const { connectionState, connect, isConnected } = useWebSocket();
   
@@ -75,7 +76,7 @@ const WebSocketTestPage: React.FC = () => {
               value={wsUrl}
               onChange={(e) => setWsUrl(e.target.value)}
               className="flex-grow p-2 rounded bg-gray-700 border border-gray-600 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder={DEFAULT_WS_URL}
+              placeholder={getEndpointUrl()}
               disabled={isInitializing}
             />
           </div>
@@ -95,6 +96,7 @@ const WebSocketTestPage: React.FC = () => {
                 url="https://a.files.bbci.co.uk/ms6/live/3441A116-B12E-4D2F-ACA8-C1984642FA4B/audio/simulcast/dash/nonuk/pc_hd_abr_v2/cfsgc/bbc_world_service_news_internet.mpd"
                 streamingEnabled={true}
                 streamingUrl={wsUrl} 
+                showTargetLanguage={true}
                 onStreamingStatusChange={(status, message) => {
                   networkLoggers.websocket.info(`Streaming status: ${status}`, message);
                 }}
@@ -104,6 +106,11 @@ const WebSocketTestPage: React.FC = () => {
               </p>
             </section>
             
+            {/* Local file run */}
+            <section>
+              <FileRunPanel />
+            </section>
+            
             {/* WebSocketDebugger */}
             <section>
               <WebSocketDebugger initialUrl={wsUrl} />
@@ -1,8 +1,10 @@
 /**
  * WebSocketManager
  * 
- * A singleton manager for WebSocket connections that ensures a single 
- * instance is used throughout the application for both testing and sending messages.
+ * A singleton registry of named WebSocket connections. Each name maps to its
+ * own WebSocketService with independent options, so the application can e.g.
+ * stream audio to one server while receiving captions from another. Callers
+ * that don't pass a name share the default service.
  */
 
 import { 
@@ -15,12 +17,22 @@ import {
   LogCategory
 } from './index';
 import { logger } from './WebSocketLogger';
-import { DEFAULT_WS_URL } from '../../config';
+import { getEndpointUrl } from '../../config';
+
+/**
+ * Name of the service used when no name is given
+ */
+export const DEFAULT_SERVICE_NAME = 'default';
+
+/**
+ * Listener for services being added to, replaced in or removed from the registry
+ */
+export type ServicesChangeListener = (names: string[]) => void;
 
 export class WebSocketManager {
   private static instance: WebSocketManager;
-  private webSocketService: WebSocketService | null = null;
-  private url: string = DEFAULT_WS_URL;
+  private services: Map<string, { service: WebSocketService; url: string }> = new Map();
+  private servicesChangeListeners: Set<ServicesChangeListener> = new Set();
   
   /**
    * Private constructor to enforce the singleton pattern
@@ -41,26 +53,29 @@ export class WebSocketManager {
   }
   
   /**
-   * Initialize or return the WebSocketService with the given URL
-   * @param url WebSocket server URL (optional, uses default if not provided)
-   * @param options WebSocket configuration options
+   * Initialize or return the named WebSocketService with the given URL
+   * A service that exists under the name with another URL is disconnected and replaced.
+   * @param url WebSocket server URL (optional, uses the service's current URL, else the endpoint of the same name or the default endpoint)
+   * @param options WebSocket configuration options, used when the service is created
+   * @param name Name of the service
    * @returns The WebSocketService instance
    */
-  public getService(url?: string, options?: Partial<WebSocketOptions>): WebSocketService {
+  public getService(url?: string, options?: Partial<WebSocketOptions>, name: string = DEFAULT_SERVICE_NAME): WebSocketService {
+    const existing = this.services.get(name);
+    
     // Use provided URL or fall back to existing/default
-    const serverUrl = url || this.url;
+    const serverUrl = url || existing?.url || getEndpointUrl(name === DEFAULT_SERVICE_NAME ? undefined : name);
     
     // If service exists and URL matches, reuse it
-    if (this.webSocketService && this.url === serverUrl) {
-      logger.debug(LogCategory.WS, 'Reusing existing WebSocketService', { url: serverUrl });
-      return this.webSocketService;
+    if (existing && existing.url === serverUrl) {
+      logger.debug(LogCategory.WS, 'Reusing existing WebSocketService', { name, url: serverUrl });
+      return existing.service;
     }
     
     // Clean up any existing service
-    if (this.webSocketService) {
-      logger.info(LogCategory.WS, 'Cleaning up previous WebSocketService', { oldUrl: this.url, newUrl: serverUrl });
-      this.webSocketService.disconnect();
-      this.webSocketService = null;
+    if (existing) {
+      logger.info(LogCategory.WS, 'Cleaning up previous WebSocketService', { name, oldUrl: existing.url, newUrl: serverUrl });
+      existing.service.disconnect();
     }
     
     // Create new service with provided options
@@ -70,29 +85,86 @@ export class WebSocketManager {
       url: serverUrl
     };
     
-    logger.info(LogCategory.WS, 'Creating new WebSocketService', { url: serverUrl });
-    this.webSocketService = new WebSocketService(fullOptions);
-    this.url = serverUrl;
+    logger.info(LogCategory.WS, 'Creating new WebSocketService', { name, url: serverUrl });
+    const service = new WebSocketService(fullOptions);
+    this.services.set(name, { service, url: serverUrl });
+    this.notifyServicesChange();
+    
+    return service;
+  }
+  
+  /**
+   * Get the named service or create one with default settings
+   * @param name Name of the service
+   * @returns The WebSocketService
+   */
+  public getActiveService(name: string = DEFAULT_SERVICE_NAME): WebSocketService {
+    return this.services.get(name)?.service || this.getService(undefined, undefined, name);
+  }
+  
+  /**
+   * Look up a service without creating it
+   * @param name Name of the service
+   * @returns The WebSocketService, or null if there is none with that name
+   */
+  public findService(name: string = DEFAULT_SERVICE_NAME): WebSocketService | null {
+    return this.services.get(name)?.service ?? null;
+  }
+  
+  /**
+   * Get the URL of a service
+   * @param name Name of the service
+   * @returns The URL, or null if there is no service with that name
+   */
+  public getUrl(name: string = DEFAULT_SERVICE_NAME): string | null {
+    return this.services.get(name)?.url ?? null;
+  }
+  
+  /**
+   * Get the names of all registered services
+   * @returns The service names in registration order
+   */
+  public getServiceNames(): string[] {
+    return Array.from(this.services.keys());
+  }
+  
+  /**
+   * Disconnect a service and remove it from the registry
+   * @param name Name of the service
+   */
+  public removeService(name: string): void {
+    const entry = this.services.get(name);
+    if (!entry) {
+      return;
+    }
     
-    return this.webSocketService;
+    logger.info(LogCategory.WS, 'Removing WebSocketService', { name, url: entry.url });
+    entry.service.disconnect();
+    this.services.delete(name);
+    this.notifyServicesChange();
   }
   
   /**
-   * Get the current active WebSocketService or create one with default settings
-   * @returns The active WebSocketService
+   * Be notified when services are added, replaced or removed
+   * @param listener Called with the current service names
+   * @returns A function that removes the listener
    */
-  public getActiveService(): WebSocketService {
-    return this.webSocketService || this.getService();
+  public onServicesChange(listener: ServicesChangeListener): () => void {
+    this.servicesChangeListeners.add(listener);
+    return () => {
+      this.servicesChangeListeners.delete(listener);
+    };
   }
   
   /**
    * Connect to the WebSocket server
    * @param url Optional WebSocket URL (uses current/default if not provided)
    * @param options Optional WebSocket configuration options
+   * @param name Name of the service
    * @returns Promise that resolves when connected
    */
-  public async connect(url?: string, options?: Partial<WebSocketOptions>): Promise<void> {
-    const service = this.getService(url, options);
+  public async connect(url?: string, options?: Partial<WebSocketOptions>, name: string = DEFAULT_SERVICE_NAME): Promise<void> {
+    const service = this.getService(url, options, name);
     return service.connect();
   }
   
@@ -100,11 +172,19 @@ export class WebSocketManager {
    * Disconnect from the WebSocket server
    * @param code Close code
    * @param reason Close reason
+   * @param name Name of the service
    */
-  public disconnect(code: number = 1000, reason: string = 'Normal closure'): void {
-    if (this.webSocketService) {
-      this.webSocketService.disconnect(code, reason);
-    }
+  public disconnect(code: number = 1000, reason: string = 'Normal closure', name: string = DEFAULT_SERVICE_NAME): void {
+    this.services.get(name)?.service.disconnect(code, reason);
+  }
+  
+  /**
+   * Disconnect all services
+   * @param code Close code
+   * @param reason Close reason
+   */
+  public disconnectAll(code = 1000, reason = 'Normal closure'): void {
+    this.services.forEach(({ service }) => service.disconnect(code, reason));
   }
   
   /**
@@ -112,10 +192,11 @@ export class WebSocketManager {
    * @param data Message data to send
    * @param priority Message priority (lower number = higher priority)
    * @param retry Whether to retry sending on failure
+   * @param name Name of the service
    * @returns Promise that resolves when sent or queued
    */
-  public send(data: string | ArrayBuffer | Blob, priority: number = 10, retry: boolean = true): Promise<void> {
-    const service = this.getActiveService();
+  public send(data: string | ArrayBuffer | Blob, priority: number = 10, retry: boolean = true, name: string = DEFAULT_SERVICE_NAME): Promise<void> {
+    const service = this.getActiveService(name);
     return service.send(data, priority, retry);
   }
   
@@ -123,9 +204,10 @@ export class WebSocketManager {
    * Register an event handler for WebSocket events
    * @param type Event type
    * @param handler Event handler function
+   * @param name Name of the service
    */
-  public on(type: WebSocketEventType, handler: WebSocketEventHandler): void {
-    const service = this.getActiveService();
+  public on(type: WebSocketEventType, handler: WebSocketEventHandler, name: string = DEFAULT_SERVICE_NAME): void {
+    const service = this.getActiveService(name);
     service.on(type, handler);
   }
   
@@ -133,45 +215,62 @@ export class WebSocketManager {
    * Remove an event handler for WebSocket events
    * @param type Event type
    * @param handler Event handler function
+   * @param name Name of the service
    */
-  public off(type: WebSocketEventType, handler: WebSocketEventHandler): void {
-    if (this.webSocketService) {
-      this.webSocketService.off(type, handler);
-    }
+  public off(type: WebSocketEventType, handler: WebSocketEventHandler, name: string = DEFAULT_SERVICE_NAME): void {
+    this.services.get(name)?.service.off(type, handler);
   }
   
   /**
    * Check if WebSocket is currently connected
+   * @param name Name of the service
    * @returns True if connected, false otherwise
    */
-  public isConnected(): boolean {
-    return this.webSocketService ? this.webSocketService.isConnected() : false;
+  public isConnected(name: string = DEFAULT_SERVICE_NAME): boolean {
+    return this.services.get(name)?.service.isConnected() ?? false;
   }
   
   /**
    * Get the current connection state
+   * @param name Name of the service
    * @returns Current connection state or DISCONNECTED if no service
    */
-  public getState(): ConnectionState {
-    return this.webSocketService ? this.webSocketService.getState() : ConnectionState.DISCONNECTED;
+  public getState(name: string = DEFAULT_SERVICE_NAME): ConnectionState {
+    return this.services.get(name)?.service.getState() ?? ConnectionState.DISCONNECTED;
   }
   
   /**
    * Get detailed connection health information
+   * @param name Name of the service
    * @returns Connection health object
    */
-  public getConnectionHealth() {
-    if (!this.webSocketService) {
+  public getConnectionHealth(name: string = DEFAULT_SERVICE_NAME) {
+    const entry = this.services.get(name);
+    if (!entry) {
       return {
         connected: false,
         state: ConnectionState.DISCONNECTED,
         socketState: null,
         queueLength: 0,
-        info: 'No WebSocketService instance exists'
+        info: `No WebSocketService named "${name}" exists`
       };
     }
     
-    return this.webSocketService.getConnectionHealth();
+    return entry.service.getConnectionHealth();
+  }
+  
+  /**
+   * Notify listeners of the current service names
+   */
+  private notifyServicesChange(): void {
+    const names = this.getServiceNames();
+    this.servicesChangeListeners.forEach(listener => {
+      try {
+        listener(names);
+      } catch (error) {
+        logger.error(LogCategory.ERROR, 'Error in services change listener', error);
+      }
+    });
   }
   
   /**
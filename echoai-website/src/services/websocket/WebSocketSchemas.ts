@@ -4,15 +4,72 @@
  * This file documents all WebSocket message schemas used in communication
  * with the server. Maintaining accurate schema definitions is crucial for compatibility.
  * 
+ * Schemas are declared with the schema builders in ./schema, and the message
+ * types are inferred from them. Every message type is registered in
+ * outgoingMessages or incomingMessages, which validate messages and report
+ * rejected ones through the Logger.
+ * 
  * Categories:
  * - Outgoing messages (client → server)
  * - Incoming messages (server → client)
  */
 
+import { schema, Infer } from './schema/Schema';
+import { MessageRegistry, MessageValidationOptions } from './schema/MessageRegistry';
+
+/**
+ * ------------- PROTOCOL VERSION -------------
+ */
+
+/**
+ * Protocol version spoken by this client
+ * Bump it whenever a message schema changes incompatibly.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Oldest protocol version this client can still speak
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
 /**
  * ------------- OUTGOING MESSAGE SCHEMAS (Client → Server) -------------
  */
 
+/**
+ * Hello Message Schema (Outgoing)
+ * 
+ * Sent right after the socket opens, before any other message. The server
+ * answers with hello_ack; audio, config and target_language messages are
+ * held back until then.
+ * 
+ * Example:
+ * {
+ *   "type": "hello",
+ *   "protocol_version": 1,
+ *   "min_protocol_version": 1,
+ *   "audio_formats": ["int16", "opus"],
+ *   "sample_rates": [16000, 48000],
+ *   "capabilities": ["binary_frames", "opus", "target_language", "heartbeat"]
+ * }
+ * 
+ * - protocol_version: Newest protocol version the client speaks
+ * - min_protocol_version: Oldest protocol version the client speaks
+ * - audio_formats: Audio payload formats the client can send
+ * - sample_rates: Sample rates the client can send, in Hz
+ * - capabilities: Optional protocol features the client supports
+ */
+export const outgoingHelloMessage = schema.object({
+  type: schema.literal('hello'),
+  protocol_version: schema.number(),
+  min_protocol_version: schema.number(),
+  audio_formats: schema.array(schema.enum(['int16', 'float32', 'opus'] as const)),
+  sample_rates: schema.array(schema.number()),
+  capabilities: schema.array(schema.string())
+});
+
+export type OutgoingHelloMessageSchema = Infer<typeof outgoingHelloMessage>;
+
 /**
  * Audio Message Schema (Outgoing)
  * 
@@ -23,20 +80,29 @@
  * {
  *   "type": "audio",
  *   "value": "KIz4vrJaIz8GmGy/EQtEP1uoXT1P0fC+...",  // Base64 encoded audio data
- *   "sample_rate": 16000
+ *   "sample_rate": 16000,
+ *   "format": "int16",
+ *   "seq": 42
  * }
  * 
  * - type: Must be exactly "audio"
  * - value: Base64 encoded audio data
  * - sample_rate: Sample rate in Hz (typically 16000)
+ * - format: Payload codec of this message; PCM can still follow an Opus config,
+ *   e.g. before the encoder is ready, after a reconnect or for replayed chunks
+ * - seq: Sequence number of the chunk in the session (optional; binary frames carry it in the header)
  * 
  * Note: The field name is "sample_rate" (snake_case), not "sampleRate" (camelCase)
  */
-export interface OutgoingAudioMessageSchema {
-  type: "audio";
-  value: string;  // Base64 encoded audio data
-  sample_rate: number;
-}
+export const outgoingAudioMessage = schema.object({
+  type: schema.literal('audio'),
+  value: schema.string(),  // Base64 encoded audio data
+  sample_rate: schema.number(),
+  format: schema.enum(['int16', 'opus'] as const),
+  seq: schema.number().optional()
+});
+
+export type OutgoingAudioMessageSchema = Infer<typeof outgoingAudioMessage>;
 
 /**
  * Target Language Change Message Schema (Outgoing)
@@ -49,31 +115,231 @@ export interface OutgoingAudioMessageSchema {
  *   "language": "fr"  // 2-letter language code
  * }
  */
-export interface OutgoingTargetLanguageMessageSchema {
-  type: "target_language";
-  language: string;  // 2-letter language code
-}
+export const outgoingTargetLanguageMessage = schema.object({
+  type: schema.literal('target_language'),
+  language: schema.string().refine(language => language.length === 2, 'Expected a 2-letter language code')
+});
+
+export type OutgoingTargetLanguageMessageSchema = Infer<typeof outgoingTargetLanguageMessage>;
+
+/**
+ * Config Message Schema (Outgoing)
+ * 
+ * Sent after connecting to describe the audio stream and request a wire format
+ * and codec. The server answers with a config_ack message. Until then audio is
+ * sent as JSON audio messages with Int16 PCM.
+ * 
+ * Example:
+ * {
+ *   "type": "config",
+ *   "sample_rate": 48000,
+ *   "channels": 1,
+ *   "format": "int16",
+ *   "message_format": "binary"
+ * }
+ * 
+ * When "binary" is acknowledged, audio is sent as binary frames: a 20-byte
+ * header (version, payload format, channels, sequence number, timestamp,
+ * sample rate) followed by raw little-endian PCM. See BINARY_FRAME_HEADER_SIZE
+ * in audio/types.ts for the exact layout.
+ * 
+ * When format "opus" is acknowledged, the audio payload (the binary frame
+ * payload, or the base64 "value" of JSON audio messages) is a sequence of
+ * Opus packets, each prefixed with its length as a little-endian uint16.
+ * sample_rate is then the Opus encoding rate.
+ */
+export const outgoingConfigMessage = schema.object({
+  type: schema.literal('config'),
+  sample_rate: schema.number(),
+  channels: schema.number(),
+  format: schema.enum(['int16', 'float32', 'opus'] as const),
+  message_format: schema.enum(['binary', 'json'] as const)
+});
+
+export type OutgoingConfigMessageSchema = Infer<typeof outgoingConfigMessage>;
+
+/**
+ * Resume Message Schema (Outgoing)
+ * 
+ * Sent after a reconnect, before any audio, to continue the session of the
+ * previous connection. The server answers with resume_ack. Audio captured
+ * meanwhile is held back until then.
+ * 
+ * Example:
+ * {
+ *   "type": "resume",
+ *   "session_id": "b3f1c2",
+ *   "last_acked_seq": 41
+ * }
+ * 
+ * - session_id: Session ID from the previous connection's hello_ack
+ * - last_acked_seq: Highest sequence number the server acknowledged (-1 if none)
+ */
+export const outgoingResumeMessage = schema.object({
+  type: schema.literal('resume'),
+  session_id: schema.string(),
+  last_acked_seq: schema.number()
+});
+
+export type OutgoingResumeMessageSchema = Infer<typeof outgoingResumeMessage>;
+
+/**
+ * Auth Message Schema (Outgoing)
+ * 
+ * Carries the access token when the auth provider uses the 'message'
+ * transport; it is then the first message of every connection. If the server
+ * lists the auth_refresh capability, refreshed tokens are sent this way on the
+ * open connection with any transport.
+ * 
+ * Example:
+ * {
+ *   "type": "auth",
+ *   "token": "eyJhbGciOi..."
+ * }
+ */
+export const outgoingAuthMessage = schema.object({
+  type: schema.literal('auth'),
+  token: schema.string()
+});
+
+export type OutgoingAuthMessageSchema = Infer<typeof outgoingAuthMessage>;
 
 /**
  * Heartbeat Message Schema (Outgoing)
  * 
  * Used to keep the connection alive and verify server responsiveness.
- * Note: Currently, the server does not respond to heartbeat messages,
- * but the client still sends them to maintain the connection.
+ * A server that answers with heartbeat_response echoes timestamp as
+ * client_timestamp, which lets the client measure latency and clock offset.
+ * Servers that don't answer still keep the connection alive.
  */
-export interface OutgoingHeartbeatMessageSchema {
-  type: "heartbeat";
-  timestamp: number;
-}
+export const outgoingHeartbeatMessage = schema.object({
+  type: schema.literal('heartbeat'),
+  timestamp: schema.number()
+});
+
+export type OutgoingHeartbeatMessageSchema = Infer<typeof outgoingHeartbeatMessage>;
+
+/**
+ * Voice Activity Message Schema (Outgoing)
+ * 
+ * Sent when voice activity detection flags the stream and the speech state
+ * changes. The state applies from the audio chunk with sequence number seq on,
+ * in both JSON and binary audio.
+ * 
+ * Example:
+ * {
+ *   "type": "vad",
+ *   "speech": false,
+ *   "seq": 57
+ * }
+ * 
+ * - speech: Whether the following audio contains speech
+ * - seq: Sequence number of the first audio chunk the state applies to
+ */
+export const outgoingVadMessage = schema.object({
+  type: schema.literal('vad'),
+  speech: schema.boolean(),
+  seq: schema.number()
+});
+
+export type OutgoingVadMessageSchema = Infer<typeof outgoingVadMessage>;
 
 /**
  * ------------- INCOMING MESSAGE SCHEMAS (Server → Client) -------------
  */
 
+/**
+ * Hello Acknowledgement Schema (Incoming)
+ * 
+ * Server response to a hello message, stating the protocol version it will
+ * speak on this connection. If that version is outside the range announced by
+ * the client, the client closes the connection and does not reconnect.
+ * 
+ * Example:
+ * {
+ *   "type": "hello_ack",
+ *   "protocol_version": 1,
+ *   "capabilities": ["binary_frames", "opus"],
+ *   "session_id": "b3f1c2"
+ * }
+ * 
+ * - capabilities: Optional protocol features the server enabled (defaults to none)
+ * - session_id: ID of the transcript session started for this connection; a
+ *   server without session support omits it, and the client then never resumes
+ */
+export const incomingHelloAck = schema.object({
+  type: schema.literal('hello_ack'),
+  protocol_version: schema.number(),
+  capabilities: schema.array(schema.string()).optional(),
+  session_id: schema.string().optional()
+});
+
+export type IncomingHelloAckSchema = Infer<typeof incomingHelloAck>;
+
+/**
+ * Resume Acknowledgement Schema (Incoming)
+ * 
+ * Server response to a resume message. If resumed is true, the connection
+ * continues the requested session and the client resends its buffered audio
+ * from next_seq on. Otherwise the connection keeps the new session from its
+ * hello_ack and the client resends all buffered audio.
+ * 
+ * Example:
+ * {
+ *   "type": "resume_ack",
+ *   "session_id": "b3f1c2",
+ *   "resumed": true,
+ *   "next_seq": 43
+ * }
+ * 
+ * - session_id: The session the connection now belongs to
+ * - next_seq: Sequence number of the first chunk the server hasn't received
+ */
+export const incomingResumeAck = schema.object({
+  type: schema.literal('resume_ack'),
+  session_id: schema.string(),
+  resumed: schema.boolean(),
+  next_seq: schema.number()
+});
+
+export type IncomingResumeAckSchema = Infer<typeof incomingResumeAck>;
+
+/**
+ * Audio Acknowledgement Schema (Incoming)
+ * 
+ * Sent by the server as it receives audio. Acknowledgements are cumulative:
+ * every chunk up to and including seq that the client sent has arrived, so
+ * the client can drop those chunks from its replay buffer.
+ * 
+ * If both sides announced the "flow_control" capability, the client sends at
+ * most a window of unacknowledged frames. The server sets that window with
+ * credit. A server that grants a credit of 0 has to send another audio_ack
+ * with credit once it can accept frames again.
+ * 
+ * Example:
+ * {
+ *   "type": "audio_ack",
+ *   "seq": 42,
+ *   "credit": 8
+ * }
+ * 
+ * - credit: Frames the client may have in flight from now on (optional; the window is unchanged if missing)
+ */
+export const incomingAudioAck = schema.object({
+  type: schema.literal('audio_ack'),
+  seq: schema.number(),
+  credit: schema.number().optional()
+});
+
+export type IncomingAudioAckSchema = Infer<typeof incomingAudioAck>;
+
 /**
  * Heartbeat Response Schema (Incoming)
  * 
- * Server response to client heartbeat messages.
+ * Server response to client heartbeat messages. The client derives the
+ * round-trip time and the offset between its clock and the server's from them
+ * (see core/ClockSync.ts), assuming server_timestamp is taken halfway through
+ * the round trip.
  * 
  * Example:
  * {
@@ -82,30 +348,147 @@ export interface OutgoingHeartbeatMessageSchema {
  *   "client_timestamp": 1617293476123   // Original timestamp sent by the client
  * }
  */
-export interface IncomingHeartbeatResponseSchema {
-  type: "heartbeat_response";
-  server_timestamp: number;
-  client_timestamp: number | null;
-}
+export const incomingHeartbeatResponse = schema.object({
+  type: schema.literal('heartbeat_response'),
+  server_timestamp: schema.number(),
+  client_timestamp: schema.number().nullable()
+});
+
+export type IncomingHeartbeatResponseSchema = Infer<typeof incomingHeartbeatResponse>;
+
+/**
+ * Config Acknowledgement Schema (Incoming)
+ * 
+ * Server response to a config message, stating the wire format and codec it accepts.
+ * A missing format means the server only accepts Int16 PCM.
+ * 
+ * Example:
+ * {
+ *   "type": "config_ack",
+ *   "message_format": "binary",
+ *   "format": "opus"
+ * }
+ */
+export const incomingConfigAck = schema.object({
+  type: schema.literal('config_ack'),
+  message_format: schema.enum(['binary', 'json'] as const),
+  format: schema.enum(['int16', 'float32', 'opus'] as const).optional()
+});
+
+export type IncomingConfigAckSchema = Infer<typeof incomingConfigAck>;
+
+/**
+ * Target Language Acknowledgement Schema (Incoming)
+ * 
+ * Server response to a target_language message, stating the language it will
+ * translate into. This may differ from the requested language if the server
+ * doesn't support it.
+ * 
+ * Example:
+ * {
+ *   "type": "target_language_ack",
+ *   "language": "fr"
+ * }
+ */
+export const incomingTargetLanguageAck = schema.object({
+  type: schema.literal('target_language_ack'),
+  language: schema.string()
+});
+
+export type IncomingTargetLanguageAckSchema = Infer<typeof incomingTargetLanguageAck>;
 
 /**
  * Translation Message Schema (Incoming)
  * 
- * Received from the server after translating text.
+ * Received from the server after translating text. This is the only message
+ * without a type field; it is registered as "translation".
  * 
  * Example:
  * {
  *   "text": "Hello, how are you?",
  *   "source_language": "en",
- *   "target_language": "fr"
+ *   "target_language": "fr",
+ *   "start_timestamp": 1617293476123
  * }
+ * 
+ * - start_timestamp: Server time the translated speech started (ms since epoch,
+ *   optional). The client converts it to its own clock with the offset measured
+ *   by heartbeats, so captions line up with playback instead of arrival.
+ */
+export const incomingTranslationMessage = schema.object({
+  text: schema.string(),
+  source_language: schema.string(),
+  target_language: schema.string(),
+  start_timestamp: schema.number().optional()
+});
+
+export type IncomingTranslationMessageSchema = Infer<typeof incomingTranslationMessage>;
+
+/**
+ * ------------- MESSAGE REGISTRIES -------------
  */
-export interface IncomingTranslationMessageSchema {
-  text: string;
-  source_language: string;
-  target_language: string;
+
+/**
+ * Outgoing message schemas keyed by type
+ */
+export const OUTGOING_MESSAGE_SCHEMAS = {
+  hello: outgoingHelloMessage,
+  audio: outgoingAudioMessage,
+  target_language: outgoingTargetLanguageMessage,
+  config: outgoingConfigMessage,
+  resume: outgoingResumeMessage,
+  auth: outgoingAuthMessage,
+  heartbeat: outgoingHeartbeatMessage,
+  vad: outgoingVadMessage
+};
+
+/**
+ * Incoming message schemas keyed by type
+ */
+export const INCOMING_MESSAGE_SCHEMAS = {
+  hello_ack: incomingHelloAck,
+  resume_ack: incomingResumeAck,
+  audio_ack: incomingAudioAck,
+  heartbeat_response: incomingHeartbeatResponse,
+  config_ack: incomingConfigAck,
+  target_language_ack: incomingTargetLanguageAck,
+  translation: incomingTranslationMessage
+};
+
+export type OutgoingMessageSchemaMap = typeof OUTGOING_MESSAGE_SCHEMAS;
+export type IncomingMessageSchemaMap = typeof INCOMING_MESSAGE_SCHEMAS;
+
+export type OutgoingMessageType = keyof OutgoingMessageSchemaMap;
+export type IncomingMessageType = keyof IncomingMessageSchemaMap;
+
+/**
+ * The message type registered under an incoming type, e.g. IncomingMessageOf<'config_ack'>
+ */
+export type IncomingMessageOf<K extends IncomingMessageType> = Infer<IncomingMessageSchemaMap[K]>;
+
+/**
+ * Get the registered type of an incoming message
+ * Translation messages have no type field and are recognized by their text.
+ * @param message The message
+ * @returns The type, or null if it can't be determined
+ */
+function resolveIncomingType(message: Record<string, unknown>): string | null {
+  if (typeof message.type === 'string') {
+    return message.type;
+  }
+  return 'text' in message ? 'translation' : null;
 }
 
+/**
+ * Registry of all messages sent to the server
+ */
+export const outgoingMessages = new MessageRegistry('outgoing', OUTGOING_MESSAGE_SCHEMAS);
+
+/**
+ * Registry of all messages received from the server
+ */
+export const incomingMessages = new MessageRegistry('incoming', INCOMING_MESSAGE_SCHEMAS, resolveIncomingType);
+
 /**
  * ------------- TYPE ALIASES FOR CONVENIENCE -------------
  */
@@ -114,15 +497,25 @@ export interface IncomingTranslationMessageSchema {
  * All outgoing message types combined
  */
 export type OutgoingWebSocketMessage = 
+  | OutgoingHelloMessageSchema
   | OutgoingAudioMessageSchema
   | OutgoingTargetLanguageMessageSchema
-  | OutgoingHeartbeatMessageSchema;
+  | OutgoingConfigMessageSchema
+  | OutgoingResumeMessageSchema
+  | OutgoingAuthMessageSchema
+  | OutgoingHeartbeatMessageSchema
+  | OutgoingVadMessageSchema;
 
 /**
  * All incoming message types combined
  */
 export type IncomingWebSocketMessage = 
+  | IncomingHelloAckSchema
+  | IncomingResumeAckSchema
+  | IncomingAudioAckSchema
   | IncomingHeartbeatResponseSchema
+  | IncomingConfigAckSchema
+  | IncomingTargetLanguageAckSchema
   | IncomingTranslationMessageSchema;
 
 /**
@@ -134,14 +527,8 @@ export type IncomingWebSocketMessage =
  * @param message The message to validate
  * @returns Whether the message is valid
  */
-export function validateOutgoingAudioSchema(message: any): boolean {
-  return (
-    typeof message === 'object' &&
-    message !== null &&
-    message.type === 'audio' &&
-    typeof message.value === 'string' &&
-    typeof message.sample_rate === 'number'
-  );
+export function validateOutgoingAudioSchema(message: unknown): message is OutgoingAudioMessageSchema {
+  return outgoingMessages.is('audio', message);
 }
 
 /**
@@ -149,27 +536,122 @@ export function validateOutgoingAudioSchema(message: any): boolean {
  * @param message The message to validate
  * @returns Whether the message is valid
  */
-export function validateOutgoingTargetLanguageSchema(message: any): boolean {
-  return (
-    typeof message === 'object' &&
-    message !== null &&
-    message.type === 'target_language' &&
-    typeof message.language === 'string' &&
-    message.language.length === 2
-  );
+export function validateOutgoingTargetLanguageSchema(message: unknown): message is OutgoingTargetLanguageMessageSchema {
+  return outgoingMessages.is('target_language', message);
+}
+
+/**
+ * Validate that a message follows the required config schema
+ * @param message The message to validate
+ * @returns Whether the message is valid
+ */
+export function validateOutgoingConfigSchema(message: unknown): message is OutgoingConfigMessageSchema {
+  return outgoingMessages.is('config', message);
+}
+
+/**
+ * Validate that a message follows the incoming translation schema
+ * @param message The message to validate
+ * @returns Whether the message is valid
+ */
+export function validateIncomingTranslationSchema(message: unknown): message is IncomingTranslationMessageSchema {
+  return incomingMessages.is('translation', message);
+}
+
+/**
+ * Helper function to create a hello message
+ * @param hello What the client supports
+ * @returns A properly formatted hello message
+ */
+export function createHelloMessage(hello: {
+  audioFormats: ('int16' | 'float32' | 'opus')[];
+  sampleRates: number[];
+  capabilities: string[];
+}): OutgoingHelloMessageSchema {
+  return {
+    type: "hello",
+    protocol_version: PROTOCOL_VERSION,
+    min_protocol_version: MIN_PROTOCOL_VERSION,
+    audio_formats: hello.audioFormats,
+    sample_rates: hello.sampleRates,
+    capabilities: hello.capabilities
+  };
+}
+
+/**
+ * Check whether this client can speak a protocol version
+ * @param version The version the server chose
+ * @returns True if the version is within MIN_PROTOCOL_VERSION and PROTOCOL_VERSION
+ */
+export function isSupportedProtocolVersion(version: number): boolean {
+  return version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
 }
 
 /**
  * Helper function to create an audio message
  * @param audioData Base64 encoded audio data
  * @param sampleRate Sample rate of the audio
+ * @param seq Sequence number of the chunk (omitted if undefined)
+ * @param format Payload codec of the audio data
  * @returns A properly formatted audio message
  */
-export function createAudioMessage(audioData: string, sampleRate: number): OutgoingAudioMessageSchema {
-  return {
+export function createAudioMessage(
+  audioData: string,
+  sampleRate: number,
+  seq?: number,
+  format: 'int16' | 'opus' = 'int16'
+): OutgoingAudioMessageSchema {
+  const message: OutgoingAudioMessageSchema = {
     type: "audio",
     value: audioData,
-    sample_rate: sampleRate
+    sample_rate: sampleRate,
+    format
+  };
+  
+  if (seq !== undefined) {
+    message.seq = seq;
+  }
+  
+  return message;
+}
+
+/**
+ * Helper function to create a resume message
+ * @param sessionId Session ID of the previous connection
+ * @param lastAckedSeq Highest acknowledged sequence number (-1 if none)
+ * @returns A properly formatted resume message
+ */
+export function createResumeMessage(sessionId: string, lastAckedSeq: number): OutgoingResumeMessageSchema {
+  return {
+    type: "resume",
+    session_id: sessionId,
+    last_acked_seq: lastAckedSeq
+  };
+}
+
+/**
+ * Helper function to create a voice activity message
+ * @param speech Whether the following audio contains speech
+ * @param seq Sequence number of the first audio chunk the state applies to
+ * @returns A properly formatted voice activity message
+ */
+export function createVadMessage(speech: boolean, seq: number): OutgoingVadMessageSchema {
+  return {
+    type: "vad",
+    speech,
+    seq
+  };
+}
+
+/**
+ * Helper function to create an auth message
+ * @param token Access token
+ * @returns A properly formatted auth message
+ */
+export function createAuthMessage(token: string): OutgoingAuthMessageSchema {
+  return {
+    type: "auth",
+    token
   };
 }
 
@@ -185,42 +667,37 @@ export function createTargetLanguageMessage(languageCode: string): OutgoingTarge
   };
 }
 
+/**
+ * Helper function to create a config message
+ * @param config The audio configuration to announce
+ * @returns A properly formatted config message
+ */
+export function createConfigMessage(config: {
+  sampleRate: number;
+  channels: number;
+  format: 'int16' | 'float32' | 'opus';
+  messageFormat?: 'binary' | 'json';
+}): OutgoingConfigMessageSchema {
+  return {
+    type: "config",
+    sample_rate: config.sampleRate,
+    channels: config.channels,
+    format: config.format,
+    message_format: config.messageFormat || 'json'
+  };
+}
+
 /**
  * Parse and validate an incoming message from the server
+ * Rejected messages are logged with the reason and the failing fields.
  * @param data The raw message data (string or object)
- * @returns The parsed message or null if invalid
- */
-export function parseIncomingMessage(data: string | object): any {
-  try {
-    const message = typeof data === 'string' ? JSON.parse(data) : data;
-    
-    if (typeof message !== 'object' || message === null || !message.type) {
-      // Special case for translation messages which don't have a type field
-      if (typeof message === 'object' && message !== null && 
-          message.text && message.source_language && message.target_language) {
-        return message as IncomingTranslationMessageSchema;
-      }
-      
-      console.error('Invalid message format: missing type property', message);
-      return null;
-    }
-    
-    // Validate based on message type
-    switch (message.type) {
-      case 'heartbeat_response':
-        if (typeof message.server_timestamp !== 'number') {
-          console.error('Invalid heartbeat response: missing server_timestamp field', message);
-          return null;
-        }
-        break;
-        
-      default:
-        console.warn('Unknown message type:', message.type);
-    }
-    
-    return message;
-  } catch (error) {
-    console.error('Error parsing message:', error);
-    return null;
-  }
-} 
\ No newline at end of file
+ * @param options Validation options; strict also logs messages of unknown types
+ * @returns The parsed message, or null if it is invalid or of an unknown type
+ */
+export function parseIncomingMessage(
+  data: string | object,
+  options: MessageValidationOptions = {}
+): IncomingWebSocketMessage | null {
+  const result = incomingMessages.parse(data, options);
+  return result.valid && result.typed ? result.typed.message : null;
+}
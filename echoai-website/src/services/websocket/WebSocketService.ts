@@ -10,16 +10,25 @@ import {
   WebSocketOptions, 
   DEFAULT_OPTIONS,
   WebSocketEventType,
-  WebSocketEventHandler
+  WebSocketEventHandler,
+  ProtocolHandshake,
+  ProtocolVersionMismatch,
+  CircuitState,
+  CircuitTransition,
+  AuthRejection
 } from './core/types';
 import { EventEmitter } from './core/EventEmitter';
 import { MessageQueue } from './core/MessageQueue';
 import { ConnectionManager } from './core/ConnectionManager';
+import { ClockEstimate } from './core/ClockSync';
+import { MetricsCollector } from './core/MetricsCollector';
 import { logger, LogCategory } from './WebSocketLogger';
 import { 
-  validateOutgoingAudioSchema, 
-  validateOutgoingTargetLanguageSchema
+  outgoingMessages,
+  IncomingMessageSchemaMap,
+  IncomingMessageType
 } from './WebSocketSchemas';
+import { MessageDispatcher, MessageHandler } from './schema/MessageRegistry';
 
 /**
  * WebSocketService handles all WebSocket communication with automatic
@@ -29,6 +38,9 @@ export class WebSocketService {
   private eventEmitter: EventEmitter;
   private messageQueue: MessageQueue;
   private connectionManager: ConnectionManager;
+  private messageDispatcher: MessageDispatcher<IncomingMessageSchemaMap>;
+  private strictSchemas: boolean;
+  private metrics: MetricsCollector;
   
   /**
    * Creates a new WebSocketService instance
@@ -46,7 +58,21 @@ export class WebSocketService {
     // Create components
     this.eventEmitter = new EventEmitter();
     this.messageQueue = new MessageQueue();
-    this.connectionManager = new ConnectionManager(fullOptions, this.eventEmitter);
+    this.messageDispatcher = new MessageDispatcher();
+    this.strictSchemas = !!fullOptions.strictSchemas;
+    this.metrics = new MetricsCollector(() => ({
+      rttMs: this.connectionManager.getClockSync().getEstimate().smoothedRttMs,
+      queueLength: this.messageQueue.getLength()
+    }));
+    this.connectionManager = new ConnectionManager(fullOptions, this.eventEmitter, this.messageDispatcher, this.metrics);
+    
+    // Messages sent during the handshake or a reconnect wait in the queue until the connection opens
+    this.eventEmitter.on('open', () => this.processQueue());
+    
+    this.eventEmitter.on('reconnecting', () => this.metrics.recordReconnect());
+    this.eventEmitter.on('circuit_state_change', event => {
+      this.metrics.setCircuitState((event as CustomEvent<CircuitTransition>).detail.to);
+    });
   }
   
   /**
@@ -89,27 +115,12 @@ export class WebSocketService {
     const socket = this.connectionManager.getSocket();
     logger.debug(LogCategory.WS, `Socket details: exists=${!!socket}, readyState=${socket?.readyState}`);
     
-    // Validate string messages (JSON format)
+    // Validate string messages against the outgoing message schemas
     if (typeof data === 'string') {
-      try {
-        const message = JSON.parse(data);
-        
-        // Check message type and validate against schema
-        if (message.type === 'audio') {
-          if (!validateOutgoingAudioSchema(message)) {
-            logger.error(LogCategory.ERROR, `Invalid audio message format: message doesn't match schema`);
-            logger.debug(LogCategory.ERROR, `Message content: ${data}`);
-            return Promise.reject(new Error('Invalid audio message format: message doesn\'t match schema'));
-          }
-        } else if (message.type === 'target_language') {
-          if (!validateOutgoingTargetLanguageSchema(message)) {
-            logger.error(LogCategory.ERROR, `Invalid target language message format`);
-            return Promise.reject(new Error('Invalid target language message format'));
-          }
-        }
-      } catch (e) {
-        // Not JSON or validation failed
-        logger.warn(LogCategory.WS, `Message validation skipped: not a valid JSON message`);
+      const result = outgoingMessages.parse(data, { strict: this.strictSchemas });
+      if (!result.valid) {
+        const { type, reason } = result.error;
+        return Promise.reject(new Error(`Invalid ${type ?? 'untyped'} message: ${reason}`));
       }
     }
     
@@ -119,7 +130,7 @@ export class WebSocketService {
     if (!this.connectionManager.isConnected()) {
       logger.debug(LogCategory.WS, `Not connected, queuing message (state: ${this.connectionManager.getState()})`);
       return new Promise<void>((resolve, reject) => {
-        this.messageQueue.enqueue(data, priority, retry);
+        this.metrics.recordDroppedMessages(this.messageQueue.enqueue(data, priority, retry));
         logger.debug(LogCategory.WS, `Message queued: connection state is ${this.connectionManager.getState()}`);
         
         if (this.connectionManager.getState() === ConnectionState.DISCONNECTED) {
@@ -146,6 +157,7 @@ export class WebSocketService {
           
           try {
             socket.send(data);
+            this.metrics.recordSent(data);
             logger.debug(LogCategory.WS, `Message sent successfully to server`);
           } catch (sendError) {
             logger.error(LogCategory.ERROR, `Direct socket.send() failed:`, sendError);
@@ -164,7 +176,7 @@ export class WebSocketService {
         logger.error(LogCategory.ERROR, `Error sending message: ${error instanceof Error ? error.message : String(error)}`);
         if (retry) {
           logger.debug(LogCategory.WS, `Queuing message after send error`);
-          this.messageQueue.enqueue(data, priority, retry);
+          this.metrics.recordDroppedMessages(this.messageQueue.enqueue(data, priority, retry));
           logger.debug(LogCategory.WS, `Message queued after send error`);
           resolve();
         } else {
@@ -192,6 +204,32 @@ export class WebSocketService {
     this.eventEmitter.off(type, handler);
   }
   
+  /**
+   * Add a handler for one type of incoming message
+   * Only messages that match the type's schema reach the handler.
+   * @param type Incoming message type
+   * @param handler Called with each valid message of that type
+   * @returns A function that removes the handler
+   */
+  onMessage<K extends IncomingMessageType>(
+    type: K,
+    handler: MessageHandler<IncomingMessageSchemaMap, K>
+  ): () => void {
+    return this.messageDispatcher.on(type, handler);
+  }
+  
+  /**
+   * Remove a handler added with onMessage
+   * @param type Incoming message type
+   * @param handler The handler to remove
+   */
+  offMessage<K extends IncomingMessageType>(
+    type: K,
+    handler: MessageHandler<IncomingMessageSchemaMap, K>
+  ): void {
+    this.messageDispatcher.off(type, handler);
+  }
+  
   /**
    * Get the current connection state
    * @returns The current connection state
@@ -208,6 +246,64 @@ export class WebSocketService {
     return this.connectionManager.isConnected();
   }
   
+  /**
+   * Get the result of the current connection's hello/hello_ack exchange
+   * @returns The agreed protocol version and server capabilities, or null before hello_ack
+   */
+  getHandshake(): ProtocolHandshake | null {
+    return this.connectionManager.getHandshake();
+  }
+  
+  /**
+   * Get the reason the server was refused for its protocol version
+   * @returns The mismatch, or null if the last handshake didn't fail that way
+   */
+  getProtocolMismatch(): ProtocolVersionMismatch | null {
+    return this.connectionManager.getProtocolMismatch();
+  }
+  
+  /**
+   * Get the reason the server last refused the connection's credentials
+   * @returns The refusal (4401 or 4403), or null
+   */
+  getAuthRejection(): AuthRejection | null {
+    return this.connectionManager.getAuthRejection();
+  }
+  
+  /**
+   * Get the state of the reconnection circuit breaker
+   * @returns 'closed', 'open' or 'half_open'
+   */
+  getCircuitState(): CircuitState {
+    return this.connectionManager.getCircuitBreaker().getState();
+  }
+  
+  /**
+   * Get the round-trip time and server clock offset measured with heartbeats
+   * @returns The current estimate
+   */
+  getClockEstimate(): ClockEstimate {
+    return this.connectionManager.getClockSync().getEstimate();
+  }
+  
+  /**
+   * Convert a server timestamp to the local clock
+   * @param serverTime Server time (ms since epoch)
+   * @returns The same moment on the local clock; unchanged until a heartbeat was answered
+   */
+  toLocalTime(serverTime: number): number {
+    return this.connectionManager.getClockSync().toLocalTime(serverTime);
+  }
+  
+  /**
+   * Get the collector of traffic and connection quality metrics
+   * Audio components report dropped frames to it as well.
+   * @returns The metrics collector
+   */
+  getMetrics(): MetricsCollector {
+    return this.metrics;
+  }
+  
   /**
    * Get the underlying WebSocket instance
    * @returns The WebSocket instance or null if not connected
@@ -231,6 +327,14 @@ export class WebSocketService {
     this.messageQueue.clear();
   }
   
+  /**
+   * Let the next connect() through an open circuit breaker or refused credentials
+   * Use this for connections the user asks for; automatic ones should wait.
+   */
+  allowReconnect(): void {
+    this.connectionManager.allowReconnect();
+  }
+  
   /**
    * Enable or disable automatic reconnection
    * @param enable Whether to enable auto-reconnection
@@ -254,6 +358,7 @@ export class WebSocketService {
     for (const message of messagesToProcess) {
       try {
         socket?.send(message.data);
+        this.metrics.recordSent(message.data);
       } catch (error) {
         logger.error(LogCategory.ERROR, 'Error sending queued message', error);
         
@@ -407,6 +512,9 @@ export class WebSocketService {
     state: ConnectionState;
     socketState: number | null;
     queueLength: number;
+    protocolVersion: number | null;
+    rttMs: number | null;
+    clockOffsetMs: number | null;
     info: string;
   } {
     const connected = this.isConnected();
@@ -414,11 +522,23 @@ export class WebSocketService {
     const socket = this.connectionManager.getSocket();
     const socketState = socket ? socket.readyState : null;
     const queueLength = this.messageQueue.getLength();
+    const protocolVersion = this.connectionManager.getHandshake()?.protocolVersion ?? null;
+    const protocolMismatch = this.connectionManager.getProtocolMismatch();
+    const authRejection = this.connectionManager.getAuthRejection();
+    const clock = this.connectionManager.getClockSync().getEstimate();
+    const rttMs = clock.smoothedRttMs;
+    const clockOffsetMs = clock.offsetMs;
     
     let info = connected ? 'Connection is healthy' : 'Connection is not established';
     
     if (state === ConnectionState.CONNECTING) {
       info = 'Connection is being established';
+    } else if (state === ConnectionState.HANDSHAKING) {
+      info = 'Waiting for the server to acknowledge the protocol version';
+    } else if (protocolMismatch) {
+      info = protocolMismatch.message;
+    } else if (authRejection) {
+      info = `Server refused the credentials (${authRejection.code}: ${authRejection.reason})`;
     } else if (state === ConnectionState.RECONNECTING) {
       info = 'Attempting to reconnect';
     } else if (state === ConnectionState.ERROR) {
@@ -437,7 +557,10 @@ export class WebSocketService {
       connected,
       state,
       socketState,
-      queueLength
+      queueLength,
+      protocolVersion,
+      rttMs,
+      clockOffsetMs
     });
     
     return {
@@ -445,6 +568,9 @@ export class WebSocketService {
       state,
       socketState,
       queueLength,
+      protocolVersion,
+      rttMs,
+      clockOffsetMs,
       info
     };
   }
@@ -15,11 +15,24 @@ import type {
   WebSocketStateChangeEvent
 } from './types';
 import { DEFAULT_AUDIO_OPTIONS } from './types';
-import { combineAudioChunks, convertToInt16, arrayBufferToBase64 } from './AudioUtils';
+import { combineAudioChunks, convertToInt16, arrayBufferToBase64, getOpusSampleRate } from './AudioUtils';
 import { 
+  createBinaryFrame,
   createJsonMessage, 
-  processAudioData
+  packOpusPackets
 } from './MessageFormatter';
+import { OpusEncoder } from './OpusEncoder';
+import { ReplayBuffer, ReplayChunk } from './ReplayBuffer';
+import { FlowController, FlowControlStats } from './FlowController';
+import { OfflineAudioQueue, OfflineAudioQueueStats } from './OfflineAudioQueue';
+import {
+  createConfigMessage,
+  createResumeMessage,
+  createVadMessage,
+  IncomingAudioAckSchema,
+  IncomingConfigAckSchema,
+  IncomingResumeAckSchema
+} from '../WebSocketSchemas';
 import { logger, LogCategory } from '../WebSocketLogger';
 import { generateAudioTestMessageString } from '../../../utils/AudioTestUtils';
 
@@ -39,6 +52,35 @@ export class AudioStreamingBridge {
   private sampleRate: number = 16000;
   private statusChangeCallbacks: StatusChangeCallback[] = [];
   private serviceId: string;
+  private boundStateChangeHandler: (event: Event) => void;
+  private removeConfigAckHandler: () => void;
+  
+  // Wire format agreed with the server; JSON until a config_ack says otherwise
+  private negotiatedFormat: 'binary' | 'json' = 'json';
+  
+  // Codec agreed with the server; Int16 PCM until a config_ack accepts Opus
+  private negotiatedCodec: 'int16' | 'opus' = 'int16';
+  private opusEncoder: OpusEncoder | null = null;
+  private opusUnavailable = false;
+  
+  // Session of the current connection (from its hello_ack) and the audio it hasn't acknowledged
+  private sessionId: string | null = null;
+  private replayBuffer: ReplayBuffer;
+  private removeAudioAckHandler: () => void;
+  private removeResumeAckHandler: () => void;
+  
+  // Set from a disconnect until the next connection has resumed the session; audio is held meanwhile
+  private resuming = false;
+  private resumeTimer: number | null = null;
+  
+  // Window of unacknowledged frames; null while the server doesn't do flow control
+  private flowController: FlowController | null = null;
+  
+  // Audio captured while disconnected; null unless the offlineQueue option is set
+  private offlineQueue: OfflineAudioQueue | null = null;
+  
+  // Speech state last sent to the server; null until voice activity flags the stream
+  private speech: boolean | null = null;
   
   /**
    * Creates a new AudioStreamingBridge
@@ -60,7 +102,34 @@ export class AudioStreamingBridge {
     });
     
     // Register for WebSocket state changes
-    this.webSocketService.on('state_change', this.handleStateChange.bind(this));
+    this.boundStateChangeHandler = this.handleStateChange.bind(this);
+    this.webSocketService.on('state_change', this.boundStateChangeHandler);
+    
+    // Register for config acknowledgements
+    this.removeConfigAckHandler = this.webSocketService.onMessage('config_ack', this.handleConfigAck.bind(this));
+    
+    // Register for session acknowledgements
+    this.replayBuffer = new ReplayBuffer(this.options.replayBufferDuration || 0);
+    this.removeAudioAckHandler = this.webSocketService.onMessage('audio_ack', this.handleAudioAck.bind(this));
+    this.removeResumeAckHandler = this.webSocketService.onMessage('resume_ack', this.handleResumeAck.bind(this));
+    
+    if (this.options.offlineQueue) {
+      this.offlineQueue = new OfflineAudioQueue({
+        maxBytes: this.options.offlineQueueMaxBytes || 16 * 1024 * 1024,
+        maxAgeMs: this.options.offlineQueueMaxAge || 300000,
+        dbName: this.options.offlineQueueDbName,
+        onDrop: count => this.webSocketService.getMetrics().recordDroppedFrames(count)
+      });
+    }
+    
+    if (this.webSocketService.isConnected()) {
+      this.sessionId = this.getConnectionSessionId();
+      this.startFlowControl();
+      
+      if (this.shouldNegotiate()) {
+        this.sendConfig();
+      }
+    }
   }
 
   /**
@@ -76,13 +145,381 @@ export class AudioStreamingBridge {
     
     // Notify listeners of connection state changes
     if (detail.newState === 'connected') {
+      // Each connection negotiates its wire format and codec again
+      this.resetNegotiation();
+      this.startFlowControl();
+      
+      // Ask to continue the previous session before anything else is sent
+      this.resumeSession();
+      
+      if (this.shouldNegotiate()) {
+        this.sendConfig();
+      }
       
       this.notifyStatusChange(true, 'Connected to server');
     } else if (detail.oldState === 'connected') {
+      this.resetNegotiation();
+      
+      // Frames in flight on the lost connection are never acknowledged
+      this.flowController?.reset();
+      
+      // Hold audio until the next connection has resumed the session or sent the offline queue
+      if (this.sessionId || this.offlineQueue) {
+        this.resuming = true;
+      }
+      
       this.notifyStatusChange(false, `Disconnected: ${detail.newState}`);
     }
   }
   
+  /**
+   * Get the session the server started for the current connection
+   * @returns The session ID, or null if the server has no sessions or resumption is disabled
+   */
+  private getConnectionSessionId(): string | null {
+    if (!this.options.replayBufferDuration) {
+      return null;
+    }
+    return this.webSocketService.getHandshake()?.sessionId ?? null;
+  }
+  
+  /**
+   * Send a resume request for the previous connection's session
+   * Without a previous session, or if the new connection has none, held audio is sent right away
+   */
+  private resumeSession(): void {
+    const previousSessionId = this.sessionId;
+    this.sessionId = this.getConnectionSessionId();
+    
+    if (!this.resuming) {
+      return;
+    }
+    
+    if (!previousSessionId || !this.sessionId) {
+      logger.info(LogCategory.AUDIO, 'Server has no session to resume, sending held audio');
+      this.completeResume(null);
+      return;
+    }
+    
+    const lastAckedSeq = this.replayBuffer.getLastAcknowledged();
+    
+    logger.info(LogCategory.AUDIO, 'Requesting session resume', {
+      sessionId: previousSessionId,
+      lastAckedSeq,
+      bufferedChunks: this.replayBuffer.getLength(),
+      bufferedMs: Math.round(this.replayBuffer.getDuration())
+    });
+    
+    this.webSocketService.send(JSON.stringify(createResumeMessage(previousSessionId, lastAckedSeq)), 0).catch(error => {
+      logger.error(LogCategory.ERROR, 'Failed to send resume request', error);
+    });
+    
+    if (this.resumeTimer !== null) {
+      clearTimeout(this.resumeTimer);
+    }
+    this.resumeTimer = window.setTimeout(() => {
+      this.resumeTimer = null;
+      logger.warn(LogCategory.AUDIO, 'No resume_ack received, continuing in a new session', {
+        timeout: this.options.resumeTimeout
+      });
+      this.completeResume(null);
+    }, this.options.resumeTimeout);
+  }
+  
+  /**
+   * Handle the server's answer to a resume request
+   * @param ack The validated resume_ack message
+   */
+  private handleResumeAck(ack: IncomingResumeAckSchema): void {
+    // Only the first answer counts; after a timeout the held audio is already being sent
+    if (this.resumeTimer === null) {
+      logger.debug(LogCategory.AUDIO, 'Ignoring resume_ack without a pending resume', ack);
+      return;
+    }
+    
+    logger.info(LogCategory.AUDIO, ack.resumed ? 'Session resumed' : 'Session not resumed, continuing in a new session', {
+      sessionId: ack.session_id,
+      nextSeq: ack.next_seq
+    });
+    
+    this.sessionId = ack.session_id;
+    
+    // The server already has everything before next_seq
+    if (ack.resumed) {
+      this.replayBuffer.acknowledge(ack.next_seq - 1);
+    }
+    this.completeResume(ack.resumed ? ack.next_seq : null);
+  }
+  
+  /**
+   * Handle the server's acknowledgement of received audio
+   * @param ack The validated audio_ack message
+   */
+  private handleAudioAck(ack: IncomingAudioAckSchema): void {
+    this.replayBuffer.acknowledge(ack.seq);
+    this.flowController?.acknowledge(ack.seq, ack.credit);
+  }
+  
+  /**
+   * Limit unacknowledged frames if the current connection's server does flow control
+   * The controller's totals carry over between connections.
+   */
+  private startFlowControl(): void {
+    const policy = this.options.flowControl;
+    const serverSupportsIt = this.webSocketService.getHandshake()?.capabilities.includes('flow_control');
+    
+    if (!policy || policy === 'off' || !serverSupportsIt) {
+      this.flowController = null;
+      return;
+    }
+    
+    if (this.flowController) {
+      this.flowController.reset();
+    } else {
+      this.flowController = new FlowController({
+        policy,
+        maxInFlight: this.options.maxInFlightFrames || 8,
+        maxPending: this.options.maxPendingFrames || 50,
+        onDrop: count => this.webSocketService.getMetrics().recordDroppedFrames(count)
+      });
+    }
+    
+    logger.info(LogCategory.AUDIO, `Audio flow control enabled: ${policy}`, {
+      maxInFlight: this.options.maxInFlightFrames,
+      maxPending: this.options.maxPendingFrames
+    });
+  }
+  
+  /**
+   * Get the flow control counters
+   * @returns In-flight, held and dropped frames and the measured server lag, or null without flow control
+   */
+  getFlowControlStats(): FlowControlStats | null {
+    return this.flowController?.getStats() ?? null;
+  }
+  
+  /**
+   * Resend buffered audio and stop holding new audio
+   * Audio captured while this runs is held and sent by the same loop.
+   * @param fromSeq First sequence number to send, or null to send all buffered audio
+   */
+  private async completeResume(fromSeq: number | null): Promise<void> {
+    if (this.resumeTimer !== null) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    
+    let replayed = 0;
+    let chunk = this.replayBuffer.getFrom(fromSeq ?? 0);
+    
+    while (chunk) {
+      if (!this.webSocketService.isConnected()) {
+        logger.warn(LogCategory.AUDIO, 'Connection lost while resending audio', { nextSeq: chunk.seq });
+        return;
+      }
+      
+      await this.transmitChunk(chunk);
+      replayed++;
+      chunk = this.replayBuffer.getFrom(chunk.seq + 1);
+    }
+    
+    // Audio captured while disconnected follows everything sent before
+    if (this.offlineQueue && !await this.drainOfflineQueue(this.offlineQueue)) {
+      return;
+    }
+    
+    this.resuming = false;
+    
+    // Without a session nothing will be acknowledged
+    if (!this.sessionId) {
+      this.replayBuffer.clear();
+    }
+    
+    logger.info(LogCategory.AUDIO, `Resent ${replayed} audio chunks`, { sessionId: this.sessionId });
+  }
+  
+  /**
+   * Send the audio stored while disconnected, oldest first
+   * Audio captured meanwhile is stored too and sent by the same loop.
+   * @param queue The offline queue
+   * @returns False if the connection was lost before the queue was empty
+   */
+  private async drainOfflineQueue(queue: OfflineAudioQueue): Promise<boolean> {
+    let sent = 0;
+    
+    while (!queue.isEmpty()) {
+      const chunk = await queue.peek();
+      if (!chunk) {
+        continue;
+      }
+      
+      if (!this.webSocketService.isConnected()) {
+        logger.warn(LogCategory.AUDIO, 'Connection lost while sending offline audio', {
+          nextSeq: chunk.seq,
+          remaining: queue.getStats().chunks
+        });
+        return false;
+      }
+      
+      if (this.sessionId) {
+        this.replayBuffer.push(chunk);
+      }
+      await this.transmitChunk(chunk);
+      queue.remove(chunk.seq);
+      sent++;
+    }
+    
+    if (sent > 0) {
+      logger.info(LogCategory.AUDIO, `Sent ${sent} audio chunks stored while offline`, queue.getStats());
+    }
+    return true;
+  }
+  
+  /**
+   * Get the offline queue counters
+   * @returns Stored chunks and bytes and dropped chunks, or null without an offline queue
+   */
+  getOfflineQueueStats(): OfflineAudioQueueStats | null {
+    return this.offlineQueue?.getStats() ?? null;
+  }
+  
+  /**
+   * Get the session the audio stream currently belongs to
+   * @returns The session ID, or null if the server has no sessions
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+  
+  /**
+   * Handle the server's config acknowledgement
+   * @param ack The validated config_ack message
+   */
+  private handleConfigAck(ack: IncomingConfigAckSchema): void {
+    this.negotiatedFormat = this.options.messageFormat === 'binary' && ack.message_format === 'binary'
+      ? 'binary'
+      : 'json';
+    
+    logger.info(LogCategory.AUDIO, `Audio wire format negotiated: ${this.negotiatedFormat}`, {
+      requested: this.options.messageFormat,
+      acknowledged: ack.message_format
+    });
+    
+    if (this.wantsOpus() && ack.format === 'opus') {
+      this.startOpusEncoder();
+    } else {
+      this.negotiatedCodec = 'int16';
+    }
+  }
+  
+  /**
+   * Check whether a config message has to be exchanged with the server
+   * @returns True if a non-default wire format or codec was requested
+   */
+  private shouldNegotiate(): boolean {
+    return this.options.messageFormat === 'binary' || this.wantsOpus();
+  }
+  
+  /**
+   * Check whether Opus encoding is requested and available
+   * @returns True if Opus should be offered to the server
+   */
+  private wantsOpus(): boolean {
+    return this.options.codec === 'opus' && !this.opusUnavailable;
+  }
+  
+  /**
+   * Return to the defaults used before a config_ack is received
+   */
+  private resetNegotiation(): void {
+    this.negotiatedFormat = 'json';
+    this.negotiatedCodec = 'int16';
+    
+    // A new connection starts a new Opus stream
+    if (this.opusEncoder) {
+      this.opusEncoder.dispose();
+      this.opusEncoder = null;
+    }
+  }
+  
+  /**
+   * Start the Opus encoder and switch to Opus once it is ready
+   * If the encoder can't start, PCM is announced to the server instead
+   */
+  private startOpusEncoder(): void {
+    if (!OpusEncoder.isSupported()) {
+      this.handleOpusFailure(new Error('Web Workers or WebAssembly not available'));
+      return;
+    }
+    
+    if (!this.opusEncoder) {
+      this.opusEncoder = new OpusEncoder({
+        bitrate: this.options.opusBitrate || 24000,
+        frameDuration: this.options.opusFrameDuration || 20
+      });
+    }
+    
+    this.opusEncoder.initialize(this.currentSampleRate)
+      .then(sampleRate => {
+        this.negotiatedCodec = 'opus';
+        logger.info(LogCategory.AUDIO, `Audio codec negotiated: opus at ${sampleRate}Hz`);
+      })
+      .catch(error => this.handleOpusFailure(error));
+  }
+  
+  /**
+   * Fall back to PCM after the Opus encoder failed
+   * @param error The encoder error
+   */
+  private handleOpusFailure(error: unknown): void {
+    logger.error(LogCategory.ERROR, 'Opus encoder unavailable, falling back to PCM', error);
+    
+    this.opusUnavailable = true;
+    this.negotiatedCodec = 'int16';
+    this.opusEncoder?.dispose();
+    this.opusEncoder = null;
+    
+    // Tell the server the stream is PCM after all
+    if (this.webSocketService.isConnected()) {
+      this.sendConfig();
+    }
+  }
+  
+  /**
+   * Announce the audio configuration and requested wire format and codec to the server
+   */
+  private sendConfig(): void {
+    const useOpus = this.wantsOpus();
+    const config: AudioConfig = {
+      sampleRate: useOpus ? getOpusSampleRate(this.currentSampleRate) : this.currentSampleRate,
+      channels: 1,
+      format: useOpus ? 'opus' : 'int16',
+      messageFormat: this.options.messageFormat
+    };
+    
+    logger.info(LogCategory.AUDIO, 'Sending audio config', config);
+    
+    this.webSocketService.send(JSON.stringify(createConfigMessage(config)), 1).catch(error => {
+      logger.error(LogCategory.ERROR, 'Failed to send audio config', error);
+    });
+  }
+  
+  /**
+   * Get the wire format currently used for audio
+   * @returns 'binary' once the server has acknowledged binary frames, otherwise 'json'
+   */
+  getMessageFormat(): 'binary' | 'json' {
+    return this.negotiatedFormat;
+  }
+  
+  /**
+   * Get the codec currently used for audio
+   * @returns 'opus' once the server has accepted Opus and the encoder is ready, otherwise 'int16'
+   */
+  getCodec(): 'int16' | 'opus' {
+    return this.negotiatedCodec;
+  }
+  
   /**
    * Enable or disable audio streaming
    * @param enabled Whether to enable streaming
@@ -103,9 +540,16 @@ export class AudioStreamingBridge {
         });
       }
     } else if (!enabled && wasEnabled) {
-      // Flush the buffer before disabling
+      // The next stream starts without a speech state
+      this.speech = null;
+      
+      // Flush the buffer and the encoder before disabling
       logger.info(LogCategory.AUDIO, 'Flushing buffer before disabling');
-      this.flushBuffer();
+      this.flushBuffer()
+        .then(() => this.flushEncoder())
+        .catch(error => {
+          logger.error(LogCategory.ERROR, 'Error flushing audio before disabling', error);
+        });
     }
   }
   
@@ -117,6 +561,26 @@ export class AudioStreamingBridge {
     return this.enabled;
   }
   
+  /**
+   * Flag whether the following audio contains speech
+   * Buffered audio is sent first, so the state applies from the next chunk on.
+   * @param speech Whether the following audio contains speech
+   */
+  async setSpeech(speech: boolean): Promise<void> {
+    if (speech === this.speech) {
+      return;
+    }
+    this.speech = speech;
+    
+    await this.flushBuffer();
+    
+    logger.debug(LogCategory.AUDIO, `Speech ${speech ? 'started' : 'ended'} at chunk ${this.sequenceNumber}`);
+    
+    this.webSocketService.send(JSON.stringify(createVadMessage(speech, this.sequenceNumber))).catch(error => {
+      logger.error(LogCategory.ERROR, 'Failed to send voice activity', error);
+    });
+  }
+  
   /**
    * Set the current sample rate
    * @param sampleRate The sample rate in Hz
@@ -126,6 +590,27 @@ export class AudioStreamingBridge {
       logger.info(LogCategory.AUDIO, `Sample rate changed: ${this.currentSampleRate} -> ${sampleRate}`);
       this.currentSampleRate = sampleRate;
       this.sampleRate = sampleRate;
+      
+      // Keep the server's view of the stream configuration current
+      if (this.shouldNegotiate() && this.webSocketService.isConnected()) {
+        this.sendConfig();
+      }
+      
+      // The encoder resamples from the capture rate, so it has to follow it
+      if (this.opusEncoder) {
+        this.opusEncoder.initialize(sampleRate).catch(error => this.handleOpusFailure(error));
+      }
+    }
+  }
+  
+  /**
+   * Set the number of samples buffered before a frame is sent
+   * @param maxBufferSize Frame size in samples
+   */
+  setMaxBufferSize(maxBufferSize: number): void {
+    if (this.options.maxBufferSize !== maxBufferSize) {
+      logger.info(LogCategory.AUDIO, `Max buffer size changed: ${this.options.maxBufferSize} -> ${maxBufferSize}`);
+      this.options.maxBufferSize = maxBufferSize;
     }
   }
   
@@ -142,12 +627,16 @@ export class AudioStreamingBridge {
     try {
       logger.debug(LogCategory.AUDIO, `Processing audio chunk with ${audioChunk.length} samples`);
       
+      if (!await this.prepareToSend()) {
+        return;
+      }
+      
       // Ensure we have enough sample values to send (at least 128 samples for WebSocket)
       if (audioChunk.length < 128) {
         logger.debug(LogCategory.AUDIO, `Audio chunk too small (${audioChunk.length} samples), adding silence to reach 128`);
         const paddedChunk = new Float32Array(128);
         paddedChunk.set(audioChunk);
-        return this.sendAudioData(paddedChunk);
+        return await this.sendAudioData(paddedChunk);
       }
       
       // For larger chunks, process directly
@@ -159,11 +648,55 @@ export class AudioStreamingBridge {
     }
   }
 
+  /**
+   * Add an audio chunk to the send buffer
+   * The buffer is flushed as a single frame once it holds maxBufferSize samples
+   * or when bufferTimeout elapses, whichever comes first
+   * @param audioChunk Float32Array containing audio samples
+   */
+  bufferAudioChunk(audioChunk: Float32Array): void {
+    if (!this.enabled || audioChunk.length === 0) {
+      logger.debug(LogCategory.AUDIO, 'Skipping audio chunk buffering: streaming not enabled or empty chunk');
+      return;
+    }
+    
+    this.audioBuffer.push(audioChunk);
+    this.accumulatedBytes += audioChunk.byteLength;
+    
+    const bufferedSamples = this.accumulatedBytes / Float32Array.BYTES_PER_ELEMENT;
+    
+    if (this.options.maxBufferSize && bufferedSamples >= this.options.maxBufferSize) {
+      logger.debug(LogCategory.AUDIO, `Buffer full (${bufferedSamples} samples), flushing`);
+      this.flushBuffer().catch(error => {
+        logger.error(LogCategory.ERROR, 'Error flushing full audio buffer', error);
+      });
+      return;
+    }
+    
+    // Start the flush timer on the first chunk of a new frame
+    if (this.bufferTimer === null && this.options.bufferTimeout && this.options.bufferTimeout > 0) {
+      this.bufferTimer = window.setTimeout(() => {
+        this.bufferTimer = null;
+        this.flushBuffer().catch(error => {
+          logger.error(LogCategory.ERROR, 'Error flushing audio buffer on timeout', error);
+        });
+      }, this.options.bufferTimeout);
+    }
+  }
+  
+  /**
+   * Get the number of samples currently waiting in the send buffer
+   * @returns The buffered sample count
+   */
+  getBufferedSampleCount(): number {
+    return this.accumulatedBytes / Float32Array.BYTES_PER_ELEMENT;
+  }
+
   /**
    * Send audio data to the WebSocket server
    * @param audioData Float32Array containing audio samples
    */
-  private sendAudioData(audioData: Float32Array): void {
+  private async sendAudioData(audioData: Float32Array): Promise<void> {
     try {
       // Convert to INT16 for efficient transmission
       const int16Data = convertToInt16(audioData);
@@ -172,30 +705,126 @@ export class AudioStreamingBridge {
       if (this.shouldLogLevels()) {
         this.logAudioLevels(audioData);
       }
-
-      // Use helper functions to process the audio data
-      const { metadata } = processAudioData(
-        audioData,
-        this.currentSampleRate,
-        this.sequenceNumber++,
-        true // Add timestamp
-      );
       
-      // Create JSON message using the helper function
-      const jsonMessage = createJsonMessage(int16Data.buffer, metadata);
-
-      // Send to websocket
-      if (this.webSocketService) {
-        this.webSocketService.send(jsonMessage);
-        logger.debug(LogCategory.AUDIO, `Sent audio chunk: ${audioData.length} samples at ${this.currentSampleRate}Hz`);
-      } else {
-        logger.warn(LogCategory.WS, 'No WebSocket service available for audio streaming');
+      const chunk: ReplayChunk = {
+        seq: this.sequenceNumber++,
+        timestamp: Date.now(),
+        sampleRate: this.currentSampleRate,
+        samples: int16Data
+      };
+      
+      // While disconnected, the chunk waits in the offline queue until it is sent
+      if (this.resuming && this.offlineQueue?.push(chunk)) {
+        logger.debug(LogCategory.AUDIO, `Stored audio chunk ${chunk.seq} in the offline queue`);
+        return;
       }
+      
+      // Keep the chunk until the server acknowledges it, so it can be resent after a reconnect
+      if (this.sessionId || this.resuming) {
+        this.replayBuffer.push(chunk);
+      }
+      
+      if (this.resuming) {
+        logger.debug(LogCategory.AUDIO, `Holding audio chunk ${chunk.seq} until the session is resumed`);
+        return;
+      }
+      
+      await this.transmitChunk(chunk);
     } catch (err) {
       logger.error(LogCategory.ERROR, `Error sending audio data: ${err}`);
     }
   }
   
+  /**
+   * Encode a chunk with the negotiated codec and send it
+   * @param chunk The chunk
+   */
+  private async transmitChunk(chunk: ReplayChunk): Promise<void> {
+    if (this.negotiatedCodec === 'opus' && this.opusEncoder) {
+      // The encoder takes ownership of its input, and the replay buffer may still need the samples
+      const packets = await this.opusEncoder.encode(chunk.samples.slice());
+      this.sendPayload(packets.length > 0 ? packOpusPackets(packets) : null, 'opus', chunk);
+      return;
+    }
+    
+    this.sendPayload(chunk.samples, 'int16', chunk);
+  }
+  
+  /**
+   * Send any samples the Opus encoder holds for an incomplete frame
+   */
+  async flushEncoder(): Promise<void> {
+    if (this.negotiatedCodec !== 'opus' || !this.opusEncoder) {
+      return;
+    }
+    
+    try {
+      const packets = await this.opusEncoder.flush();
+      
+      // The remaining packets finish the last chunk, so they carry its sequence number
+      this.sendPayload(packets.length > 0 ? packOpusPackets(packets) : null, 'opus', {
+        seq: Math.max(0, this.sequenceNumber - 1),
+        timestamp: Date.now(),
+        sampleRate: this.currentSampleRate,
+        samples: new Int16Array(0)
+      });
+    } catch (err) {
+      logger.error(LogCategory.ERROR, `Error flushing Opus encoder: ${err}`);
+    }
+  }
+  
+  /**
+   * Wrap an audio payload in the negotiated message format and send it
+   * @param payload Int16 PCM or packed Opus packets (null when the encoder produced nothing yet)
+   * @param format The payload format
+   * @param chunk The chunk the payload was produced from
+   */
+  private sendPayload(payload: Int16Array | Uint8Array | null, format: 'int16' | 'opus', chunk: ReplayChunk): void {
+    const sampleCount = chunk.samples.length;
+    
+    if (!payload) {
+      logger.debug(LogCategory.AUDIO, `Opus encoder buffering ${sampleCount} samples for the next frame`);
+      return;
+    }
+    
+    const sampleRate = format === 'opus' && this.opusEncoder
+      ? this.opusEncoder.getSampleRate()
+      : chunk.sampleRate;
+    
+    const metadata: AudioMetadata = {
+      sampleRate,
+      channels: 1,
+      format,
+      sequenceNumber: chunk.seq,
+      timestamp: chunk.timestamp,
+      byteLength: payload.byteLength
+    };
+    
+    // Use binary frames once negotiated, otherwise base64 JSON
+    const message = this.negotiatedFormat === 'binary'
+      ? createBinaryFrame(payload, metadata)
+      : createJsonMessage(payload.buffer as ArrayBuffer, metadata);
+
+    // Send to websocket
+    if (this.webSocketService) {
+      const send = () => {
+        this.webSocketService.send(message).catch(error => {
+          logger.error(LogCategory.ERROR, `Failed to send audio chunk ${chunk.seq}`, error);
+        });
+        logger.debug(LogCategory.AUDIO, `Sent audio chunk ${chunk.seq}: ${sampleCount} samples at ${chunk.sampleRate}Hz as ${format}`);
+      };
+      
+      // With flow control the frame waits for room in the server's window
+      if (this.flowController) {
+        this.flowController.submit(chunk.seq, payload.byteLength, send);
+      } else {
+        send();
+      }
+    } else {
+      logger.warn(LogCategory.WS, 'No WebSocket service available for audio streaming');
+    }
+  }
+  
   /**
    * Determines if audio levels should be logged based on sampling frequency
    * @returns True if levels should be logged
@@ -274,15 +903,30 @@ export class AudioStreamingBridge {
     this.audioBuffer = [];
     this.accumulatedBytes = 0;
     
-    // Ensure connection before sending
-    const isConnected = await this.checkAndEnsureConnection();
-    if (!isConnected) {
-      logger.warn(LogCategory.WS, 'Cannot send audio: Failed to establish WebSocket connection');
+    if (!await this.prepareToSend()) {
       return;
     }
     
     // Send the combined buffer
-    this.sendAudioData(combinedBuffer);
+    await this.sendAudioData(combinedBuffer);
+  }
+  
+  /**
+   * Ensure a connection before sending audio
+   * While a session is being resumed the audio is held instead, and without a
+   * connection it waits in the offline queue, if there is one.
+   * @returns False if the audio can be neither sent nor kept
+   */
+  private async prepareToSend(): Promise<boolean> {
+    const isConnected = this.resuming || await this.checkAndEnsureConnection();
+    if (!isConnected && this.offlineQueue) {
+      // Keep the audio until a connection is established
+      this.resuming = true;
+    } else if (!isConnected) {
+      logger.warn(LogCategory.WS, 'Cannot send audio: Failed to establish WebSocket connection');
+      return false;
+    }
+    return true;
   }
   
   /**
@@ -311,6 +955,50 @@ export class AudioStreamingBridge {
     });
   }
   
+  /**
+   * Release resources and stop listening to the WebSocket service
+   * Any buffered audio is discarded
+   */
+  dispose(): void {
+    if (this.bufferTimer !== null) {
+      clearTimeout(this.bufferTimer);
+      this.bufferTimer = null;
+    }
+    
+    this.audioBuffer = [];
+    this.accumulatedBytes = 0;
+    this.enabled = false;
+    this.statusChangeCallbacks = [];
+    
+    if (this.opusEncoder) {
+      this.opusEncoder.dispose();
+      this.opusEncoder = null;
+    }
+    
+    if (this.resumeTimer !== null) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.replayBuffer.clear();
+    this.resuming = false;
+    this.flowController = null;
+    this.speech = null;
+    
+    if (this.offlineQueue) {
+      this.offlineQueue.close().catch(error => {
+        logger.error(LogCategory.ERROR, 'Error closing offline audio queue', error);
+      });
+      this.offlineQueue = null;
+    }
+    
+    this.webSocketService.off('state_change', this.boundStateChangeHandler);
+    this.removeConfigAckHandler();
+    this.removeAudioAckHandler();
+    this.removeResumeAckHandler();
+    
+    logger.debug(LogCategory.AUDIO, 'AudioStreamingBridge disposed');
+  }
+  
   /**
    * Generate a unique service ID for logging
    * @returns A unique service ID
@@ -335,8 +1023,8 @@ export class AudioStreamingBridge {
     
     logger.info(LogCategory.WS, `WebSocket connection check: current state ${state}`);
     
-    // If already connecting/reconnecting, wait a bit
-    if (state === 'connecting' || state === 'reconnecting') {
+    // If already connecting/reconnecting or waiting for hello_ack, wait a bit
+    if (state === 'connecting' || state === 'handshaking' || state === 'reconnecting') {
       logger.info(LogCategory.WS, 'Connection in progress, waiting...');
       
       // Wait for connection to establish
@@ -57,4 +57,18 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
     binary += String.fromCharCode(bytes[i]);
   }
   return btoa(binary);
-} 
\ No newline at end of file
+}
+
+/**
+ * Sample rates supported by the Opus codec
+ */
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+/**
+ * Pick the Opus encoding sample rate for a given input rate
+ * @param sampleRate Input sample rate in Hz
+ * @returns The lowest Opus rate that is not below the input rate (48000 at most)
+ */
+export function getOpusSampleRate(sampleRate: number): number {
+  return OPUS_SAMPLE_RATES.find(rate => rate >= sampleRate) || 48000;
+}
@@ -0,0 +1,209 @@
+/**
+ * FlowController
+ *
+ * Limits the number of audio frames the server hasn't acknowledged yet. The
+ * window starts at maxInFlight frames and follows the credit the server
+ * grants in its audio_ack messages. Frames that don't fit the window are held
+ * or dropped, depending on the policy.
+ */
+
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * What to do with frames while the window is full
+ * - throttle: hold them and send them as acknowledgements arrive
+ * - drop: discard them, keeping latency low at the cost of gaps
+ */
+export type FlowControlPolicy = 'throttle' | 'drop';
+
+/**
+ * Options for the flow controller
+ */
+export interface FlowControlOptions {
+  policy: FlowControlPolicy;
+
+  // Window in frames until the server grants credit
+  maxInFlight: number;
+
+  // Frames held while the window is full (throttle policy); the oldest are dropped beyond this
+  maxPending: number;
+
+  // Called with the number of frames whenever frames are dropped
+  onDrop?: (count: number) => void;
+}
+
+/**
+ * Flow control counters
+ */
+export interface FlowControlStats {
+  // Frames sent but not acknowledged
+  inFlight: number;
+  inFlightBytes: number;
+
+  // Frames waiting for the window to open
+  pending: number;
+
+  // Frames the server currently accepts without acknowledgement
+  window: number;
+
+  // Time from sending a frame to its acknowledgement, in ms (null before the first ack)
+  lagMs: number | null;
+  averageLagMs: number | null;
+
+  // Totals since the controller was created
+  acknowledged: number;
+  dropped: number;
+}
+
+/**
+ * A frame submitted for sending
+ */
+interface Frame {
+  seq: number;
+  bytes: number;
+  send: () => void;
+}
+
+// Weight of the newest lag sample in the average
+const LAG_SMOOTHING = 0.2;
+
+export class FlowController {
+  private inFlight: { seq: number; bytes: number; sentAt: number }[] = [];
+  private pending: Frame[] = [];
+  private window: number;
+  private lagMs: number | null = null;
+  private averageLagMs: number | null = null;
+  private acknowledged = 0;
+  private dropped = 0;
+
+  /**
+   * Creates a new FlowController
+   * @param options Flow control options
+   */
+  constructor(private options: FlowControlOptions) {
+    this.window = options.maxInFlight;
+  }
+
+  /**
+   * Send a frame if the window allows it, otherwise apply the policy
+   * @param seq Sequence number of the frame
+   * @param bytes Size of the frame
+   * @param send Sends the frame
+   * @returns 'sent', 'held' or 'dropped'
+   */
+  submit(seq: number, bytes: number, send: () => void): 'sent' | 'held' | 'dropped' {
+    // Keep frames in order: nothing overtakes frames that are already held
+    if (this.pending.length === 0 && this.hasRoom()) {
+      this.transmit({ seq, bytes, send });
+      return 'sent';
+    }
+
+    if (this.options.policy === 'drop') {
+      this.dropped++;
+      logger.debug(LogCategory.AUDIO, `Flow control window full, dropped frame ${seq}`, {
+        inFlight: this.inFlight.length,
+        window: this.window
+      });
+      this.options.onDrop?.(1);
+      return 'dropped';
+    }
+
+    this.pending.push({ seq, bytes, send });
+
+    if (this.pending.length > this.options.maxPending) {
+      const overflow = this.pending.splice(0, this.pending.length - this.options.maxPending);
+      this.dropped += overflow.length;
+      logger.warn(LogCategory.AUDIO, `Server is falling behind, dropped ${overflow.length} held frames`, {
+        oldestSeq: overflow[0].seq,
+        lagMs: this.averageLagMs
+      });
+      this.options.onDrop?.(overflow.length);
+    }
+
+    return 'held';
+  }
+
+  /**
+   * Handle an acknowledgement from the server and send held frames that now fit
+   * @param seq Highest sequence number the server has received
+   * @param credit Window granted by the server in frames, if it sent one
+   */
+  acknowledge(seq: number, credit?: number): void {
+    const now = performance.now();
+    let newest: { sentAt: number } | null = null;
+
+    while (this.inFlight.length > 0 && this.inFlight[0].seq <= seq) {
+      newest = this.inFlight[0];
+      this.inFlight.shift();
+      this.acknowledged++;
+    }
+
+    if (newest) {
+      this.lagMs = now - newest.sentAt;
+      this.averageLagMs = this.averageLagMs === null
+        ? this.lagMs
+        : this.averageLagMs + (this.lagMs - this.averageLagMs) * LAG_SMOOTHING;
+    }
+
+    if (credit !== undefined) {
+      this.window = Math.max(0, credit);
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Forget in-flight and held frames, e.g. after the connection was lost
+   * The window returns to maxInFlight; totals are kept.
+   */
+  reset(): void {
+    this.inFlight = [];
+    this.pending = [];
+    this.window = this.options.maxInFlight;
+  }
+
+  /**
+   * Get the current counters
+   * @returns The flow control statistics
+   */
+  getStats(): FlowControlStats {
+    return {
+      inFlight: this.inFlight.length,
+      inFlightBytes: this.inFlight.reduce((total, frame) => total + frame.bytes, 0),
+      pending: this.pending.length,
+      window: this.window,
+      lagMs: this.lagMs,
+      averageLagMs: this.averageLagMs,
+      acknowledged: this.acknowledged,
+      dropped: this.dropped
+    };
+  }
+
+  /**
+   * Check whether another frame fits the window
+   * @returns True if a frame can be sent now
+   */
+  private hasRoom(): boolean {
+    return this.inFlight.length < this.window;
+  }
+
+  /**
+   * Send held frames while they fit the window
+   */
+  private drain(): void {
+    while (this.pending.length > 0 && this.hasRoom()) {
+      const frame = this.pending[0];
+      this.pending.shift();
+      this.transmit(frame);
+    }
+  }
+
+  /**
+   * Send a frame and track it until acknowledged
+   * @param frame The frame
+   */
+  private transmit(frame: Frame): void {
+    this.inFlight.push({ seq: frame.seq, bytes: frame.bytes, sentAt: performance.now() });
+    frame.send();
+  }
+}
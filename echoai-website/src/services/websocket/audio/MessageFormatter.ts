@@ -4,7 +4,13 @@
  * Utilities for formatting audio data for transmission over websockets
  */
 
-import { AudioMetadata } from './types';
+import {
+  AudioMetadata,
+  BinaryFrameFormat,
+  BinaryFrameHeader,
+  BINARY_FRAME_HEADER_SIZE,
+  BINARY_FRAME_VERSION
+} from './types';
 import { arrayBufferToBase64, convertToInt16 } from './AudioUtils';
 import { createAudioMessage } from '../WebSocketSchemas';
 import { logger, LogCategory } from '../WebSocketLogger';
@@ -41,7 +47,7 @@ export function processAudioData(
 
 /**
  * Create a JSON message with audio data
- * @param audioData The audio data as an ArrayBuffer
+ * @param audioData Int16 PCM samples, or an encoded payload when metadata.format is 'opus'
  * @param metadata The audio metadata
  * @returns A JSON string message
  */
@@ -53,7 +59,12 @@ export function createJsonMessage(
   const base64Data = arrayBufferToBase64(audioData);
   
   // Create message using helper function from WebSocketSchemas
-  const message = createAudioMessage(base64Data, metadata.sampleRate);
+  const message = createAudioMessage(
+    base64Data,
+    metadata.sampleRate,
+    metadata.sequenceNumber,
+    metadata.format === 'opus' ? 'opus' : 'int16'
+  );
   
   logger.debug(LogCategory.AUDIO, `Creating JSON message with base64 data, length: ${message.value.length} chars`);
   
@@ -62,4 +73,85 @@ export function createJsonMessage(
   logger.debug(LogCategory.AUDIO, `Final JSON message size: ${jsonString.length} bytes`);
   
   return jsonString;
-} 
\ No newline at end of file
+}
+
+/**
+ * Create a binary frame with audio data
+ * @param audioData Int16 PCM samples, or an encoded payload when metadata.format is 'opus'
+ * @param metadata The audio metadata
+ * @returns The frame: fixed header followed by the audio payload
+ */
+export function createBinaryFrame(
+  audioData: Int16Array | Uint8Array,
+  metadata: AudioMetadata
+): ArrayBuffer {
+  const frame = new ArrayBuffer(BINARY_FRAME_HEADER_SIZE + audioData.byteLength);
+  const view = new DataView(frame);
+  
+  view.setUint8(0, BINARY_FRAME_VERSION);
+  view.setUint8(1, metadata.format === 'opus' ? BinaryFrameFormat.OPUS : BinaryFrameFormat.INT16);
+  view.setUint16(2, metadata.channels, true);
+  view.setUint32(4, (metadata.sequenceNumber || 0) >>> 0, true);
+  view.setFloat64(8, metadata.timestamp || Date.now(), true);
+  view.setUint32(16, metadata.sampleRate, true);
+  
+  if (audioData instanceof Int16Array) {
+    // Write samples explicitly as little-endian regardless of platform byte order
+    for (let i = 0; i < audioData.length; i++) {
+      view.setInt16(BINARY_FRAME_HEADER_SIZE + i * 2, audioData[i], true);
+    }
+  } else {
+    new Uint8Array(frame, BINARY_FRAME_HEADER_SIZE).set(audioData);
+  }
+  
+  logger.debug(LogCategory.AUDIO, `Created binary frame: ${frame.byteLength} bytes, seq=${metadata.sequenceNumber}`);
+  
+  return frame;
+}
+
+/**
+ * Pack Opus packets into a single payload
+ * Each packet is prefixed with its byte length as a little-endian uint16
+ * @param packets The Opus packets
+ * @returns The packed payload
+ */
+export function packOpusPackets(packets: Uint8Array[]): Uint8Array {
+  const totalLength = packets.reduce((total, packet) => total + 2 + packet.length, 0);
+  const payload = new Uint8Array(totalLength);
+  const view = new DataView(payload.buffer);
+  
+  let offset = 0;
+  for (const packet of packets) {
+    view.setUint16(offset, packet.length, true);
+    payload.set(packet, offset + 2);
+    offset += 2 + packet.length;
+  }
+  
+  return payload;
+}
+
+/**
+ * Read the header of a binary audio frame
+ * @param frame The binary frame
+ * @returns The decoded header, or null if the frame is not a valid audio frame
+ */
+export function parseBinaryFrameHeader(frame: ArrayBuffer): BinaryFrameHeader | null {
+  if (frame.byteLength < BINARY_FRAME_HEADER_SIZE) {
+    return null;
+  }
+  
+  const view = new DataView(frame);
+  const version = view.getUint8(0);
+  if (version !== BINARY_FRAME_VERSION) {
+    return null;
+  }
+  
+  return {
+    version,
+    format: view.getUint8(1) as BinaryFrameFormat,
+    channels: view.getUint16(2, true),
+    sequenceNumber: view.getUint32(4, true),
+    timestamp: view.getFloat64(8, true),
+    sampleRate: view.getUint32(16, true)
+  };
+}
@@ -0,0 +1,406 @@
+/**
+ * OfflineAudioQueue
+ *
+ * Stores audio chunks captured while the connection is down in IndexedDB, so
+ * long outages don't have to fit in memory. Chunks are read back in sequence
+ * order once the connection returns. The queue holds at most a byte budget;
+ * the oldest chunks are dropped when it is full, and chunks older than the
+ * maximum age are dropped instead of sent.
+ *
+ * Each queue has its own database, by default named after the service with a
+ * random suffix, and holds a Web Lock of the same name while it is open.
+ * Databases of other queues are only deleted once their lock is free, i.e.
+ * their page is gone. Chunks left over in the queue's own database from an
+ * earlier page load are discarded when it opens: their sequence numbers belong
+ * to a stream that no longer exists.
+ */
+
+import { ReplayChunk } from './ReplayBuffer';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Options for the offline queue
+ */
+export interface OfflineAudioQueueOptions {
+  // Maximum size of the stored samples in bytes
+  maxBytes: number;
+
+  // Chunks older than this are not sent, in ms
+  maxAgeMs: number;
+
+  // IndexedDB database name (default: a new name from createOfflineQueueDbName)
+  // A name that another open queue already uses disables this queue
+  dbName?: string;
+
+  // Called with the number of chunks whenever chunks are dropped
+  onDrop?: (count: number) => void;
+}
+
+/**
+ * Offline queue counters
+ */
+export interface OfflineAudioQueueStats {
+  // Chunks and bytes waiting to be sent
+  chunks: number;
+  bytes: number;
+
+  // Total chunks dropped for the byte budget, their age or a storage error
+  dropped: number;
+
+  // False if IndexedDB could not be opened
+  available: boolean;
+}
+
+const DB_NAME_PREFIX = 'echoai-offline-audio';
+const STORE_NAME = 'chunks';
+
+/**
+ * Create a database name that no other queue uses
+ * @param serviceName Name of the WebSocket service the audio is streamed to
+ * @returns The database name
+ */
+export const createOfflineQueueDbName = (serviceName = 'default'): string => {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return `${DB_NAME_PREFIX}-${serviceName}-${id}`;
+};
+
+/**
+ * Wait for an IndexedDB request
+ * @param request The request
+ * @returns The request's result
+ */
+const whenDone = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class OfflineAudioQueue {
+  // Sequence number, size and capture time of each stored chunk, oldest first
+  private entries: { seq: number; bytes: number; timestamp: number }[] = [];
+  private bytes = 0;
+  private dropped = 0;
+  private available: boolean;
+  private db: Promise<IDBDatabase | null>;
+  private readonly dbName: string;
+
+  // Releases the lock held on the database name while the queue is open
+  private releaseLock: (() => void) | null = null;
+
+  // Storage operations run one at a time, in the order they were requested
+  private operations: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new OfflineAudioQueue and opens its database
+   * @param options Offline queue options
+   */
+  constructor(private options: OfflineAudioQueueOptions) {
+    this.dbName = options.dbName || createOfflineQueueDbName();
+    this.available = typeof indexedDB !== 'undefined';
+    this.db = this.available ? this.open() : Promise.resolve(null);
+
+    if (!this.available) {
+      logger.warn(LogCategory.AUDIO, 'IndexedDB is not available, audio captured offline will not be kept');
+    }
+  }
+
+  /**
+   * Store a chunk, dropping the oldest chunks if the byte budget is exceeded
+   * @param chunk The chunk
+   * @returns False if the chunk could not be stored
+   */
+  push(chunk: ReplayChunk): boolean {
+    if (!this.available) {
+      return false;
+    }
+
+    const bytes = chunk.samples.byteLength;
+    this.entries.push({ seq: chunk.seq, bytes, timestamp: chunk.timestamp });
+    this.bytes += bytes;
+
+    const evicted: number[] = [];
+    while (this.bytes > this.options.maxBytes && this.entries.length > 1) {
+      const entry = this.entries[0];
+      this.entries.shift();
+      this.bytes -= entry.bytes;
+      evicted.push(entry.seq);
+    }
+
+    if (evicted.length > 0) {
+      logger.warn(LogCategory.AUDIO, `Offline audio queue full, dropped ${evicted.length} chunks`, {
+        maxBytes: this.options.maxBytes,
+        oldestSeq: this.entries[0].seq
+      });
+      this.recordDrop(evicted.length);
+    }
+
+    this.run(store => {
+      store.put(chunk);
+      evicted.forEach(seq => store.delete(seq));
+    });
+    return true;
+  }
+
+  /**
+   * Get the oldest stored chunk without removing it, dropping expired chunks first
+   * @returns The chunk, or null if the queue is empty
+   */
+  async peek(): Promise<ReplayChunk | null> {
+    const expired = this.pruneExpired();
+    if (expired.length > 0) {
+      this.run(store => expired.forEach(seq => store.delete(seq)));
+    }
+
+    if (this.entries.length === 0) {
+      return null;
+    }
+
+    const seq = this.entries[0].seq;
+    const chunk = await this.run(store => store.get(seq)) as ReplayChunk | undefined;
+
+    if (!chunk) {
+      // Lost to a storage error
+      const entry = this.entries[0];
+      if (entry?.seq === seq) {
+        this.entries.shift();
+        this.bytes -= entry.bytes;
+        this.recordDrop(1);
+      }
+      return this.peek();
+    }
+    return chunk;
+  }
+
+  /**
+   * Remove a chunk after it was sent
+   * @param seq Sequence number of the chunk
+   */
+  remove(seq: number): void {
+    const index = this.entries.findIndex(entry => entry.seq === seq);
+    if (index === -1) {
+      return;
+    }
+
+    this.bytes -= this.entries[index].bytes;
+    this.entries.splice(index, 1);
+    this.run(store => store.delete(seq));
+  }
+
+  /**
+   * Check whether chunks are waiting, including ones still being written
+   * @returns True if the queue is empty
+   */
+  isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /**
+   * Get the current counters
+   * @returns The offline queue statistics
+   */
+  getStats(): OfflineAudioQueueStats {
+    return {
+      chunks: this.entries.length,
+      bytes: this.bytes,
+      dropped: this.dropped,
+      available: this.available
+    };
+  }
+
+  /**
+   * Remove all chunks
+   */
+  clear(): void {
+    this.entries = [];
+    this.bytes = 0;
+    this.run(store => store.clear());
+  }
+
+  /**
+   * Remove all chunks and delete the database
+   */
+  async close(): Promise<void> {
+    this.clear();
+    await this.operations;
+
+    const db = await this.db;
+    this.available = false;
+    if (db) {
+      db.close();
+      try {
+        await whenDone(indexedDB.deleteDatabase(this.dbName));
+      } catch (error) {
+        logger.warn(LogCategory.AUDIO, 'Failed to delete the offline audio queue database', error);
+      }
+    }
+
+    this.releaseLock?.();
+    this.releaseLock = null;
+  }
+
+  /**
+   * Lock the database name, delete abandoned databases, then open the database
+   * and discard chunks from earlier page loads
+   * @returns The database, or null if it could not be opened
+   */
+  private async open(): Promise<IDBDatabase | null> {
+    if (!await this.lock()) {
+      this.disable('Offline audio queue database is used by another stream', this.dbName);
+      return null;
+    }
+
+    await this.deleteAbandonedDatabases();
+
+    try {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'seq' });
+      };
+      const db = await whenDone(request);
+
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const leftover = await whenDone(store.count());
+      if (leftover > 0) {
+        await whenDone(store.clear());
+        logger.info(LogCategory.AUDIO, `Discarded ${leftover} offline audio chunks from an earlier session`);
+      }
+
+      return db;
+    } catch (error) {
+      this.disable('Failed to open the offline audio queue', error);
+      return null;
+    }
+  }
+
+  /**
+   * Hold a Web Lock named after the database while the queue is open
+   * Without the Web Locks API, the database is used unlocked.
+   * @returns False if another queue holds the lock
+   */
+  private lock(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      navigator.locks.request(this.dbName, { ifAvailable: true }, lock => {
+        resolve(lock !== null);
+        return lock ? new Promise<void>(release => { this.releaseLock = release; }) : undefined;
+      }).catch(error => {
+        logger.warn(LogCategory.AUDIO, 'Failed to lock the offline audio queue database', error);
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Delete queue databases whose lock is free, left behind by closed pages
+   */
+  private async deleteAbandonedDatabases(): Promise<void> {
+    if (typeof navigator === 'undefined' || !navigator.locks || typeof indexedDB.databases !== 'function') {
+      return;
+    }
+
+    try {
+      const databases = await indexedDB.databases();
+      for (const { name } of databases) {
+        if (!name || name === this.dbName || !name.startsWith(`${DB_NAME_PREFIX}-`)) {
+          continue;
+        }
+
+        await navigator.locks.request(name, { ifAvailable: true }, async lock => {
+          if (lock) {
+            await whenDone(indexedDB.deleteDatabase(name));
+            logger.info(LogCategory.AUDIO, `Deleted abandoned offline audio queue database ${name}`);
+          }
+        });
+      }
+    } catch (error) {
+      logger.warn(LogCategory.AUDIO, 'Failed to delete abandoned offline audio queue databases', error);
+    }
+  }
+
+  /**
+   * Run a storage operation after the ones before it
+   * @param operation Issues requests on the chunk store; the last returned request's result is returned
+   * @returns The operation's result, or undefined if storage failed
+   */
+  private run<T>(operation: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+    const result = this.operations.then(async () => {
+      const db = await this.db;
+      if (!db) {
+        return undefined;
+      }
+
+      try {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const completed = new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        });
+        const request = operation(transaction.objectStore(STORE_NAME));
+        await completed;
+        return request ? request.result : undefined;
+      } catch (error) {
+        this.disable('Offline audio queue storage failed', error);
+        return undefined;
+      }
+    });
+
+    this.operations = result;
+    return result;
+  }
+
+  /**
+   * Drop chunks older than the maximum age from the front of the queue
+   * @returns Sequence numbers of the dropped chunks
+   */
+  private pruneExpired(): number[] {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    const expired: number[] = [];
+
+    while (this.entries.length > 0 && this.entries[0].timestamp < cutoff) {
+      const entry = this.entries[0];
+      this.entries.shift();
+      this.bytes -= entry.bytes;
+      expired.push(entry.seq);
+    }
+
+    if (expired.length > 0) {
+      logger.warn(LogCategory.AUDIO, `Dropped ${expired.length} offline audio chunks older than ${this.options.maxAgeMs}ms`, {
+        oldestSeq: expired[0]
+      });
+      this.recordDrop(expired.length);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Stop using storage after an error; stored chunks count as dropped
+   * @param message What failed
+   * @param error The error
+   */
+  private disable(message: string, error: unknown): void {
+    logger.error(LogCategory.ERROR, message, error);
+    this.available = false;
+    this.db = Promise.resolve(null);
+
+    if (this.entries.length > 0) {
+      this.recordDrop(this.entries.length);
+      this.entries = [];
+      this.bytes = 0;
+    }
+  }
+
+  /**
+   * Count dropped chunks and report them
+   * @param count Number of chunks
+   */
+  private recordDrop(count: number): void {
+    this.dropped += count;
+    this.options.onDrop?.(count);
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * OpusEncoder
+ *
+ * Main-thread handle for the Opus encoder worker. Requests are answered in
+ * the order they are made, so packets come back in capture order.
+ */
+
+import type { OpusWorkerRequest, OpusWorkerResponse } from './types';
+import { getOpusSampleRate } from './AudioUtils';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Options for the Opus encoder
+ */
+export interface OpusEncoderOptions {
+  // Target bitrate in bits per second
+  bitrate: number;
+
+  // Frame duration in ms (10, 20, 40 or 60)
+  frameDuration: number;
+
+  // Channel count
+  channels?: number;
+}
+
+/**
+ * Encodes Int16 PCM into Opus packets using a Web Worker
+ */
+export class OpusEncoder {
+  private options: OpusEncoderOptions;
+  private worker: Worker | null = null;
+  private inputSampleRate = 0;
+  private sampleRate = 0;
+  private nextRequestId = 0;
+  private pendingRequests: Map<number, {
+    resolve: (packets: Uint8Array[]) => void;
+    reject: (error: Error) => void;
+  }> = new Map();
+  private readyPromise: Promise<number> | null = null;
+  private resolveReady: ((sampleRate: number) => void) | null = null;
+  private rejectReady: ((error: Error) => void) | null = null;
+
+  /**
+   * Creates a new OpusEncoder
+   * @param options Encoder options
+   */
+  constructor(options: OpusEncoderOptions) {
+    this.options = { channels: 1, ...options };
+  }
+
+  /**
+   * Check whether Opus encoding can run in this environment
+   * @returns True if Web Workers and WebAssembly are available
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+  }
+
+  /**
+   * Start the worker and configure the encoder for an input sample rate
+   * Calling again with a different rate reconfigures the encoder
+   * @param inputSampleRate Sample rate of the PCM that will be encoded
+   * @returns Promise resolving to the Opus sample rate used for encoding
+   */
+  initialize(inputSampleRate: number): Promise<number> {
+    if (this.readyPromise && this.inputSampleRate === inputSampleRate) {
+      return this.readyPromise;
+    }
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./opus-encoder.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<OpusWorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => {
+        this.failAll(new Error(`Opus encoder worker error: ${event.message}`));
+      };
+    }
+
+    this.inputSampleRate = inputSampleRate;
+    this.sampleRate = getOpusSampleRate(inputSampleRate);
+
+    this.readyPromise = new Promise<number>((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+
+    this.post({
+      type: 'init',
+      inputSampleRate,
+      sampleRate: this.sampleRate,
+      channels: this.options.channels || 1,
+      bitrate: this.options.bitrate,
+      frameDuration: this.options.frameDuration
+    });
+
+    logger.info(LogCategory.AUDIO, 'Opus encoder initializing', {
+      inputSampleRate,
+      sampleRate: this.sampleRate,
+      bitrate: this.options.bitrate,
+      frameDuration: this.options.frameDuration
+    });
+
+    return this.readyPromise;
+  }
+
+  /**
+   * Encode PCM samples
+   * @param pcm Int16 samples at the input sample rate
+   * @returns Promise resolving to the complete Opus packets (may be empty while a frame fills)
+   */
+  async encode(pcm: Int16Array): Promise<Uint8Array[]> {
+    if (!this.readyPromise) {
+      throw new Error('Opus encoder not initialized');
+    }
+
+    await this.readyPromise;
+
+    const id = this.nextRequestId++;
+    const result = this.track(id);
+    this.post({ type: 'encode', id, pcm }, [pcm.buffer]);
+    return result;
+  }
+
+  /**
+   * Encode any samples still waiting for a complete frame, padded with silence
+   * @returns Promise resolving to the remaining Opus packets
+   */
+  async flush(): Promise<Uint8Array[]> {
+    if (!this.readyPromise) {
+      return [];
+    }
+
+    await this.readyPromise;
+
+    const id = this.nextRequestId++;
+    const result = this.track(id);
+    this.post({ type: 'flush', id });
+    return result;
+  }
+
+  /**
+   * Get the Opus sample rate used for encoding
+   * @returns The sample rate in Hz
+   */
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  /**
+   * Stop the worker and reject any outstanding requests
+   */
+  dispose(): void {
+    this.failAll(new Error('Opus encoder disposed'));
+    this.worker?.terminate();
+    this.worker = null;
+    this.readyPromise = null;
+  }
+
+  /**
+   * Register a pending request
+   * @param id Request ID
+   * @returns Promise settled when the worker answers
+   */
+  private track(id: number): Promise<Uint8Array[]> {
+    return new Promise<Uint8Array[]>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+    });
+  }
+
+  /**
+   * Send a request to the worker
+   * @param request The request
+   * @param transfer Buffers to transfer instead of copy
+   */
+  private post(request: OpusWorkerRequest, transfer: Transferable[] = []): void {
+    if (!this.worker) {
+      throw new Error('Opus encoder worker not running');
+    }
+
+    this.worker.postMessage(request, transfer);
+  }
+
+  /**
+   * Handle a response from the worker
+   * @param response The response
+   */
+  private handleResponse(response: OpusWorkerResponse): void {
+    switch (response.type) {
+      case 'ready':
+        logger.info(LogCategory.AUDIO, `Opus encoder ready at ${response.sampleRate}Hz`);
+        this.resolveReady?.(response.sampleRate);
+        this.resolveReady = null;
+        this.rejectReady = null;
+        break;
+
+      case 'encoded': {
+        const request = this.pendingRequests.get(response.id);
+        this.pendingRequests.delete(response.id);
+        request?.resolve(response.packets);
+        break;
+      }
+
+      case 'error': {
+        const error = new Error(`Opus encoder: ${response.message}`);
+        logger.error(LogCategory.ERROR, error.message);
+
+        if (response.id === undefined) {
+          this.failAll(error);
+        } else {
+          const request = this.pendingRequests.get(response.id);
+          this.pendingRequests.delete(response.id);
+          request?.reject(error);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Reject the ready promise and every outstanding request
+   * @param error The error to reject with
+   */
+  private failAll(error: Error): void {
+    this.rejectReady?.(error);
+    this.resolveReady = null;
+    this.rejectReady = null;
+
+    this.pendingRequests.forEach(request => request.reject(error));
+    this.pendingRequests.clear();
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * ReplayBuffer
+ *
+ * Keeps audio chunks sent to the server until it acknowledges them, so they
+ * can be sent again after a reconnect. The buffer holds at most a fixed
+ * duration of audio; the oldest chunks are dropped when it is full.
+ */
+
+import { logger, LogCategory } from '../WebSocketLogger';
+
+// Minimum time between warnings about dropped chunks in ms; a server that
+// never acknowledges audio would otherwise cause one per chunk
+const DROP_WARNING_INTERVAL = 10000;
+
+/**
+ * One captured chunk of audio, numbered in capture order
+ */
+export interface ReplayChunk {
+  // Sequence number sent on the wire
+  seq: number;
+
+  // Capture time in ms since epoch
+  timestamp: number;
+
+  // Sample rate of the samples
+  sampleRate: number;
+
+  // Int16 PCM samples, before any encoding
+  samples: Int16Array;
+}
+
+export class ReplayBuffer {
+  private chunks: ReplayChunk[] = [];
+  private durationMs = 0;
+  private lastAcknowledged = -1;
+  private droppedSinceWarning = 0;
+  private lastDropWarning = 0;
+
+  /**
+   * Creates a new ReplayBuffer
+   * @param maxDurationMs Maximum duration of audio to keep in ms (0 keeps nothing)
+   */
+  constructor(private maxDurationMs: number) {}
+
+  /**
+   * Add a chunk, dropping the oldest chunks if the buffer is full
+   * Drops are reported at most every DROP_WARNING_INTERVAL.
+   * @param chunk The chunk
+   */
+  push(chunk: ReplayChunk): void {
+    if (this.maxDurationMs <= 0) {
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.durationMs += this.getChunkDuration(chunk);
+
+    let dropped = 0;
+    while (this.durationMs > this.maxDurationMs && this.chunks.length > 1) {
+      this.durationMs -= this.getChunkDuration(this.chunks[0]);
+      this.chunks.shift();
+      dropped++;
+    }
+
+    this.droppedSinceWarning += dropped;
+    if (this.droppedSinceWarning > 0 && Date.now() - this.lastDropWarning >= DROP_WARNING_INTERVAL) {
+      logger.warn(LogCategory.AUDIO, `Replay buffer full, dropped ${this.droppedSinceWarning} unacknowledged chunks`, {
+        maxDurationMs: this.maxDurationMs,
+        oldestSeq: this.chunks[0].seq,
+        lastAcknowledged: this.lastAcknowledged
+      });
+      this.droppedSinceWarning = 0;
+      this.lastDropWarning = Date.now();
+    }
+  }
+
+  /**
+   * Remove all chunks up to and including a sequence number
+   * @param seq Highest sequence number the server has received
+   */
+  acknowledge(seq: number): void {
+    this.lastAcknowledged = Math.max(this.lastAcknowledged, seq);
+
+    while (this.chunks.length > 0 && this.chunks[0].seq <= seq) {
+      this.durationMs -= this.getChunkDuration(this.chunks[0]);
+      this.chunks.shift();
+    }
+  }
+
+  /**
+   * Get the first chunk at or after a sequence number
+   * @param seq The sequence number
+   * @returns The chunk, or null if there is none
+   */
+  getFrom(seq: number): ReplayChunk | null {
+    return this.chunks.find(chunk => chunk.seq >= seq) ?? null;
+  }
+
+  /**
+   * Get the highest acknowledged sequence number
+   * @returns The sequence number, or -1 if nothing was acknowledged
+   */
+  getLastAcknowledged(): number {
+    return this.lastAcknowledged;
+  }
+
+  /**
+   * Get the number of unacknowledged chunks
+   * @returns The chunk count
+   */
+  getLength(): number {
+    return this.chunks.length;
+  }
+
+  /**
+   * Get the duration of unacknowledged audio
+   * @returns The duration in ms
+   */
+  getDuration(): number {
+    return this.durationMs;
+  }
+
+  /**
+   * Remove all chunks and forget acknowledgements
+   */
+  clear(): void {
+    this.chunks = [];
+    this.durationMs = 0;
+    this.lastAcknowledged = -1;
+    this.droppedSinceWarning = 0;
+    this.lastDropWarning = 0;
+  }
+
+  /**
+   * Get the duration of a chunk
+   * @param chunk The chunk
+   * @returns The duration in ms
+   */
+  private getChunkDuration(chunk: ReplayChunk): number {
+    return chunk.samples.length / chunk.sampleRate * 1000;
+  }
+}
@@ -14,24 +14,48 @@ export type {
   StatusChangeCallback,
   AudioConfig,
   AudioMessage,
+  BinaryFrameHeader,
   WebSocketStateChangeEvent
 } from './types';
 
 // Enum and constants
 export { 
   DEFAULT_AUDIO_OPTIONS,
-  AudioMessageType
+  AudioMessageType,
+  BinaryFrameFormat,
+  BINARY_FRAME_HEADER_SIZE,
+  BINARY_FRAME_VERSION
 } from './types';
 
 // Audio utilities (exported for testing or advanced use)
 export { 
   convertToInt16,
   combineAudioChunks,
-  arrayBufferToBase64
+  arrayBufferToBase64,
+  getOpusSampleRate
 } from './AudioUtils';
 
+// Opus encoding
+export { OpusEncoder } from './OpusEncoder';
+export type { OpusEncoderOptions } from './OpusEncoder';
+
+// Replay of unacknowledged audio after reconnects
+export { ReplayBuffer } from './ReplayBuffer';
+export type { ReplayChunk } from './ReplayBuffer';
+
+// Audio captured while disconnected, stored in IndexedDB
+export { OfflineAudioQueue, createOfflineQueueDbName } from './OfflineAudioQueue';
+export type { OfflineAudioQueueOptions, OfflineAudioQueueStats } from './OfflineAudioQueue';
+
+// Flow control of unacknowledged frames
+export { FlowController } from './FlowController';
+export type { FlowControlPolicy, FlowControlOptions, FlowControlStats } from './FlowController';
+
 // Message formatting (exported for testing or advanced use)
 export {
   createJsonMessage,
+  createBinaryFrame,
+  packOpusPackets,
+  parseBinaryFrameHeader,
   processAudioData
 } from './MessageFormatter'; 
\ No newline at end of file
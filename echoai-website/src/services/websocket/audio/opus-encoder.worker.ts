@@ -0,0 +1,140 @@
+/**
+ * Opus Encoder Worker
+ *
+ * Encodes Int16 PCM into Opus packets off the main thread.
+ * Input is resampled to an Opus-supported rate and cut into fixed-size frames;
+ * samples that don't fill a frame are kept for the next encode request.
+ */
+
+import { Encoder } from '@evan/wasm/target/opus/deno.js';
+import type { OpusWorkerRequest, OpusWorkerResponse } from './types';
+
+const scope = self as unknown as Worker;
+
+let encoder: Encoder | null = null;
+let inputSampleRate = 48000;
+let sampleRate = 48000;
+let frameSize = 960;
+
+// Samples waiting for a complete frame
+let pending = new Int16Array(0);
+
+// Linear resampler state carried across requests
+let resamplePosition = 0;
+let lastSample = 0;
+
+/**
+ * Post a response to the main thread
+ * @param response The response
+ */
+function respond(response: OpusWorkerResponse): void {
+  scope.postMessage(response);
+}
+
+/**
+ * Resample Int16 PCM from the input rate to the encoder rate
+ * @param input Samples at the input rate
+ * @returns Samples at the encoder rate
+ */
+function resample(input: Int16Array): Int16Array {
+  if (inputSampleRate === sampleRate || input.length === 0) {
+    return input;
+  }
+
+  const step = inputSampleRate / sampleRate;
+  const output: number[] = [];
+
+  // Position -1 refers to the last sample of the previous request
+  let position = resamplePosition;
+  while (position < input.length - 1) {
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = index < 0 ? lastSample : input[index];
+    const b = input[index + 1];
+    output.push(Math.round(a + (b - a) * fraction));
+    position += step;
+  }
+
+  resamplePosition = position - input.length;
+  lastSample = input[input.length - 1];
+
+  return Int16Array.from(output);
+}
+
+/**
+ * Encode every complete frame in the pending buffer
+ * @returns The encoded packets
+ */
+function encodeFrames(): Uint8Array[] {
+  if (!encoder) {
+    throw new Error('Opus encoder not initialized');
+  }
+
+  const packets: Uint8Array[] = [];
+  let offset = 0;
+
+  while (pending.length - offset >= frameSize) {
+    const frame = pending.subarray(offset, offset + frameSize);
+    packets.push(encoder.encode(new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength)));
+    offset += frameSize;
+  }
+
+  pending = pending.slice(offset);
+  return packets;
+}
+
+scope.onmessage = (event: MessageEvent<OpusWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'init':
+        encoder?.drop();
+        encoder = new Encoder({
+          channels: request.channels,
+          sample_rate: request.sampleRate,
+          application: 'voip'
+        });
+        encoder.bitrate = request.bitrate;
+
+        inputSampleRate = request.inputSampleRate;
+        sampleRate = request.sampleRate;
+        frameSize = Math.round(sampleRate * request.frameDuration / 1000) * request.channels;
+        pending = new Int16Array(0);
+        resamplePosition = 0;
+        lastSample = 0;
+
+        respond({ type: 'ready', sampleRate });
+        break;
+
+      case 'encode': {
+        const resampled = resample(request.pcm);
+        const combined = new Int16Array(pending.length + resampled.length);
+        combined.set(pending);
+        combined.set(resampled, pending.length);
+        pending = combined;
+
+        respond({ type: 'encoded', id: request.id, packets: encodeFrames() });
+        break;
+      }
+
+      case 'flush': {
+        // Pad the last partial frame with silence
+        if (pending.length > 0) {
+          const padded = new Int16Array(Math.ceil(pending.length / frameSize) * frameSize);
+          padded.set(pending);
+          pending = padded;
+        }
+
+        respond({ type: 'encoded', id: request.id, packets: encodeFrames() });
+        break;
+      }
+    }
+  } catch (error) {
+    respond({
+      type: 'error',
+      id: 'id' in request ? request.id : undefined,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
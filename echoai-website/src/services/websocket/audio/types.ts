@@ -21,6 +21,45 @@ export interface AudioStreamingOptions {
   
   // Add timestamp to messages
   addTimestamp?: boolean;
+  
+  // Requested wire format for audio ('binary' is used only once the server acknowledges it)
+  messageFormat?: 'binary' | 'json';
+  
+  // Requested audio codec ('opus' is used only once the server acknowledges it)
+  codec?: 'pcm' | 'opus';
+  
+  // Opus target bitrate in bits per second
+  opusBitrate?: number;
+  
+  // Opus frame duration in ms (10, 20, 40 or 60)
+  opusFrameDuration?: number;
+  
+  // Unacknowledged audio kept for resending after a reconnect, in ms (0 to disable resumption)
+  replayBufferDuration?: number;
+  
+  // Time to wait for resume_ack after a reconnect in ms
+  resumeTimeout?: number;
+  
+  // What to do with frames while the server's window is full, if it supports flow control ('off' to ignore it)
+  flowControl?: 'off' | 'throttle' | 'drop';
+  
+  // Unacknowledged frames allowed until the server grants credit
+  maxInFlightFrames?: number;
+  
+  // Frames held while the window is full ('throttle'); the oldest are dropped beyond this
+  maxPendingFrames?: number;
+  
+  // Store audio captured while disconnected in IndexedDB and send it after reconnecting
+  offlineQueue?: boolean;
+  
+  // Maximum size of the audio stored offline in bytes; the oldest audio is dropped beyond this
+  offlineQueueMaxBytes?: number;
+  
+  // Audio stored offline for longer than this is not sent, in ms
+  offlineQueueMaxAge?: number;
+  
+  // IndexedDB database of the offline queue (default: a new database for each bridge)
+  offlineQueueDbName?: string;
 }
 
 /**
@@ -31,9 +70,62 @@ export const DEFAULT_AUDIO_OPTIONS: AudioStreamingOptions = {
   bufferTimeout: 1000, // Flush buffer after 1 second
   maxBufferSize: 32000, // About 2 seconds of 16kHz audio
   addSequenceNumber: true,
-  addTimestamp: true
+  addTimestamp: true,
+  messageFormat: 'json',
+  codec: 'pcm',
+  opusBitrate: 24000,
+  opusFrameDuration: 20,
+  replayBufferDuration: 10000, // 10 seconds
+  resumeTimeout: 5000,
+  flowControl: 'throttle',
+  maxInFlightFrames: 8,
+  maxPendingFrames: 50,
+  offlineQueue: false,
+  offlineQueueMaxBytes: 16 * 1024 * 1024, // About 8 minutes of 16kHz audio
+  offlineQueueMaxAge: 300000 // 5 minutes
 };
 
+/**
+ * Binary audio frame layout
+ * 
+ * Every binary frame starts with a fixed little-endian header followed by raw PCM:
+ * 
+ * | Offset | Size | Field                              |
+ * |--------|------|------------------------------------|
+ * | 0      | 1    | Header version (BINARY_FRAME_VERSION) |
+ * | 1      | 1    | Payload format (BinaryFrameFormat) |
+ * | 2      | 2    | Channel count                      |
+ * | 4      | 4    | Sequence number                    |
+ * | 8      | 8    | Capture timestamp (ms since epoch, float64) |
+ * | 16     | 4    | Sample rate in Hz                  |
+ * | 20     | ...  | Audio payload                      |
+ * 
+ * For Opus frames the payload is a sequence of packets, each prefixed with
+ * its byte length as a little-endian uint16.
+ */
+export const BINARY_FRAME_VERSION = 1;
+export const BINARY_FRAME_HEADER_SIZE = 20;
+
+/**
+ * Payload formats carried by binary audio frames
+ */
+export enum BinaryFrameFormat {
+  INT16 = 1,
+  OPUS = 2
+}
+
+/**
+ * Decoded binary audio frame header
+ */
+export interface BinaryFrameHeader {
+  version: number;
+  format: BinaryFrameFormat;
+  channels: number;
+  sequenceNumber: number;
+  timestamp: number;
+  sampleRate: number;
+}
+
 /**
  * Message types for the streaming protocol
  */
@@ -51,7 +143,7 @@ export enum AudioMessageType {
 export interface AudioMetadata {
   sampleRate: number;
   channels: number;
-  format: 'int16' | 'float32';
+  format: 'int16' | 'float32' | 'opus';
   sequenceNumber?: number;
   timestamp?: number;
   byteLength?: number;
@@ -87,7 +179,7 @@ export interface AudioMessage {
 export interface AudioConfig {
   sampleRate: number;
   channels: number;
-  format: 'int16' | 'float32';
+  format: 'int16' | 'float32' | 'opus';
   messageFormat?: 'binary' | 'json';
   encoding?: 'base64' | 'json';
 }
@@ -100,4 +192,27 @@ export interface WebSocketStateChangeEvent {
     newState?: string;
     oldState?: string;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Request sent to the Opus encoder worker
+ */
+export type OpusWorkerRequest =
+  | {
+      type: 'init';
+      inputSampleRate: number;
+      sampleRate: number;
+      channels: number;
+      bitrate: number;
+      frameDuration: number;
+    }
+  | { type: 'encode'; id: number; pcm: Int16Array }
+  | { type: 'flush'; id: number };
+
+/**
+ * Response posted by the Opus encoder worker
+ */
+export type OpusWorkerResponse =
+  | { type: 'ready'; sampleRate: number }
+  | { type: 'encoded'; id: number; packets: Uint8Array[] }
+  | { type: 'error'; id?: number; message: string };
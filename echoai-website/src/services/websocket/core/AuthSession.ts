@@ -0,0 +1,119 @@
+import { AuthProvider, AuthToken, AuthTokenTransport } from './types';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+// Defaults for the optional AuthProvider fields
+const DEFAULT_QUERY_PARAM = 'token';
+const DEFAULT_SUBPROTOCOL_PREFIX = 'bearer.';
+const DEFAULT_REFRESH_MARGIN = 60000;
+
+/**
+ * Caches the provider's token and applies it to connections
+ */
+export class AuthSession {
+  private token: AuthToken | null = null;
+  private stale = false;
+
+  /**
+   * Creates a new AuthSession
+   * @param provider Source of access tokens
+   */
+  constructor(private provider: AuthProvider) {}
+
+  /**
+   * Get a token, fetching a new one if there is none or it is about to expire
+   * @param forceRefresh Fetch a new token even if the cached one is still valid
+   * @returns The token
+   */
+  async getToken(forceRefresh = false): Promise<AuthToken> {
+    if (!forceRefresh && !this.stale && this.token && !this.isExpiring(this.token)) {
+      return this.token;
+    }
+
+    // Replacing a token: keep the provider from answering with its own cached copy
+    const token = await this.provider.getToken({ forceRefresh: forceRefresh || this.token !== null });
+    if (!token?.token) {
+      throw new Error('Auth provider returned no token');
+    }
+
+    this.token = token;
+    this.stale = false;
+    logger.debug(LogCategory.WS, 'Access token fetched', {
+      expiresAt: token.expiresAt ? new Date(token.expiresAt).toISOString() : null
+    });
+    return token;
+  }
+
+  /**
+   * Don't use the cached token again, e.g. after the server rejected it
+   */
+  invalidate(): void {
+    this.stale = true;
+  }
+
+  /**
+   * Get the time until the cached token should be refreshed
+   * @returns The delay in ms (negative if overdue), or null if the token doesn't expire
+   */
+  getRefreshDelay(): number | null {
+    if (!this.token?.expiresAt) {
+      return null;
+    }
+    return this.token.expiresAt - this.getRefreshMargin() - Date.now();
+  }
+
+  /**
+   * Get how the token is sent
+   * @returns The transport
+   */
+  getTransport(): AuthTokenTransport {
+    return this.provider.transport || 'query';
+  }
+
+  /**
+   * Get the URL to connect to
+   * @param url The configured URL
+   * @param token The token
+   * @returns The URL, with the token as query parameter for the 'query' transport
+   */
+  applyToUrl(url: string, token: AuthToken): string {
+    if (this.getTransport() !== 'query') {
+      return url;
+    }
+
+    const withToken = new URL(url);
+    withToken.searchParams.set(this.provider.queryParam || DEFAULT_QUERY_PARAM, token.token);
+    return withToken.toString();
+  }
+
+  /**
+   * Get the subprotocols to request
+   * @param protocols The configured subprotocols
+   * @param token The token
+   * @returns The subprotocols, plus the token for the 'subprotocol' transport
+   */
+  applyToProtocols(protocols: string | string[] | undefined, token: AuthToken): string | string[] | undefined {
+    if (this.getTransport() !== 'subprotocol') {
+      return protocols;
+    }
+
+    const configured = protocols === undefined ? [] : ([] as string[]).concat(protocols);
+    return [...configured, `${this.provider.subprotocolPrefix ?? DEFAULT_SUBPROTOCOL_PREFIX}${token.token}`];
+  }
+
+  /**
+   * Check whether a token expires within the refresh margin
+   * @param token The token
+   * @returns True if it should not be used for a new connection
+   */
+  private isExpiring(token: AuthToken): boolean {
+    return token.expiresAt !== undefined && token.expiresAt - this.getRefreshMargin() <= Date.now();
+  }
+
+  /**
+   * Get the time before expiry at which tokens are refreshed
+   * @returns The margin in ms
+   */
+  private getRefreshMargin(): number {
+    return this.provider.refreshMargin ?? DEFAULT_REFRESH_MARGIN;
+  }
+}
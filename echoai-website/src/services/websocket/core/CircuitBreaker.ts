@@ -0,0 +1,214 @@
+import {
+  CircuitBreakerPolicy,
+  CircuitState,
+  CircuitTransition,
+  DEFAULT_CIRCUIT_BREAKER_POLICY
+} from './types';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Decides when reconnection should pause after repeated connection failures
+ *
+ * Failures are counted in a sliding window. Reaching the trip threshold opens
+ * the circuit. After a jittered cool-down it turns half-open, and the next
+ * connection attempts are probes: a success closes the circuit, and if all
+ * probes fail it opens again. No more than halfOpenProbes probes are made,
+ * including the ones still in flight.
+ */
+export class CircuitBreaker {
+  private policy: CircuitBreakerPolicy;
+  private state: CircuitState = 'closed';
+  private failures: number[] = [];
+  private failedProbes = 0;
+  private probesInFlight = 0;
+  private coolDownTimer: number | null = null;
+
+  /**
+   * Creates a new CircuitBreaker
+   * @param policy Thresholds and timing; missing fields use the defaults
+   * @param onTransition Called on every state change
+   */
+  constructor(
+    policy: Partial<CircuitBreakerPolicy> = {},
+    private onTransition: (transition: CircuitTransition) => void = () => undefined
+  ) {
+    this.policy = { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...policy };
+  }
+
+  /**
+   * Get the current state
+   * @returns The circuit state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Get the policy in use
+   * @returns The policy including defaults
+   */
+  getPolicy(): CircuitBreakerPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Check whether a connection attempt is allowed
+   * @returns False while the circuit is open, or half-open with all probes made
+   */
+  canAttempt(): boolean {
+    if (this.state === 'half_open') {
+      return this.failedProbes + this.probesInFlight < this.policy.halfOpenProbes;
+    }
+    return this.state !== 'open';
+  }
+
+  /**
+   * Start a connection attempt if one is allowed
+   * While half-open the attempt counts as a probe until recordSuccess or
+   * recordFailure reports its outcome.
+   * @returns False if the attempt must not be made
+   */
+  startAttempt(): boolean {
+    if (!this.canAttempt()) {
+      return false;
+    }
+
+    if (this.state === 'half_open') {
+      this.probesInFlight++;
+    }
+    return true;
+  }
+
+  /**
+   * Record a failed connection attempt or a dropped connection
+   */
+  recordFailure(): void {
+    if (this.state === 'half_open') {
+      this.probesInFlight = Math.max(this.probesInFlight - 1, 0);
+    }
+
+    if (this.policy.tripThreshold <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    this.failures.push(now);
+    this.pruneFailures(now);
+
+    if (this.state === 'half_open') {
+      this.failedProbes++;
+      if (this.failedProbes >= this.policy.halfOpenProbes) {
+        this.open('probe connections failed');
+      }
+    } else if (this.state === 'closed' && this.failures.length >= this.policy.tripThreshold) {
+      this.open(`${this.failures.length} failures within ${this.policy.failureWindowMs}ms`);
+    }
+  }
+
+  /**
+   * Record a successful connection
+   */
+  recordSuccess(): void {
+    if (this.state === 'half_open') {
+      this.failures = [];
+      this.probesInFlight = 0;
+      this.transition('closed', 'probe connection succeeded', null);
+    }
+  }
+
+  /**
+   * Open the circuit right away, regardless of the failure count
+   * @param reason Why the circuit opens
+   */
+  trip(reason: string): void {
+    if (this.state !== 'open') {
+      this.open(reason);
+    }
+  }
+
+  /**
+   * Close the circuit and forget failures, e.g. on a manual connect
+   * @param reason Why the circuit is reset
+   */
+  reset(reason = 'reset'): void {
+    this.clearCoolDown();
+    this.failures = [];
+    this.failedProbes = 0;
+    this.probesInFlight = 0;
+
+    if (this.state !== 'closed') {
+      this.transition('closed', reason, null);
+    }
+  }
+
+  /**
+   * Open the circuit and schedule the half-open state
+   * @param reason Why the circuit opens
+   */
+  private open(reason: string): void {
+    this.clearCoolDown();
+
+    const { coolDownMs, coolDownJitter } = this.policy;
+    const jitter = Math.min(Math.max(coolDownJitter, 0), 1);
+    const retryInMs = Math.round(coolDownMs * (1 + jitter * (Math.random() * 2 - 1)));
+
+    this.coolDownTimer = window.setTimeout(() => {
+      this.coolDownTimer = null;
+      this.failedProbes = 0;
+      this.probesInFlight = 0;
+      this.transition('half_open', 'cool-down ended', null);
+    }, retryInMs);
+
+    this.transition('open', reason, retryInMs);
+  }
+
+  /**
+   * Change the state, log it and report it
+   * @param to The new state
+   * @param reason Why the state changes
+   * @param retryInMs Cool-down when opening
+   */
+  private transition(to: CircuitState, reason: string, retryInMs: number | null): void {
+    const transition: CircuitTransition = {
+      from: this.state,
+      to,
+      reason,
+      failures: this.failures.length,
+      retryInMs
+    };
+    this.state = to;
+
+    if (to === 'open') {
+      logger.warn(LogCategory.WS, `Circuit breaker opened: ${reason}`, transition);
+    } else {
+      logger.info(LogCategory.WS, `Circuit breaker ${to === 'closed' ? 'closed' : 'half-open'}: ${reason}`, transition);
+    }
+
+    try {
+      this.onTransition(transition);
+    } catch (error) {
+      logger.error(LogCategory.ERROR, 'Error in circuit breaker transition handler', error);
+    }
+  }
+
+  /**
+   * Drop failures that are older than the window
+   * @param now The current time
+   */
+  private pruneFailures(now: number): void {
+    const windowStart = now - this.policy.failureWindowMs;
+    while (this.failures.length > 0 && this.failures[0] < windowStart) {
+      this.failures.shift();
+    }
+  }
+
+  /**
+   * Cancel the scheduled half-open state
+   */
+  private clearCoolDown(): void {
+    if (this.coolDownTimer !== null) {
+      clearTimeout(this.coolDownTimer);
+      this.coolDownTimer = null;
+    }
+  }
+}
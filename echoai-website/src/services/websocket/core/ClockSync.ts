@@ -0,0 +1,118 @@
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Round-trip time and clock offset estimated from heartbeats
+ */
+export interface ClockEstimate {
+  // Round-trip time of the latest heartbeat in ms
+  rttMs: number | null;
+
+  // Smoothed round-trip time and its variation in ms
+  smoothedRttMs: number | null;
+  rttVariationMs: number | null;
+
+  // Server clock minus local clock in ms
+  offsetMs: number | null;
+
+  // Heartbeats the estimate is based on
+  sampleCount: number;
+}
+
+/**
+ * A single heartbeat measurement
+ */
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+// Recent samples the offset is chosen from
+const SAMPLE_WINDOW = 8;
+
+// Smoothing weights, as used for TCP's SRTT and RTTVAR
+const RTT_SMOOTHING = 1 / 8;
+const RTT_VARIATION_SMOOTHING = 1 / 4;
+
+/**
+ * Estimates round-trip time and the offset between the local and server clocks
+ * NTP-style: every heartbeat gives an offset assuming the server timestamped
+ * it halfway through the round trip. The sample with the lowest RTT among the
+ * recent ones is the least affected by queuing delays, so its offset is used.
+ */
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private sampleCount = 0;
+  private rtt: number | null = null;
+  private smoothedRtt: number | null = null;
+  private rttVariation: number | null = null;
+
+  /**
+   * Add a heartbeat measurement
+   * @param clientSent Local time the heartbeat was sent (ms since epoch)
+   * @param serverTime Server time it was answered (ms since epoch)
+   * @param clientReceived Local time the response arrived (ms since epoch)
+   * @returns False if the measurement was discarded
+   */
+  addSample(clientSent: number, serverTime: number, clientReceived: number): boolean {
+    const rtt = clientReceived - clientSent;
+    if (rtt < 0) {
+      logger.warn(LogCategory.WS, 'Discarding heartbeat with negative round-trip time', { clientSent, clientReceived });
+      return false;
+    }
+
+    const offset = serverTime - (clientSent + clientReceived) / 2;
+
+    this.samples.push({ rtt, offset });
+    if (this.samples.length > SAMPLE_WINDOW) {
+      this.samples.shift();
+    }
+    this.sampleCount++;
+
+    this.rtt = rtt;
+    if (this.smoothedRtt === null || this.rttVariation === null) {
+      this.smoothedRtt = rtt;
+      this.rttVariation = rtt / 2;
+    } else {
+      this.rttVariation += (Math.abs(this.smoothedRtt - rtt) - this.rttVariation) * RTT_VARIATION_SMOOTHING;
+      this.smoothedRtt += (rtt - this.smoothedRtt) * RTT_SMOOTHING;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the offset of the server clock
+   * @returns Server time minus local time in ms, or null before the first heartbeat
+   */
+  getOffset(): number | null {
+    if (this.samples.length === 0) {
+      return null;
+    }
+
+    const best = this.samples.reduce((min, sample) => sample.rtt < min.rtt ? sample : min);
+    return best.offset;
+  }
+
+  /**
+   * Convert a server timestamp to the local clock
+   * @param serverTime Server time (ms since epoch)
+   * @returns The same moment on the local clock; unchanged before the first heartbeat
+   */
+  toLocalTime(serverTime: number): number {
+    return serverTime - (this.getOffset() ?? 0);
+  }
+
+  /**
+   * Get the current estimate
+   * @returns RTT and clock offset
+   */
+  getEstimate(): ClockEstimate {
+    return {
+      rttMs: this.rtt,
+      smoothedRttMs: this.smoothedRtt,
+      rttVariationMs: this.rttVariation,
+      offsetMs: this.getOffset(),
+      sampleCount: this.sampleCount
+    };
+  }
+}
@@ -1,8 +1,39 @@
-import { ConnectionState, WebSocketOptions } from './types';
+import {
+  ConnectionState,
+  WebSocketOptions,
+  DEFAULT_CLIENT_HELLO,
+  ProtocolHandshake,
+  ProtocolVersionMismatch,
+  INCOMPATIBLE_PROTOCOL_CLOSE_CODE,
+  HANDSHAKE_TIMEOUT_CLOSE_CODE,
+  CircuitTransition,
+  AuthToken,
+  AuthRejection,
+  AUTH_REQUIRED_CLOSE_CODE,
+  AUTH_FORBIDDEN_CLOSE_CODE
+} from './types';
 import { EventEmitter } from './EventEmitter';
+import { CircuitBreaker } from './CircuitBreaker';
+import { AuthSession } from './AuthSession';
+import { ClockSync } from './ClockSync';
+import { MetricsCollector } from './MetricsCollector';
 import { logger, LogCategory } from '../WebSocketLogger';
 import { WebSocketService } from '../WebSocketService';
-import { OutgoingHeartbeatMessageSchema, IncomingHeartbeatResponseSchema } from '../WebSocketSchemas';
+import {
+  OutgoingHeartbeatMessageSchema,
+  IncomingHelloAckSchema,
+  IncomingMessageSchemaMap,
+  incomingMessages,
+  createHelloMessage,
+  createAuthMessage,
+  isSupportedProtocolVersion,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION
+} from '../WebSocketSchemas';
+import { MessageDispatcher, TypedMessage } from '../schema/MessageRegistry';
+
+// Shortest wait before refreshing a token, also used to retry failed refreshes
+const MIN_AUTH_REFRESH_DELAY = 5000;
 
 /**
  * Manages the WebSocket connection lifecycle
@@ -15,18 +46,43 @@ export class ConnectionManager {
   private reconnectTimeout: number | null = null;
   private connectionTimeout: number | null = null;
   private heartbeatInterval: number | null = null;
-  private circuitOpen: boolean = false;
-  private circuitResetTimeout: number | null = null;
+  private circuitBreaker: CircuitBreaker;
+  
+  // Hello/hello_ack exchange of the current connection
+  private handshakeTimeout: number | null = null;
+  private pendingHandshake: { openEvent: Event; resolve: () => void; reject: (error: Error) => void } | null = null;
+  private handshake: ProtocolHandshake | null = null;
+  private protocolMismatch: ProtocolVersionMismatch | null = null;
+  
+  // Round-trip time and server clock offset measured with heartbeats
+  private clockSync = new ClockSync();
+  
+  // Access tokens, their refresh and the server's last refusal
+  private auth: AuthSession | null = null;
+  private authRefreshTimeout: number | null = null;
+  private authRejections = 0;
+  private authRejection: AuthRejection | null = null;
+  private reconnectAfterClose = false;
+  
+  // Connection attempt in progress, including fetching its token
+  private pendingConnect: Promise<void> | null = null;
   
   /**
    * Creates a new ConnectionManager
    * @param options WebSocket configuration options
    * @param eventEmitter Event emitter for notifications
+   * @param messageDispatcher Receives incoming messages that match their schema
+   * @param metrics Counts the traffic of the connection
    */
   constructor(
     private options: WebSocketOptions, 
-    private eventEmitter: EventEmitter
+    private eventEmitter: EventEmitter,
+    private messageDispatcher?: MessageDispatcher<IncomingMessageSchemaMap>,
+    private metrics?: MetricsCollector
   ) {
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker, this.handleCircuitTransition.bind(this));
+    this.auth = options.auth ? new AuthSession(options.auth) : null;
+    
     logger.setServiceId(this.getServiceId());
     logger.info(LogCategory.WS, 'ConnectionManager created', { 
       url: this.options.url,
@@ -66,6 +122,46 @@ export class ConnectionManager {
     return stateConnected && socketConnected;
   }
   
+  /**
+   * Get the result of the current connection's handshake
+   * @returns The agreed protocol version and server capabilities, or null before hello_ack
+   */
+  getHandshake(): ProtocolHandshake | null {
+    return this.handshake;
+  }
+  
+  /**
+   * Get the reason the last connection was refused for its protocol version
+   * @returns The mismatch, or null if the last handshake didn't fail that way
+   */
+  getProtocolMismatch(): ProtocolVersionMismatch | null {
+    return this.protocolMismatch;
+  }
+  
+  /**
+   * Get the reason the server last refused the connection's credentials
+   * @returns The refusal, or null if the last connection wasn't refused that way
+   */
+  getAuthRejection(): AuthRejection | null {
+    return this.authRejection;
+  }
+  
+  /**
+   * Get the clock synchronization measured with heartbeats
+   * @returns The clock synchronization
+   */
+  getClockSync(): ClockSync {
+    return this.clockSync;
+  }
+  
+  /**
+   * Get the circuit breaker that pauses reconnection after repeated failures
+   * @returns The circuit breaker
+   */
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+  
   /**
    * Get the WebSocket instance
    * @returns The WebSocket instance or null if not connected
@@ -95,26 +191,43 @@ export class ConnectionManager {
    * @returns Promise that resolves when connected or rejects on timeout
    */
   connect(): Promise<void> {
+    // Attempt in progress, possibly still fetching its token
+    if (this.pendingConnect) {
+      return this.pendingConnect;
+    }
+    
     if (this.socket && (this.state === ConnectionState.CONNECTED || 
-                        this.state === ConnectionState.CONNECTING)) {
+                        this.state === ConnectionState.CONNECTING ||
+                        this.state === ConnectionState.HANDSHAKING)) {
       logger.debug(LogCategory.WS, 'Connection already in progress or established');
       return Promise.resolve();
     }
     
-    // Reset circuit breaker if it was open
-    if (this.circuitOpen) {
-      this.resetCircuitBreaker();
+    if (this.isAuthForbidden()) {
+      return Promise.reject(new Error('Access forbidden with the current credentials'));
+    }
+    
+    // Audio and queued messages call connect() too; they must not get around the circuit breaker
+    if (!this.circuitBreaker.startAttempt()) {
+      return Promise.reject(new Error('Circuit breaker open, not connecting until the cool-down ends'));
     }
     
     logger.info(LogCategory.WS, 'Attempting connection', { url: this.options.url });
     
-    return new Promise((resolve, reject) => {
-      this.updateState(ConnectionState.CONNECTING);
-      this.eventEmitter.emit('connecting', new Event('connecting'));
-      
+    // Each connection negotiates its protocol version again
+    this.handshake = null;
+    this.protocolMismatch = null;
+    this.authRejection = null;
+    
+    this.updateState(ConnectionState.CONNECTING);
+    this.eventEmitter.emit('connecting', new Event('connecting'));
+    
+    const attempt = this.getAuthToken().then(token => new Promise<void>((resolve, reject) => {
       try {
-        // Create new WebSocket instance
-        this.socket = new WebSocket(this.options.url, this.options.protocols);
+        // Create new WebSocket instance, with the token in the URL or subprotocols if configured
+        const url = this.auth && token ? this.auth.applyToUrl(this.options.url, token) : this.options.url;
+        const protocols = this.auth && token ? this.auth.applyToProtocols(this.options.protocols, token) : this.options.protocols;
+        this.socket = new WebSocket(url, protocols);
         this.socket.binaryType = this.options.binaryType || 'arraybuffer';
         
         logger.debug(LogCategory.WS, 'WebSocket instance created', {
@@ -140,6 +253,18 @@ export class ConnectionManager {
         // Set up event listeners
         this.socket.addEventListener('open', (event) => {
           logger.info(LogCategory.WS, 'Connection established');
+          
+          // The 'message' transport sends the token before anything else
+          if (token && this.auth?.getTransport() === 'message') {
+            this.sendAuthMessage(token);
+          }
+          
+          // With the handshake enabled, the connection opens once hello_ack arrives
+          if (this.options.handshake) {
+            this.startHandshake(event, resolve, reject);
+            return;
+          }
+          
           this.handleOpen(event);
           resolve();
         });
@@ -187,7 +312,22 @@ export class ConnectionManager {
         this.cleanup();
         reject(error);
       }
-    });
+    }));
+    
+    // Every attempt counts towards the circuit breaker
+    this.pendingConnect = attempt;
+    attempt.then(
+      () => {
+        this.pendingConnect = null;
+        this.circuitBreaker.recordSuccess();
+      },
+      () => {
+        this.pendingConnect = null;
+        this.circuitBreaker.recordFailure();
+      }
+    );
+    
+    return attempt;
   }
   
   /**
@@ -207,6 +347,7 @@ export class ConnectionManager {
     
     // Clear all timers
     this.cleanup();
+    this.abortHandshake(new Error('Disconnected during handshake'));
     
     try {
       this.socket.close(code, reason);
@@ -218,6 +359,20 @@ export class ConnectionManager {
     }
   }
   
+  /**
+   * Close an open circuit breaker and forget refused credentials, so that the
+   * next connect() is attempted, e.g. when the user asks to connect
+   */
+  allowReconnect(): void {
+    this.circuitBreaker.reset('reconnect allowed');
+    
+    if (this.authRejection) {
+      this.authRejection = null;
+      this.authRejections = 0;
+      this.auth?.invalidate();
+    }
+  }
+  
   /**
    * Enable or disable automatic reconnection
    * @param enable Whether to enable auto-reconnection
@@ -238,22 +393,203 @@ export class ConnectionManager {
     }
     
     this.reconnectAttempts = 0;
+    this.authRejections = 0;
     this.updateState(ConnectionState.CONNECTED);
     this.eventEmitter.emit('open', event);
     this.startHeartbeat();
+    this.scheduleAuthRefresh();
     
     logger.info(LogCategory.WS, 'Connection open handler complete');
   }
   
+  /**
+   * Send the hello message and wait for the server's hello_ack
+   * @param openEvent The socket's open event, emitted once the handshake succeeds
+   * @param resolve Resolves the pending connect()
+   * @param reject Rejects the pending connect()
+   */
+  private startHandshake(openEvent: Event, resolve: () => void, reject: (error: Error) => void): void {
+    if (this.connectionTimeout !== null) {
+      clearTimeout(this.connectionTimeout);
+      this.connectionTimeout = null;
+    }
+    
+    this.pendingHandshake = { openEvent, resolve, reject };
+    this.updateState(ConnectionState.HANDSHAKING);
+    
+    try {
+      if (!this.socket) {
+        throw new Error('Socket is closed');
+      }
+      
+      const hello = createHelloMessage(this.options.clientHello || DEFAULT_CLIENT_HELLO);
+      const helloText = JSON.stringify(hello);
+      this.socket.send(helloText);
+      this.metrics?.recordSent(helloText);
+      
+      logger.info(LogCategory.WS, 'Hello sent', {
+        protocolVersion: hello.protocol_version,
+        minProtocolVersion: hello.min_protocol_version,
+        audioFormats: hello.audio_formats,
+        capabilities: hello.capabilities
+      });
+    } catch (error) {
+      logger.error(LogCategory.ERROR, 'Error sending hello', error);
+      this.failHandshake(HANDSHAKE_TIMEOUT_CLOSE_CODE, 'Hello could not be sent');
+      return;
+    }
+    
+    this.handshakeTimeout = window.setTimeout(() => {
+      this.handshakeTimeout = null;
+      this.openWithoutHandshake();
+    }, this.options.handshakeTimeout);
+  }
+  
+  /**
+   * Open the connection without a handshake when the server never answers the hello
+   * Servers that predate the exchange ignore the hello, so their silence is not
+   * treated as a failure: the connection opens with no negotiated capabilities.
+   */
+  private openWithoutHandshake(): void {
+    if (this.state !== ConnectionState.HANDSHAKING || !this.pendingHandshake) {
+      return;
+    }
+    
+    logger.warn(LogCategory.WS, 'No hello_ack received, continuing without a handshake', {
+      timeout: this.options.handshakeTimeout
+    });
+    
+    this.handshake = null;
+    
+    const { openEvent, resolve } = this.pendingHandshake;
+    this.pendingHandshake = null;
+    this.handleOpen(openEvent);
+    resolve();
+  }
+  
+  /**
+   * Handle the server's hello_ack and finish opening the connection
+   * @param ack The validated hello_ack message
+   */
+  private handleHelloAck(ack: IncomingHelloAckSchema): void {
+    if (this.state !== ConnectionState.HANDSHAKING || !this.pendingHandshake) {
+      logger.warn(LogCategory.WS, 'Ignoring hello_ack outside of a handshake', { state: this.state });
+      return;
+    }
+    
+    if (this.handshakeTimeout !== null) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    
+    if (!isSupportedProtocolVersion(ack.protocol_version)) {
+      this.protocolMismatch = {
+        serverVersion: ack.protocol_version,
+        minVersion: MIN_PROTOCOL_VERSION,
+        maxVersion: PROTOCOL_VERSION,
+        message: `Server protocol version ${ack.protocol_version} is not supported (client supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`
+      };
+      
+      logger.error(LogCategory.WS, 'Incompatible protocol version', this.protocolMismatch);
+      this.eventEmitter.emit('protocol_error', new CustomEvent('protocol_error', {
+        detail: this.protocolMismatch
+      }));
+      this.failHandshake(INCOMPATIBLE_PROTOCOL_CLOSE_CODE, this.protocolMismatch.message);
+      return;
+    }
+    
+    this.handshake = {
+      protocolVersion: ack.protocol_version,
+      capabilities: ack.capabilities || [],
+      sessionId: ack.session_id ?? null
+    };
+    
+    logger.info(LogCategory.WS, 'Handshake complete', this.handshake);
+    this.eventEmitter.emit('handshake', new CustomEvent('handshake', { detail: this.handshake }));
+    
+    const { openEvent, resolve } = this.pendingHandshake;
+    this.pendingHandshake = null;
+    this.handleOpen(openEvent);
+    resolve();
+  }
+  
+  /**
+   * Close a connection whose handshake failed and reject the pending connect()
+   * The socket's close event then decides whether to reconnect.
+   * @param code Close code
+   * @param reason Close reason and error message
+   */
+  private failHandshake(code: number, reason: string): void {
+    const error = new Error(reason);
+    
+    this.updateState(ConnectionState.ERROR);
+    this.eventEmitter.emit('error', new ErrorEvent('error', { error, message: reason }));
+    this.abortHandshake(error);
+    
+    try {
+      this.socket?.close(code, reason);
+    } catch (closeError) {
+      logger.error(LogCategory.ERROR, 'Error closing WebSocket after failed handshake', closeError);
+    }
+  }
+  
+  /**
+   * Reject the pending connect() if a handshake is in progress
+   * @param error The rejection error
+   */
+  private abortHandshake(error: Error): void {
+    if (this.handshakeTimeout !== null) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    
+    const pending = this.pendingHandshake;
+    this.pendingHandshake = null;
+    pending?.reject(error);
+  }
+  
   /**
    * Handle WebSocket close event
    * @param event The close event
    */
   private handleClose(event: CloseEvent): void {
+    // A connection that drops counts as a failure; failed attempts are counted by connect()
+    if (this.state === ConnectionState.CONNECTED && event.code !== 1000) {
+      this.circuitBreaker.recordFailure();
+    }
+    
+    if (event.code === AUTH_REQUIRED_CLOSE_CODE || event.code === AUTH_FORBIDDEN_CLOSE_CODE) {
+      this.handleAuthRejection(event);
+    }
+    
     this.cleanup();
-    this.updateState(ConnectionState.DISCONNECTED);
+    this.abortHandshake(new Error('Connection closed during handshake'));
+    
+    // An incompatible server leaves the connection in the error state until the next connect(),
+    // forbidden credentials until allowReconnect()
+    if (this.isAuthForbidden()) {
+      this.updateState(ConnectionState.ERROR);
+    } else if (!this.protocolMismatch) {
+      this.updateState(ConnectionState.DISCONNECTED);
+    }
     this.eventEmitter.emit('close', event);
     
+    // Closed to connect again with a refreshed token; connect once this socket's close handling is done
+    if (this.reconnectAfterClose) {
+      this.reconnectAfterClose = false;
+      logger.info(LogCategory.WS, 'Reconnecting with refreshed credentials');
+      this.reconnectTimeout = window.setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect().catch(error => {
+          logger.error(LogCategory.WS, 'Reconnection with refreshed credentials failed', error);
+          if (this.shouldReconnect({ code: 0, reason: 'Reconnection failed', wasClean: false } as CloseEvent)) {
+            this.attemptReconnect();
+          }
+        });
+      }, 0);
+      return;
+    }
+    
     // Attempt to reconnect if needed
     if (this.shouldReconnect(event)) {
       logger.info(LogCategory.WS, 'Will attempt reconnection', {
@@ -278,10 +614,18 @@ export class ConnectionManager {
       return 'autoReconnect disabled';
     }
     
-    if (this.circuitOpen) {
+    if (!this.circuitBreaker.canAttempt()) {
       return 'circuit breaker open';
     }
     
+    if (this.protocolMismatch) {
+      return 'incompatible protocol version';
+    }
+    
+    if (this.isAuthForbidden()) {
+      return 'access forbidden';
+    }
+    
     if (this.options.maxReconnectAttempts !== 0 && 
         this.reconnectAttempts >= this.options.maxReconnectAttempts!) {
       return 'max reconnect attempts reached';
@@ -299,20 +643,42 @@ export class ConnectionManager {
    * @param event The message event
    */
   private handleMessage(event: MessageEvent): void {
+    let typedMessage: TypedMessage<IncomingMessageSchemaMap> | null = null;
+    this.metrics?.recordReceived(event.data);
+    
     // First check if it's a heartbeat response
     if (typeof event.data === 'string') {
       try {
         const message = JSON.parse(event.data);
-        if (message && message.type === 'heartbeat_response') {
+        
+        // Validate against the incoming schemas; strict mode drops rejected messages
+        const result = incomingMessages.parse(message, { strict: this.options.strictSchemas });
+        if (!result.valid && this.options.strictSchemas) {
+          return;
+        }
+        typedMessage = result.valid ? result.typed : null;
+        
+        if (typedMessage?.type === 'hello_ack') {
+          this.handleHelloAck(typedMessage.message);
+        } else if (typedMessage?.type === 'heartbeat_response') {
           // This is a heartbeat response
-          const heartbeatResponse = message as IncomingHeartbeatResponseSchema;
+          const heartbeatResponse = typedMessage.message;
+          const receivedAt = Date.now();
           const latency = heartbeatResponse.client_timestamp ? 
-            (Date.now() - heartbeatResponse.client_timestamp) : 'unknown';
+            (receivedAt - heartbeatResponse.client_timestamp) : 'unknown';
+          
+          // Each echoed heartbeat is a round-trip and clock offset measurement
+          if (heartbeatResponse.client_timestamp !== null) {
+            this.clockSync.addSample(heartbeatResponse.client_timestamp, heartbeatResponse.server_timestamp, receivedAt);
+          }
+          const clock = this.clockSync.getEstimate();
             
           logger.info(LogCategory.WS, 'Heartbeat response received', { 
             latency,
             serverTimestamp: heartbeatResponse.server_timestamp,
             clientTimestamp: heartbeatResponse.client_timestamp,
+            smoothedRtt: clock.smoothedRttMs,
+            clockOffset: clock.offsetMs,
             connectionState: this.state,
             socketState: this.socket?.readyState
           });
@@ -322,7 +688,8 @@ export class ConnectionManager {
             detail: { 
               latency, 
               serverTimestamp: heartbeatResponse.server_timestamp,
-              clientTimestamp: heartbeatResponse.client_timestamp
+              clientTimestamp: heartbeatResponse.client_timestamp,
+              clock
             }
           }));
           
@@ -354,6 +721,12 @@ export class ConnectionManager {
           size: event.data.length,
           dataPreview: event.data.substring(0, 50) + '...'
         });
+        
+        // Strict mode only accepts JSON messages; parsing logs the rejection
+        if (this.options.strictSchemas) {
+          incomingMessages.parse(event.data, { strict: true });
+          return;
+        }
       }
     } else if (event.data instanceof ArrayBuffer) {
       // Log binary data
@@ -372,6 +745,11 @@ export class ConnectionManager {
     
     // Normal message handling
     this.eventEmitter.emit('message', event);
+    
+    // Typed handlers registered with WebSocketService.onMessage
+    if (typedMessage) {
+      this.messageDispatcher?.dispatch(typedMessage);
+    }
   }
   
   /**
@@ -408,7 +786,17 @@ export class ConnectionManager {
     }
     
     // Don't reconnect if the circuit breaker is open
-    if (this.circuitOpen) {
+    if (!this.circuitBreaker.canAttempt()) {
+      return false;
+    }
+    
+    // Don't reconnect to a server that speaks another protocol version
+    if (this.protocolMismatch) {
+      return false;
+    }
+    
+    // Don't reconnect with credentials the server refused access for
+    if (this.isAuthForbidden()) {
       return false;
     }
     
@@ -456,13 +844,9 @@ export class ConnectionManager {
       this.reconnectTimeout = null;
       this.reconnectAttempts++;
       
-      // Check if circuit breaker should trip
-      if (this.reconnectAttempts >= 3) {
-        const failRate = 1.0; // All attempts have failed so far
-        if (failRate > 0.75) {
-          this.tripCircuitBreaker();
-          return;
-        }
+      // The circuit may have opened since this attempt was scheduled
+      if (!this.circuitBreaker.canAttempt()) {
+        return;
       }
       
       // Attempt to connect
@@ -490,43 +874,52 @@ export class ConnectionManager {
     
     logger.info(LogCategory.WS, `Starting heartbeat mechanism at ${this.options.heartbeatInterval}ms intervals`);
     
-    this.heartbeatInterval = window.setInterval(() => {
-      if (this.socket && this.state === ConnectionState.CONNECTED) {
-        try {
-          // Create a proper heartbeat message
-          const heartbeatMessage: OutgoingHeartbeatMessageSchema = {
-            type: "heartbeat",
-            timestamp: Date.now()
-          };
-          
-          const messageText = JSON.stringify(heartbeatMessage);
-          this.socket.send(messageText);
-          
-          logger.debug(LogCategory.WS, 'Heartbeat sent', { 
-            timestamp: heartbeatMessage.timestamp,
-            messageSize: messageText.length,
-            connectionState: this.state,
-            socketState: this.socket.readyState
-          });
-        } catch (error) {
-          logger.error(LogCategory.ERROR, 'Error sending heartbeat', error);
-          logger.info(LogCategory.WS, 'Connection appears to be broken, attempting to reconnect');
-          this.cleanup();
-          
-          // Connection is likely dead, attempt to reconnect
-          if (this.shouldReconnect({ code: 0, reason: 'Heartbeat failed', wasClean: false } as CloseEvent)) {
-            this.attemptReconnect();
-          }
-        }
-      } else {
-        logger.warn(LogCategory.WS, 'Heartbeat skipped - socket not ready', {
-          socketExists: !!this.socket,
+    // Measure the round trip and clock offset right away instead of after the first interval
+    this.sendHeartbeat();
+    
+    this.heartbeatInterval = window.setInterval(() => this.sendHeartbeat(), this.options.heartbeatInterval);
+  }
+  
+  /**
+   * Send one heartbeat, reconnecting if the socket turns out to be broken
+   */
+  private sendHeartbeat(): void {
+    if (this.socket && this.state === ConnectionState.CONNECTED) {
+      try {
+        // Create a proper heartbeat message
+        const heartbeatMessage: OutgoingHeartbeatMessageSchema = {
+          type: "heartbeat",
+          timestamp: Date.now()
+        };
+        
+        const messageText = JSON.stringify(heartbeatMessage);
+        this.socket.send(messageText);
+        this.metrics?.recordSent(messageText);
+        
+        logger.debug(LogCategory.WS, 'Heartbeat sent', { 
+          timestamp: heartbeatMessage.timestamp,
+          messageSize: messageText.length,
           connectionState: this.state,
-          socketState: this.socket ? this.socket.readyState : 'null'
+          socketState: this.socket.readyState
         });
+      } catch (error) {
+        logger.error(LogCategory.ERROR, 'Error sending heartbeat', error);
+        logger.info(LogCategory.WS, 'Connection appears to be broken, attempting to reconnect');
         this.cleanup();
+        
+        // Connection is likely dead, attempt to reconnect
+        if (this.shouldReconnect({ code: 0, reason: 'Heartbeat failed', wasClean: false } as CloseEvent)) {
+          this.attemptReconnect();
+        }
       }
-    }, this.options.heartbeatInterval);
+    } else {
+      logger.warn(LogCategory.WS, 'Heartbeat skipped - socket not ready', {
+        socketExists: !!this.socket,
+        connectionState: this.state,
+        socketState: this.socket ? this.socket.readyState : 'null'
+      });
+      this.cleanup();
+    }
   }
   
   /**
@@ -549,38 +942,175 @@ export class ConnectionManager {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+    
+    if (this.handshakeTimeout !== null) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
+    }
+    
+    if (this.authRefreshTimeout !== null) {
+      clearTimeout(this.authRefreshTimeout);
+      this.authRefreshTimeout = null;
+    }
+  }
+  
+  /**
+   * Get the token for a new connection
+   * @returns The token, or null without an auth provider
+   */
+  private async getAuthToken(): Promise<AuthToken | null> {
+    if (!this.auth) {
+      return null;
+    }
+    
+    try {
+      return await this.auth.getToken();
+    } catch (error) {
+      logger.error(LogCategory.ERROR, 'Could not get an access token', error);
+      this.updateState(ConnectionState.ERROR);
+      this.eventEmitter.emit('error', new ErrorEvent('error', {
+        error,
+        message: 'Could not get an access token'
+      }));
+      throw error;
+    }
   }
   
   /**
-   * Trip the circuit breaker to prevent further reconnection attempts
+   * Send the token in an auth message
+   * @param token The token
    */
-  private tripCircuitBreaker(): void {
-    logger.warn(LogCategory.WS, 'Circuit breaker tripped');
+  private sendAuthMessage(token: AuthToken): void {
+    if (!this.socket) {
+      return;
+    }
+    
+    const messageText = JSON.stringify(createAuthMessage(token.token));
+    this.socket.send(messageText);
+    this.metrics?.recordSent(messageText);
+    logger.debug(LogCategory.WS, 'Auth message sent');
+  }
+  
+  /**
+   * Refresh the token shortly before it expires
+   */
+  private scheduleAuthRefresh(): void {
+    if (this.authRefreshTimeout !== null) {
+      clearTimeout(this.authRefreshTimeout);
+      this.authRefreshTimeout = null;
+    }
     
-    this.circuitOpen = true;
+    const delay = this.auth?.getRefreshDelay();
+    if (delay === undefined || delay === null) {
+      return;
+    }
     
-    // Set up circuit reset timeout (30 seconds)
-    this.circuitResetTimeout = window.setTimeout(() => {
-      this.resetCircuitBreaker();
-    }, 30000);
+    this.authRefreshTimeout = window.setTimeout(() => {
+      this.authRefreshTimeout = null;
+      this.refreshAuth();
+    }, Math.max(delay, MIN_AUTH_REFRESH_DELAY));
+  }
+  
+  /**
+   * Fetch a new token and hand it to the server
+   * A server with the auth_refresh capability receives it on the open connection.
+   * Otherwise the connection is replaced before the token expires, even while
+   * audio is streamed; the session is resumed and unacknowledged audio replayed,
+   * so the audio stream continues.
+   */
+  private refreshAuth(): void {
+    if (!this.auth) {
+      return;
+    }
     
-    this.eventEmitter.emit('circuit_open', new CustomEvent('circuit_open'));
+    this.auth.getToken(true).then(token => {
+      if (!this.isConnected()) {
+        return;
+      }
+      
+      if (this.handshake?.capabilities.includes('auth_refresh')) {
+        this.sendAuthMessage(token);
+        logger.info(LogCategory.WS, 'Access token refreshed on the open connection');
+        this.scheduleAuthRefresh();
+        return;
+      }
+      
+      logger.info(LogCategory.WS, 'Replacing the connection to refresh its access token');
+      this.reconnectAfterClose = true;
+      this.socket?.close(1000, 'Refreshing credentials');
+    }).catch(error => {
+      // The current token may still be valid for a while; try again
+      logger.error(LogCategory.ERROR, 'Could not refresh the access token', error);
+      if (this.isConnected()) {
+        this.scheduleAuthRefresh();
+      }
+    });
   }
   
   /**
-   * Reset the circuit breaker to allow reconnection attempts
+   * Handle a close code that refuses the connection's credentials
+   * An invalid or expired token (4401) is retried once with a fresh token; if that
+   * is refused too, the circuit breaker opens so the server isn't retried until
+   * the cool-down ends. Forbidden access (4403) stops reconnection.
+   * @param event The close event
    */
-  private resetCircuitBreaker(): void {
-    logger.info(LogCategory.WS, 'Circuit breaker reset');
+  private handleAuthRejection(event: CloseEvent): void {
+    this.auth?.invalidate();
+    this.authRejections++;
+    
+    const forbidden = event.code === AUTH_FORBIDDEN_CLOSE_CODE;
+    const repeated = this.authRejections > 1;
+    
+    this.authRejection = {
+      code: event.code,
+      reason: event.reason || (forbidden ? 'Access forbidden' : 'Authentication required'),
+      willRetry: !forbidden && !repeated
+    };
     
-    this.circuitOpen = false;
+    logger.warn(LogCategory.WS, 'Server refused the credentials', this.authRejection);
+    this.eventEmitter.emit('auth_error', new CustomEvent('auth_error', { detail: this.authRejection }));
     
-    if (this.circuitResetTimeout !== null) {
-      clearTimeout(this.circuitResetTimeout);
-      this.circuitResetTimeout = null;
+    if (!forbidden && repeated) {
+      this.circuitBreaker.trip('credentials refused repeatedly');
+    }
+  }
+  
+  /**
+   * Check whether the server refused access with the current credentials
+   * @returns True after a 4403 close until allowReconnect()
+   */
+  private isAuthForbidden(): boolean {
+    return this.authRejection?.code === AUTH_FORBIDDEN_CLOSE_CODE;
+  }
+  
+  /**
+   * Report a circuit breaker state change and resume reconnecting when it turns half-open
+   * @param transition The state change
+   */
+  private handleCircuitTransition(transition: CircuitTransition): void {
+    // Cancel a reconnection that was scheduled before the circuit opened
+    if (transition.to === 'open' && this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+      
+      if (this.state === ConnectionState.RECONNECTING) {
+        this.updateState(ConnectionState.DISCONNECTED);
+      }
     }
     
-    this.eventEmitter.emit('circuit_close', new CustomEvent('circuit_close'));
+    this.eventEmitter.emit('circuit_state_change', new CustomEvent('circuit_state_change', {
+      detail: transition
+    }));
+    
+    if (transition.to === 'open') {
+      this.eventEmitter.emit('circuit_open', new CustomEvent('circuit_open', { detail: transition }));
+    } else if (transition.to === 'closed') {
+      this.eventEmitter.emit('circuit_close', new CustomEvent('circuit_close', { detail: transition }));
+    } else if (this.options.autoReconnect && !this.protocolMismatch &&
+               (this.state === ConnectionState.DISCONNECTED || this.state === ConnectionState.ERROR)) {
+      // Half-open: probe the server
+      this.attemptReconnect();
+    }
   }
   
   /**
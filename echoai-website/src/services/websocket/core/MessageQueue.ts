@@ -23,8 +23,9 @@ export class MessageQueue {
    * @param data Message data
    * @param priority Message priority (lower number = higher priority)
    * @param retry Whether to retry sending if it fails
+   * @returns The number of messages dropped to stay within the size limit
    */
-  enqueue(data: string | ArrayBuffer | Blob, priority: number, retry: boolean): void {
+  enqueue(data: string | ArrayBuffer | Blob, priority: number, retry: boolean): number {
     this.messageQueue.push({
       data,
       priority,
@@ -36,11 +37,13 @@ export class MessageQueue {
     this.messageQueue.sort((a, b) => a.priority - b.priority);
     
     // Limit queue size to prevent memory issues
+    let droppedCount = 0;
     if (this.messageQueue.length > this.maxQueueSize) {
+      droppedCount = this.messageQueue.length - this.maxQueueSize;
       logger.warn(LogCategory.WS, 'Queue size limit reached, dropping lowest priority messages', {
         queueSize: this.messageQueue.length,
         maxSize: this.maxQueueSize,
-        droppedCount: this.messageQueue.length - this.maxQueueSize
+        droppedCount
       });
       this.messageQueue = this.messageQueue.slice(0, this.maxQueueSize);
     }
@@ -53,6 +56,8 @@ export class MessageQueue {
       dataSize: typeof data === 'string' ? data.length : 
                  (data instanceof ArrayBuffer ? data.byteLength : 'unknown')
     });
+    
+    return droppedCount;
   }
   
   /**
@@ -0,0 +1,240 @@
+import { CircuitState } from './types';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Connection metrics at one point in time
+ */
+export interface MetricsSample {
+  // Sample time (ms since epoch)
+  time: number;
+
+  // Smoothed round-trip time in ms, null before the first heartbeat answer
+  rttMs: number | null;
+
+  // Messages waiting in the outgoing queue
+  queueLength: number;
+
+  // Traffic since the previous sample, per second
+  bytesSentPerSecond: number;
+  bytesReceivedPerSecond: number;
+  messagesSentPerSecond: number;
+  messagesReceivedPerSecond: number;
+}
+
+/**
+ * Totals since the collector was created
+ */
+export interface MetricsTotals {
+  bytesSent: number;
+  bytesReceived: number;
+  messagesSent: number;
+  messagesReceived: number;
+  reconnects: number;
+
+  // Audio frames dropped by flow control
+  droppedFrames: number;
+
+  // Messages dropped because the outgoing queue was full
+  droppedMessages: number;
+}
+
+/**
+ * Everything the collector knows, as passed to subscribers
+ */
+export interface ConnectionMetrics {
+  // Recent samples, oldest first
+  samples: MetricsSample[];
+  totals: MetricsTotals;
+  circuitState: CircuitState;
+}
+
+/**
+ * Values read from the service at every sample
+ */
+export interface MetricsGauges {
+  rttMs: number | null;
+  queueLength: number;
+}
+
+/**
+ * Listener for new samples
+ */
+export type MetricsListener = (metrics: ConnectionMetrics) => void;
+
+/**
+ * Collects traffic counters and connection events, and samples them into a
+ * short history while anyone is subscribed
+ */
+export class MetricsCollector {
+  private totals: MetricsTotals = {
+    bytesSent: 0,
+    bytesReceived: 0,
+    messagesSent: 0,
+    messagesReceived: 0,
+    reconnects: 0,
+    droppedFrames: 0,
+    droppedMessages: 0
+  };
+  private circuitState: CircuitState = 'closed';
+  private samples: MetricsSample[] = [];
+  private listeners: Set<MetricsListener> = new Set();
+  private sampleTimer: number | null = null;
+
+  // Totals and time at the previous sample, for the per-second rates
+  private lastSampleTotals: MetricsTotals = { ...this.totals };
+  private lastSampleTime = 0;
+
+  /**
+   * Creates a new MetricsCollector
+   * @param readGauges Reads the current RTT and queue length
+   * @param sampleInterval Time between samples in ms
+   * @param maxSamples Number of samples kept
+   */
+  constructor(
+    private readGauges: () => MetricsGauges,
+    private sampleInterval: number = 1000,
+    private maxSamples: number = 60
+  ) {}
+
+  /**
+   * Count an outgoing message
+   * @param data The message data
+   */
+  recordSent(data: string | ArrayBuffer | Blob): void {
+    this.totals.messagesSent++;
+    this.totals.bytesSent += MetricsCollector.getSize(data);
+  }
+
+  /**
+   * Count an incoming message
+   * @param data The message data
+   */
+  recordReceived(data: unknown): void {
+    this.totals.messagesReceived++;
+    this.totals.bytesReceived += MetricsCollector.getSize(data);
+  }
+
+  /**
+   * Count a reconnection attempt
+   */
+  recordReconnect(): void {
+    this.totals.reconnects++;
+  }
+
+  /**
+   * Count audio frames dropped by flow control
+   * @param count Number of frames
+   */
+  recordDroppedFrames(count: number): void {
+    this.totals.droppedFrames += count;
+  }
+
+  /**
+   * Count messages dropped from the outgoing queue
+   * @param count Number of messages
+   */
+  recordDroppedMessages(count: number): void {
+    this.totals.droppedMessages += count;
+  }
+
+  /**
+   * Record a circuit breaker change
+   * @param state The new circuit state
+   */
+  setCircuitState(state: CircuitState): void {
+    this.circuitState = state;
+  }
+
+  /**
+   * Get the current metrics
+   * @returns Samples, totals and circuit state
+   */
+  getMetrics(): ConnectionMetrics {
+    return {
+      samples: [...this.samples],
+      totals: { ...this.totals },
+      circuitState: this.circuitState
+    };
+  }
+
+  /**
+   * Receive the metrics after every sample
+   * Sampling only runs while there are subscribers.
+   * @param listener Called with the metrics
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: MetricsListener): () => void {
+    this.listeners.add(listener);
+
+    if (this.sampleTimer === null) {
+      this.lastSampleTotals = { ...this.totals };
+      this.lastSampleTime = Date.now();
+      this.sampleTimer = window.setInterval(() => this.sample(), this.sampleInterval);
+      logger.debug(LogCategory.WS, 'Metrics sampling started', { interval: this.sampleInterval });
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+
+      if (this.listeners.size === 0 && this.sampleTimer !== null) {
+        clearInterval(this.sampleTimer);
+        this.sampleTimer = null;
+        logger.debug(LogCategory.WS, 'Metrics sampling stopped');
+      }
+    };
+  }
+
+  /**
+   * Take a sample and notify subscribers
+   */
+  private sample(): void {
+    const now = Date.now();
+    const seconds = Math.max(now - this.lastSampleTime, 1) / 1000;
+    const previous = this.lastSampleTotals;
+    const gauges = this.readGauges();
+
+    this.samples.push({
+      time: now,
+      rttMs: gauges.rttMs,
+      queueLength: gauges.queueLength,
+      bytesSentPerSecond: (this.totals.bytesSent - previous.bytesSent) / seconds,
+      bytesReceivedPerSecond: (this.totals.bytesReceived - previous.bytesReceived) / seconds,
+      messagesSentPerSecond: (this.totals.messagesSent - previous.messagesSent) / seconds,
+      messagesReceivedPerSecond: (this.totals.messagesReceived - previous.messagesReceived) / seconds
+    });
+
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+
+    this.lastSampleTotals = { ...this.totals };
+    this.lastSampleTime = now;
+
+    const metrics = this.getMetrics();
+    this.listeners.forEach(listener => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        logger.error(LogCategory.ERROR, 'Error in metrics listener', error);
+      }
+    });
+  }
+
+  /**
+   * Get the size of message data
+   * @param data The message data
+   * @returns The size in bytes (string length for text messages)
+   */
+  private static getSize(data: unknown): number {
+    if (typeof data === 'string') {
+      return data.length;
+    }
+    if (data instanceof ArrayBuffer) {
+      return data.byteLength;
+    }
+    if (data instanceof Blob) {
+      return data.size;
+    }
+    return 0;
+  }
+}
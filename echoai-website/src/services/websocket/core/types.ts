@@ -9,6 +9,7 @@
 export enum ConnectionState {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
+  HANDSHAKING = 'handshaking',
   CONNECTED = 'connected',
   RECONNECTING = 'reconnecting',
   CLOSING = 'closing',
@@ -45,8 +46,205 @@ export interface WebSocketOptions {
   
   // Auto-reconnect when connection is lost
   autoReconnect?: boolean;
+  
+  // Reject messages without a registered schema in both directions,
+  // and drop incoming messages that don't match their schema
+  strictSchemas?: boolean;
+  
+  // Exchange hello/hello_ack before the connection counts as connected
+  handshake?: boolean;
+  
+  // Time to wait for hello_ack in ms before opening without a handshake
+  handshakeTimeout?: number;
+  
+  // What the client announces in its hello message
+  clientHello?: ClientHello;
+  
+  // When to stop reconnecting for a while; missing fields use the defaults
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+  
+  // Supplies access tokens for every connection
+  auth?: AuthProvider;
+}
+
+/**
+ * How the access token reaches the server
+ * - subprotocol: as an extra WebSocket subprotocol, e.g. "bearer.<token>"
+ * - query: as a query parameter of the URL
+ * - message: in an auth message sent before anything else
+ */
+export type AuthTokenTransport = 'subprotocol' | 'query' | 'message';
+
+/**
+ * An access token and when it expires
+ */
+export interface AuthToken {
+  token: string;
+  
+  // Expiry time (ms since epoch); tokens without one are never refreshed proactively
+  expiresAt?: number;
+}
+
+/**
+ * Source of access tokens for authenticated connections
+ */
+export interface AuthProvider {
+  // Fetch a token; forceRefresh asks for a new one instead of a cached one
+  getToken: (options: { forceRefresh: boolean }) => Promise<AuthToken>;
+  
+  // How the token is sent (default 'query')
+  transport?: AuthTokenTransport;
+  
+  // Query parameter name for the 'query' transport (default 'token')
+  queryParam?: string;
+  
+  // Prefix of the subprotocol for the 'subprotocol' transport (default 'bearer.')
+  subprotocolPrefix?: string;
+  
+  // Time before expiry at which the token is refreshed, in ms (default 60000)
+  refreshMargin?: number;
+}
+
+/**
+ * Details of a connection the server refused for its credentials
+ */
+export interface AuthRejection {
+  // AUTH_REQUIRED_CLOSE_CODE or AUTH_FORBIDDEN_CLOSE_CODE
+  code: number;
+  reason: string;
+  
+  // Whether reconnection continues (with a fresh token) or stopped
+  willRetry: boolean;
 }
 
+/**
+ * Close code the server uses for a missing, invalid or expired token
+ */
+export const AUTH_REQUIRED_CLOSE_CODE = 4401;
+
+/**
+ * Close code the server uses when the token is valid but lacks access
+ */
+export const AUTH_FORBIDDEN_CLOSE_CODE = 4403;
+
+/**
+ * Client description sent in the hello message
+ */
+export interface ClientHello {
+  // Audio payload formats the client can send
+  audioFormats: ('int16' | 'float32' | 'opus')[];
+  
+  // Sample rates the client can send, in Hz
+  sampleRates: number[];
+  
+  // Optional protocol features the client supports
+  capabilities: string[];
+}
+
+/**
+ * Default hello: everything AudioStreamingBridge can negotiate
+ */
+export const DEFAULT_CLIENT_HELLO: ClientHello = {
+  audioFormats: ['int16', 'opus'],
+  sampleRates: [8000, 12000, 16000, 22050, 24000, 44100, 48000],
+  capabilities: ['binary_frames', 'opus', 'target_language', 'heartbeat', 'flow_control', 'auth_refresh']
+};
+
+/**
+ * Result of a completed hello/hello_ack exchange
+ */
+export interface ProtocolHandshake {
+  // Protocol version the server chose for this connection
+  protocolVersion: number;
+  
+  // Protocol features the server enabled
+  capabilities: string[];
+  
+  // Transcript session started for this connection, or null if the server has no sessions
+  sessionId: string | null;
+}
+
+/**
+ * Details of a server that speaks no protocol version this client supports
+ */
+export interface ProtocolVersionMismatch {
+  // Version the server answered with
+  serverVersion: number;
+  
+  // Versions this client supports
+  minVersion: number;
+  maxVersion: number;
+  
+  // Human-readable description
+  message: string;
+}
+
+/**
+ * Thresholds and timing of the reconnection circuit breaker
+ */
+export interface CircuitBreakerPolicy {
+  // Sliding window in which failed connections are counted, in ms
+  failureWindowMs: number;
+  
+  // Failures within the window that open the circuit (0 disables the breaker)
+  tripThreshold: number;
+  
+  // Connection attempts allowed while half-open; if all fail, the circuit opens again
+  halfOpenProbes: number;
+  
+  // Time the circuit stays open before it turns half-open, in ms
+  coolDownMs: number;
+  
+  // Random variation of the cool-down as a fraction of it (0.2 = ±20%)
+  coolDownJitter: number;
+}
+
+/**
+ * Default circuit breaker policy
+ */
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureWindowMs: 60000,        // 1 minute
+  tripThreshold: 3,
+  halfOpenProbes: 1,
+  coolDownMs: 30000,             // 30 seconds
+  coolDownJitter: 0.2
+};
+
+/**
+ * Circuit breaker states
+ * - closed: reconnection is allowed
+ * - open: reconnection is paused until the cool-down ends
+ * - half_open: a limited number of probe connections decide whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * A change of the circuit breaker state
+ */
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  
+  // Why the state changed
+  reason: string;
+  
+  // Failures counted in the window when the state changed
+  failures: number;
+  
+  // Cool-down until the circuit turns half-open, in ms (when opening)
+  retryInMs: number | null;
+}
+
+/**
+ * Close code sent when the server's protocol version is not supported
+ */
+export const INCOMPATIBLE_PROTOCOL_CLOSE_CODE = 4002;
+
+/**
+ * Close code sent when the hello message can't be sent
+ */
+export const HANDSHAKE_TIMEOUT_CLOSE_CODE = 4008;
+
 /**
  * Default WebSocket configuration
  */
@@ -57,7 +255,11 @@ export const DEFAULT_OPTIONS: Partial<WebSocketOptions> = {
   reconnectDelay: 1000,          // Start with 1 second
   maxReconnectDelay: 30000,      // Max 30 seconds
   binaryType: 'arraybuffer',
-  autoReconnect: true
+  autoReconnect: true,
+  strictSchemas: false,
+  handshake: true,
+  handshakeTimeout: 5000,        // 5 seconds
+  clientHello: DEFAULT_CLIENT_HELLO
 };
 
 /**
@@ -84,7 +286,11 @@ export type WebSocketEventType =
   | 'state_change'
   | 'circuit_open'
   | 'circuit_close'
-  | 'heartbeat';
+  | 'circuit_state_change'
+  | 'heartbeat'
+  | 'handshake'
+  | 'protocol_error'
+  | 'auth_error';
 
 /**
  * Event handler function type
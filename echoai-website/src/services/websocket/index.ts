@@ -15,34 +15,69 @@ import { logger, audioLogger, WebSocketLogger } from './WebSocketLogger';
 
 // Export all classes
 export { WebSocketService } from './WebSocketService';
-export { WebSocketManager } from './WebSocketManager';
+export { WebSocketManager, DEFAULT_SERVICE_NAME } from './WebSocketManager';
+export type { ServicesChangeListener } from './WebSocketManager';
 // export { StreamingAudioProcessor } from './StreamingAudioProcessor';
 export { AudioStreamingBridge } from './audio/AudioStreamingBridge';
+export { ClockSync } from './core/ClockSync';
+export { CircuitBreaker } from './core/CircuitBreaker';
+export type { ClockEstimate } from './core/ClockSync';
+export { MetricsCollector } from './core/MetricsCollector';
+export type {
+  ConnectionMetrics,
+  MetricsSample,
+  MetricsTotals,
+  MetricsGauges,
+  MetricsListener
+} from './core/MetricsCollector';
 
 // Export types
 export { 
   ConnectionState, 
-  DEFAULT_OPTIONS
+  DEFAULT_OPTIONS,
+  DEFAULT_CLIENT_HELLO,
+  INCOMPATIBLE_PROTOCOL_CLOSE_CODE,
+  HANDSHAKE_TIMEOUT_CLOSE_CODE,
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  AUTH_REQUIRED_CLOSE_CODE,
+  AUTH_FORBIDDEN_CLOSE_CODE
 } from './core/types';
 
 export type { 
   WebSocketOptions, 
   WebSocketEventType,
   WebSocketEventHandler,
-  QueuedMessage
+  QueuedMessage,
+  ClientHello,
+  ProtocolHandshake,
+  ProtocolVersionMismatch,
+  CircuitBreakerPolicy,
+  CircuitState,
+  CircuitTransition,
+  AuthProvider,
+  AuthToken,
+  AuthTokenTransport,
+  AuthRejection
 } from './core/types';
 
 // Export loggers
 export { logger, audioLogger, WebSocketLogger, LogLevel, LogCategory };
 
 // Export audio streaming module - explicit exports to avoid module resolution issues
-export { DEFAULT_AUDIO_OPTIONS, AudioMessageType } from './audio/types';
+export { 
+  DEFAULT_AUDIO_OPTIONS, 
+  AudioMessageType,
+  BinaryFrameFormat,
+  BINARY_FRAME_HEADER_SIZE,
+  BINARY_FRAME_VERSION
+} from './audio/types';
 export type { 
   AudioStreamingOptions,
   AudioMetadata,
   StatusChangeCallback,
   AudioConfig,
   AudioMessage,
+  BinaryFrameHeader,
   WebSocketStateChangeEvent
 } from './audio/types';
 
@@ -52,6 +87,8 @@ export {
   combineAudioChunks,
   arrayBufferToBase64,
   createJsonMessage,
+  createBinaryFrame,
+  parseBinaryFrameHeader,
   processAudioData
 } from './audio';
 
@@ -66,6 +103,7 @@ import { AudioStreamingBridge } from './audio/AudioStreamingBridge';
 
 // Export schemas for external use
 export * from './WebSocketSchemas';
+export * from './schema';
 
 /**
  * Configuration for creating a streaming audio implementation
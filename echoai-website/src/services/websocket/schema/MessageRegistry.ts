@@ -0,0 +1,245 @@
+/**
+ * MessageRegistry
+ *
+ * Maps message types to their schemas for one direction of the connection,
+ * validates messages against them, and dispatches validated messages to
+ * handlers registered by type.
+ */
+
+import { Infer, Schema, SchemaIssue } from './Schema';
+import { logger, LogCategory } from '../WebSocketLogger';
+
+/**
+ * Schemas keyed by message type
+ */
+export type MessageSchemaMap = Record<string, Schema<unknown>>;
+
+/**
+ * Direction of the messages in a registry
+ */
+export type MessageDirection = 'incoming' | 'outgoing';
+
+/**
+ * A validated message tagged with its registered type
+ */
+export type TypedMessage<M extends MessageSchemaMap> = {
+  [K in keyof M & string]: { type: K; message: Infer<M[K]> }
+}[keyof M & string];
+
+/**
+ * Handler for one message type
+ */
+export type MessageHandler<M extends MessageSchemaMap, K extends keyof M> = (message: Infer<M[K]>) => void;
+
+/**
+ * Options for validating messages
+ */
+export interface MessageValidationOptions {
+  // Reject messages that aren't JSON or have no registered schema
+  strict?: boolean;
+}
+
+/**
+ * Why a message was rejected
+ */
+export type MessageRejectionReason = 'invalid_json' | 'unknown_type' | 'schema_mismatch';
+
+/**
+ * Structured description of a rejected message, as logged
+ */
+export interface MessageValidationError {
+  direction: MessageDirection;
+  type: string | null;
+  reason: MessageRejectionReason;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Result of MessageRegistry.parse
+ * A valid message without a registered type (lenient mode only) has a null typed message.
+ */
+export type MessageParseResult<M extends MessageSchemaMap> =
+  | { valid: true; typed: TypedMessage<M> | null }
+  | { valid: false; error: MessageValidationError };
+
+export class MessageRegistry<M extends MessageSchemaMap> {
+  /**
+   * Create a registry
+   * @param direction Direction of the messages, used in logs
+   * @param schemas Schemas keyed by message type
+   * @param resolveType Get the registered type of a message, or null if it has none
+   */
+  constructor(
+    readonly direction: MessageDirection,
+    private readonly schemas: M,
+    private readonly resolveType: (message: Record<string, unknown>) => string | null =
+      message => typeof message.type === 'string' ? message.type : null
+  ) {}
+
+  /**
+   * Check whether a message type is registered
+   * @param type The message type
+   * @returns True if there is a schema for it
+   */
+  has(type: string): type is keyof M & string {
+    return Object.prototype.hasOwnProperty.call(this.schemas, type);
+  }
+
+  /**
+   * Get the registered message types
+   * @returns The types
+   */
+  getTypes(): (keyof M & string)[] {
+    return Object.keys(this.schemas);
+  }
+
+  /**
+   * Get the schema for a message type
+   * @param type The message type
+   * @returns The schema
+   */
+  getSchema<K extends keyof M & string>(type: K): M[K] {
+    return this.schemas[type];
+  }
+
+  /**
+   * Check a message against the schema of a given type, without logging
+   * @param type The expected message type
+   * @param message The message
+   * @returns True if the message is a valid message of that type
+   */
+  is<K extends keyof M & string>(type: K, message: unknown): message is Infer<M[K]> {
+    return this.identify(message) === type && this.schemas[type].is(message);
+  }
+
+  /**
+   * Parse and validate a message, logging the reason if it's rejected
+   * Messages of unregistered types are accepted unless strict is set.
+   * @param data The raw JSON text or an already parsed message
+   * @param options Validation options
+   * @returns The validated message tagged with its type, or the rejection
+   */
+  parse(data: string | object, options: MessageValidationOptions = {}): MessageParseResult<M> {
+    let message: unknown = data;
+
+    if (typeof data === 'string') {
+      try {
+        message = JSON.parse(data);
+      } catch {
+        return this.reject({ type: null, reason: 'invalid_json', issues: [] }, options, data);
+      }
+    }
+
+    const type = this.identify(message);
+    if (type === null || !this.has(type)) {
+      if (!options.strict) {
+        logger.debug(LogCategory.WS, `Accepted ${this.direction} message without a schema`, { type });
+        return { valid: true, typed: null };
+      }
+      return this.reject({ type, reason: 'unknown_type', issues: [] }, options, message);
+    }
+
+    const result = this.schemas[type].safeParse(message);
+    if (!result.success) {
+      return this.reject({ type, reason: 'schema_mismatch', issues: result.issues }, options, message);
+    }
+
+    return { valid: true, typed: { type, message: result.data } as TypedMessage<M> };
+  }
+
+  /**
+   * Get the type of a message
+   * @param message The message
+   * @returns The type, or null if the message isn't an object or has no type
+   */
+  private identify(message: unknown): string | null {
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return null;
+    }
+    return this.resolveType(message as Record<string, unknown>);
+  }
+
+  /**
+   * Log and return a rejection
+   * @param rejection Details of the rejection
+   * @param options Validation options
+   * @param message The rejected message, for debug logs
+   * @returns The failed parse result
+   */
+  private reject(
+    rejection: Omit<MessageValidationError, 'direction'>,
+    options: MessageValidationOptions,
+    message: unknown
+  ): MessageParseResult<M> {
+    const error: MessageValidationError = { direction: this.direction, ...rejection };
+
+    logger.warn(LogCategory.WS, `Rejected ${this.direction} ${error.type ?? 'untyped'} message: ${error.reason}`, {
+      ...error,
+      strict: !!options.strict
+    });
+    logger.debug(LogCategory.WS, 'Rejected message content', { message });
+
+    return { valid: false, error };
+  }
+}
+
+/**
+ * Calls handlers registered by message type with validated messages
+ */
+export class MessageDispatcher<M extends MessageSchemaMap> {
+  private handlers: Map<string, Set<MessageHandler<M, keyof M & string>>> = new Map();
+
+  /**
+   * Add a handler for one message type
+   * @param type The message type
+   * @param handler Called with each valid message of that type
+   * @returns A function that removes the handler
+   */
+  on<K extends keyof M & string>(type: K, handler: MessageHandler<M, K>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+
+    // Handlers are stored by type, so each only receives messages of its own type
+    handlers.add(handler as MessageHandler<M, keyof M & string>);
+
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Remove a handler
+   * @param type The message type
+   * @param handler The handler to remove
+   */
+  off<K extends keyof M & string>(type: K, handler: MessageHandler<M, K>): void {
+    this.handlers.get(type)?.delete(handler as MessageHandler<M, keyof M & string>);
+  }
+
+  /**
+   * Call the handlers for a validated message
+   * @param typed The message tagged with its type
+   */
+  dispatch(typed: TypedMessage<M>): void {
+    const handlers = this.handlers.get(typed.type);
+    if (!handlers) {
+      return;
+    }
+
+    handlers.forEach(handler => {
+      try {
+        handler(typed.message);
+      } catch (error) {
+        logger.error(LogCategory.ERROR, `Error in ${typed.type} message handler`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Schema
+ *
+ * Minimal declarative runtime schemas in the style of Zod. Each schema checks
+ * an unknown value and carries the TypeScript type it accepts, so message
+ * types are inferred from their schemas (see Infer) instead of written twice.
+ */
+
+/**
+ * A single validation failure
+ */
+export interface SchemaIssue {
+  // Dotted path to the offending field ('' for the value itself)
+  path: string;
+
+  // What was expected and what was found
+  message: string;
+}
+
+/**
+ * Result of Schema.safeParse
+ */
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Describe a value for an issue message
+ * @param value The value
+ * @returns A short description such as 'null', 'array' or 'string'
+ */
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Join a field name onto a path
+ * @param path The parent path
+ * @param key The field name or index
+ * @returns The child path
+ */
+function joinPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+/**
+ * Base class for all schemas
+ */
+export abstract class Schema<T> {
+  // Type accepted by the schema; never set at runtime, see Infer
+  declare readonly _type: T;
+
+  /**
+   * Check a value and record any issues
+   * @param value The value to check
+   * @param path Path of the value within the checked message
+   * @param issues Issues found so far
+   */
+  abstract collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void;
+
+  /**
+   * Check a value without throwing
+   * @param value The value to check
+   * @returns The value typed as T, or the issues found
+   */
+  safeParse(value: unknown): SafeParseResult<T> {
+    const issues: SchemaIssue[] = [];
+    this.collectIssues(value, '', issues);
+
+    return issues.length === 0
+      ? { success: true, data: value as T }
+      : { success: false, issues };
+  }
+
+  /**
+   * Check whether a value matches the schema
+   * @param value The value to check
+   * @returns True if the value is a T
+   */
+  is(value: unknown): value is T {
+    return this.safeParse(value).success;
+  }
+
+  /**
+   * Allow the value to be missing
+   * @returns A schema that also accepts undefined
+   */
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * Allow the value to be null
+   * @returns A schema that also accepts null
+   */
+  nullable(): NullableSchema<T> {
+    return new NullableSchema(this);
+  }
+
+  /**
+   * Add a custom check
+   * @param predicate Returns true if the value is acceptable
+   * @param message Issue message when it isn't
+   * @returns A schema that runs this schema's checks, then the predicate
+   */
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new RefinedSchema(this, predicate, message);
+  }
+}
+
+/**
+ * Type accepted by a schema
+ */
+export type Infer<S extends Schema<unknown>> = S['_type'];
+
+class StringSchema extends Schema<string> {
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `Expected string, received ${describeValue(value)}` });
+    }
+  }
+}
+
+class NumberSchema extends Schema<number> {
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: `Expected number, received ${describeValue(value)}` });
+    }
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `Expected boolean, received ${describeValue(value)}` });
+    }
+  }
+}
+
+class LiteralSchema<T extends string | number | boolean> extends Schema<T> {
+  constructor(readonly value: T) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== this.value) {
+      issues.push({ path, message: `Expected ${JSON.stringify(this.value)}, received ${JSON.stringify(value) ?? describeValue(value)}` });
+    }
+  }
+}
+
+class EnumSchema<T extends string> extends Schema<T> {
+  constructor(readonly values: readonly T[]) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!this.values.includes(value as T)) {
+      issues.push({ path, message: `Expected one of ${this.values.join(', ')}, received ${JSON.stringify(value) ?? describeValue(value)}` });
+    }
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  constructor(private readonly item: Schema<T>) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `Expected array, received ${describeValue(value)}` });
+      return;
+    }
+
+    value.forEach((item, index) => this.item.collectIssues(item, joinPath(path, index), issues));
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private readonly inner: Schema<T>) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== undefined) {
+      this.inner.collectIssues(value, path, issues);
+    }
+  }
+}
+
+export class NullableSchema<T> extends Schema<T | null> {
+  constructor(private readonly inner: Schema<T>) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (value !== null) {
+      this.inner.collectIssues(value, path, issues);
+    }
+  }
+}
+
+class RefinedSchema<T> extends Schema<T> {
+  constructor(
+    private readonly inner: Schema<T>,
+    private readonly predicate: (value: T) => boolean,
+    private readonly message: string
+  ) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    const issueCount = issues.length;
+    this.inner.collectIssues(value, path, issues);
+
+    if (issues.length === issueCount && !this.predicate(value as T)) {
+      issues.push({ path, message: this.message });
+    }
+  }
+}
+
+/**
+ * Fields of an object schema
+ */
+export type SchemaShape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends SchemaShape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never
+}[keyof S];
+
+type RequiredKeys<S extends SchemaShape> = Exclude<keyof S, OptionalKeys<S>>;
+
+/**
+ * Object type described by a shape; optional fields become optional properties
+ */
+export type InferShape<S extends SchemaShape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export class ObjectSchema<S extends SchemaShape> extends Schema<InferShape<S>> {
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  collectIssues(value: unknown, path: string, issues: SchemaIssue[]): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `Expected object, received ${describeValue(value)}` });
+      return;
+    }
+
+    // Fields not in the shape are allowed, so servers can add fields
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(this.shape)) {
+      this.shape[key].collectIssues(record[key], joinPath(path, key), issues);
+    }
+  }
+}
+
+/**
+ * Schema builders
+ *
+ * Example:
+ *   const ack = schema.object({ type: schema.literal('ack'), id: schema.number() });
+ *   type Ack = Infer<typeof ack>; // { type: 'ack'; id: number }
+ */
+export const schema = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  boolean: () => new BooleanSchema(),
+  literal: <T extends string | number | boolean>(value: T) => new LiteralSchema(value),
+  enum: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  array: <T>(item: Schema<T>) => new ArraySchema(item),
+  object: <S extends SchemaShape>(shape: S) => new ObjectSchema(shape)
+};
@@ -0,0 +1,17 @@
+/**
+ * Message schema exports
+ */
+
+export { schema, Schema, ObjectSchema, OptionalSchema, NullableSchema } from './Schema';
+export type { Infer, InferShape, SchemaIssue, SchemaShape, SafeParseResult } from './Schema';
+export { MessageRegistry, MessageDispatcher } from './MessageRegistry';
+export type {
+  MessageSchemaMap,
+  MessageDirection,
+  TypedMessage,
+  MessageHandler,
+  MessageValidationOptions,
+  MessageRejectionReason,
+  MessageValidationError,
+  MessageParseResult
+} from './MessageRegistry';
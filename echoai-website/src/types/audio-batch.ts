@@ -17,7 +17,7 @@ export enum BatchStrategy {
   TIME_BASED = 'time_based',
   
   /**
-   * Dynamic batching - adjust batch size based on content properties
+   * Dynamic batching - cut batches at pauses, within a minimum and maximum duration
    */
   DYNAMIC = 'dynamic'
 }
@@ -50,6 +50,52 @@ export interface AudioBatchOptions {
    * Overlap between consecutive batches (in samples or seconds, depending on strategy)
    */
   overlap?: number;
+  
+  /**
+   * Shortest batch (in seconds) when using DYNAMIC strategy; only the last batch can be shorter
+   */
+  minBatchDuration?: number;
+  
+  /**
+   * Longest batch (in seconds) when using DYNAMIC strategy
+   */
+  maxBatchDuration?: number;
+  
+  /**
+   * How far below the loudest part of a batch (in dB) audio counts as a pause when using DYNAMIC strategy
+   */
+  silenceThreshold?: number;
+}
+
+/**
+ * Where a dynamic batch was cut
+ */
+export interface BatchCutPoint {
+  /**
+   * Position of the cut (in samples from the start of the batched audio)
+   */
+  position: number;
+  
+  /**
+   * Position of the cut (in seconds)
+   */
+  time: number;
+  
+  /**
+   * 'pause' when cut in the middle of a pause, 'max_duration' when no pause was
+   * found before the maximum duration and the quietest point was used
+   */
+  reason: 'pause' | 'max_duration';
+  
+  /**
+   * Length of the pause the cut lies in (in seconds, 0 for max_duration cuts)
+   */
+  pauseDuration: number;
+  
+  /**
+   * Level at the cut (in dBFS)
+   */
+  level: number;
 }
 
 /**
@@ -20,6 +20,70 @@ export interface AudioProcessingOptions {
    * Time stretch factor (1.0 = no stretch)
    */
   timeStretch?: number;
+  
+  /**
+   * Whether to keep captured chunks in memory for getCapturedAudio (default true).
+   * Disable when chunks are consumed as they arrive.
+   */
+  retainChunks?: boolean;
+  
+  /**
+   * Voice activity detection in the capture worklet (off when omitted)
+   */
+  vad?: VadOptions;
+}
+
+/**
+ * Voice activity detection options
+ * Thresholds default to values tuned for speech over a quiet background.
+ */
+export interface VadOptions {
+  /**
+   * Whether to detect speech (default true when options are given)
+   */
+  enabled?: boolean;
+  
+  /**
+   * Minimum level above the noise floor for speech, in dB (default 9)
+   */
+  energyThreshold?: number;
+  
+  /**
+   * Frames quieter than this are never speech, in dBFS (default -55)
+   */
+  minLevel?: number;
+  
+  /**
+   * Maximum spectral flatness for speech, from 0 (tonal) to 1 (white noise) (default 0.45)
+   */
+  flatnessThreshold?: number;
+  
+  /**
+   * Minimum share of energy between 300 and 3400 Hz for speech (default 0.5)
+   */
+  speechBandRatio?: number;
+  
+  /**
+   * Speech needed before speech starts, in ms (default 60)
+   */
+  minSpeechDuration?: number;
+  
+  /**
+   * Non-speech needed before speech ends, in ms (default 400)
+   */
+  hangover?: number;
+  
+  /**
+   * URL of a WASM model that replaces the spectral rules. It must export
+   * memory, input_buffer(length) returning a pointer to room for length
+   * float32 samples, and speech_probability(length, sampleRate) returning 0 to 1.
+   */
+  modelUrl?: string;
+  
+  /**
+   * Speech probability from the model needed for speech (default 0.5)
+   */
+  modelThreshold?: number;
 }
 
 /**
@@ -41,7 +105,11 @@ export enum AudioCaptureEventType {
   CAPTURE_RESUME = 'capture_resume',
   CAPTURE_STOP = 'capture_stop',
   PROCESSOR_ERROR = 'processor_error',
-  CHUNK_RECEIVED = 'chunk_received'
+  CHUNK_RECEIVED = 'chunk_received',
+  SOURCE_CHANGE = 'source_change',
+  SOURCE_ENDED = 'source_ended',
+  SPEECH_START = 'speech_start',
+  SPEECH_END = 'speech_end'
 }
 
 /**
@@ -53,12 +121,71 @@ export interface AudioCaptureEvent {
   details?: any;
 }
 
+/**
+ * Kinds of audio the capture can be fed from
+ */
+export enum CaptureSourceType {
+  MEDIA_ELEMENT = 'media_element',
+  MICROPHONE = 'microphone',
+  DISPLAY = 'display'
+}
+
+/**
+ * A source's node in the capture AudioContext
+ */
+export interface CaptureSourceConnection {
+  /**
+   * Node to capture from
+   */
+  node: AudioNode;
+  
+  /**
+   * Whether the captured audio should be played back. False when it is
+   * audible already (a playing media element) or would cause feedback (a microphone).
+   */
+  monitor: boolean;
+}
+
+/**
+ * Where captured audio comes from
+ */
+export interface AudioCaptureSource {
+  readonly type: CaptureSourceType;
+  
+  /**
+   * Name to show, e.g. the microphone's label
+   */
+  getLabel(): string;
+  
+  /**
+   * Create the source's node in the capture AudioContext; may ask for permission
+   * 
+   * @param audioContext The capture AudioContext
+   */
+  open(audioContext: AudioContext): Promise<CaptureSourceConnection>;
+  
+  /**
+   * Release the node and stop any media tracks
+   */
+  close(): void;
+  
+  /**
+   * Listen for a new node (e.g. after switching devices), or null when the source ended
+   * 
+   * @param callback Called with the new connection, or null
+   * @returns Function that removes the listener
+   */
+  onChange(callback: (connection: CaptureSourceConnection | null) => void): () => void;
+}
+
 /**
  * Audio worklet processor message types
  */
 export enum AudioProcessorMessageType {
   CHUNK_PROCESSED = 'chunk_processed',
   PROCESSOR_READY = 'processor_ready',
+  VAD_EVENT = 'vad_event',
+  VAD_MODEL_LOADED = 'vad_model_loaded',
   ERROR = 'error'
 }
 
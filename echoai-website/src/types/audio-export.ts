@@ -7,7 +7,77 @@
  */
 export enum AudioExportFormat {
   WAV = 'wav',
-  MP3 = 'mp3'
+  MP3 = 'mp3',
+  FLAC = 'flac',
+  OGG_OPUS = 'opus'
+}
+
+/**
+ * MP3 bitrate mode
+ */
+export enum Mp3BitrateMode {
+  CBR = 'cbr',
+  VBR = 'vbr'
+}
+
+/**
+ * MP3 encoding options
+ */
+export interface Mp3ExportOptions {
+  /**
+   * Constant or variable bitrate (default CBR)
+   */
+  bitrateMode?: Mp3BitrateMode;
+  
+  /**
+   * Bitrate in kbps for CBR (default 128).
+   * Rounded to the nearest MP3 bitrate (8 to 320).
+   */
+  bitrate?: number;
+  
+  /**
+   * Quality for VBR, from 0 (best) to 9 (smallest) (default 4)
+   */
+  vbrQuality?: number;
+}
+
+/**
+ * Ogg/Opus encoding options
+ */
+export interface OpusExportOptions {
+  /**
+   * Bitrate in kbps (default 32)
+   */
+  bitrate?: number;
+}
+
+/**
+ * Metadata embedded in exported files as Vorbis comments (FLAC and Ogg/Opus).
+ * The sample rate is always written, from the export's sample rate.
+ */
+export interface AudioExportMetadata {
+  /**
+   * URL of the stream the audio was captured from
+   */
+  sourceUrl?: string;
+  
+  /**
+   * Time the capture started (ms since epoch)
+   */
+  captureStartTime?: number;
+  
+  /**
+   * Language the audio was being translated to, when known
+   */
+  targetLanguage?: string;
+}
+
+/**
+ * Caption format for export
+ */
+export enum CaptionExportFormat {
+  VTT = 'vtt',
+  SRT = 'srt'
 }
 
 /**
@@ -33,6 +103,33 @@ export interface AudioExportOptions {
    * Normalize audio before export
    */
   normalize?: boolean;
+  
+  /**
+   * MP3 encoding options, used when format is MP3
+   */
+  mp3?: Mp3ExportOptions;
+  
+  /**
+   * Opus encoding options, used when format is OGG_OPUS
+   */
+  opus?: OpusExportOptions;
+  
+  /**
+   * Metadata to embed in the file, used when format is FLAC or OGG_OPUS
+   */
+  metadata?: AudioExportMetadata;
+  
+  /**
+   * Caption formats to export along with the audio (default none).
+   * Captions use the same filename with the caption format's extension.
+   */
+  captionFormats?: CaptionExportFormat[];
+  
+  /**
+   * Whether to export the audio (default true).
+   * Set to false with captionFormats to export only captions.
+   */
+  includeAudio?: boolean;
 }
 
 /**
@@ -62,4 +159,27 @@ export interface AudioExportEvent {
   type: AudioExportEventType;
   timestamp: number;
   details?: any;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Encoding options passed to the audio encoder worker
+ */
+export type AudioEncodeOptions = Pick<AudioExportOptions, 'mp3' | 'opus' | 'metadata'>;
+
+/**
+ * Request sent to the audio encoder worker
+ */
+export interface AudioEncoderWorkerRequest {
+  format: AudioExportFormat;
+  samples: Float32Array;
+  sampleRate: number;
+  options: AudioEncodeOptions;
+}
+
+/**
+ * Message sent back by the audio encoder worker
+ */
+export type AudioEncoderWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'encoded'; data: Uint8Array }
+  | { type: 'error'; message: string };
@@ -4,7 +4,8 @@
 
 import { AudioProcessingOptions } from './audio-capture';
 import { AudioExportOptions } from './audio-export';
-import { AudioBatchOptions } from './audio-batch';
+import { AudioBatchOptions, BatchCutPoint } from './audio-batch';
+import { AudioStreamOptions } from './audio-stream';
 
 /**
  * Pipeline types supported by the orchestrator
@@ -17,9 +18,25 @@ export enum PipelineType {
   CAPTURE_PROCESS_STREAM = 'capture-process-stream',
   CAPTURE_BATCH_PROCESS_STREAM = 'capture-batch-process-stream',
   CAPTURE_STREAM = 'capture-stream',
+  CAPTURE_STREAM_SAVE = 'capture-stream-save',
   CUSTOM = 'custom'
 }
 
+/**
+ * How the orchestrator runs the steps that follow capture
+ */
+export enum PipelineExecutionMode {
+  /**
+   * Buffer the whole capture and run the remaining steps after capture stops
+   */
+  POST_STOP = 'post_stop',
+  
+  /**
+   * Pass each captured chunk through the remaining steps as it arrives
+   */
+  STREAMING = 'streaming'
+}
+
 /**
  * Audio orchestrator options
  */
@@ -29,6 +46,18 @@ export interface OrchestratorOptions {
    */
   pipeline: PipelineType | string;
   
+  /**
+   * How steps after capture are run (default POST_STOP)
+   */
+  executionMode?: PipelineExecutionMode;
+  
+  /**
+   * Maximum number of items queued for each step in streaming mode (default 32).
+   * A full queue holds back the previous step; when the first step after
+   * capture is full, its oldest chunk is dropped.
+   */
+  maxQueueSize?: number;
+  
   /**
    * Options for audio capture
    */
@@ -52,14 +81,16 @@ export interface OrchestratorOptions {
    */
   saveOptions?: Partial<AudioExportOptions>;
   
+  /**
+   * Length of the audio files saved in streaming mode when no batch step cuts the audio,
+   * in seconds (default 60). Each file is saved once it is complete.
+   */
+  saveSegmentDuration?: number;
+  
   /**
    * Options for audio streaming
    */
-  streamOptions?: {
-    url?: string;
-    protocol?: 'websocket' | 'http' | 'custom';
-    [key: string]: any;
-  };
+  streamOptions?: AudioStreamOptions;
   
   /**
    * Whether to auto-save when capture stops
@@ -67,7 +98,8 @@ export interface OrchestratorOptions {
   autoSaveOnStop?: boolean;
   
   /**
-   * Whether to auto-stream when capture starts
+   * Whether to auto-stream when capture starts (default true).
+   * In POST_STOP mode, false makes the stream step send the captured audio after capture stops.
    */
   autoStreamOnStart?: boolean;
 }
@@ -95,7 +127,12 @@ export enum OrchestratorEventType {
   STOPPED = 'stopped',
   ERROR = 'error',
   PIPELINE_STEP_COMPLETE = 'pipeline_step_complete',
-  PIPELINE_COMPLETE = 'pipeline_complete'
+  PIPELINE_COMPLETE = 'pipeline_complete',
+  BACKPRESSURE = 'backpressure',
+  SOURCE_ENDED = 'source_ended',
+  FILE_PROGRESS = 'file_progress',
+  SPEECH_START = 'speech_start',
+  SPEECH_END = 'speech_end'
 }
 
 /**
@@ -150,4 +187,48 @@ export interface Pipeline {
    * Pipeline steps in execution order
    */
   steps: PipelineStep[];
-} 
\ No newline at end of file
+} 
+/**
+ * Results of the batch step, reported with PIPELINE_STEP_COMPLETE in streaming mode
+ */
+export interface BatchStepResults {
+  /**
+   * Number of batches emitted
+   */
+  batchCount: number;
+  
+  /**
+   * Where dynamic batching cut the audio (empty for the other strategies)
+   */
+  cutPoints: BatchCutPoint[];
+}
+
+/**
+ * Results of the process step, reported with PIPELINE_STEP_COMPLETE in streaming mode
+ */
+export interface ProcessStepResults {
+  /**
+   * Number of items processed
+   */
+  itemCount: number;
+}
+
+/**
+ * Results of the save step, reported with PIPELINE_STEP_COMPLETE in streaming mode
+ */
+export interface SaveStepResults {
+  /**
+   * URLs of the saved audio files, one per batch (or per segment without a batch step)
+   */
+  batchUrls?: string[];
+  
+  /**
+   * URLs of the saved caption files
+   */
+  captionUrls?: string[];
+}
+
+/**
+ * Results of any step in streaming mode; the stream step reports none
+ */
+export type PipelineStepResults = BatchStepResults | ProcessStepResults | SaveStepResults | Record<string, never>;
@@ -0,0 +1,154 @@
+/**
+ * Types for the audio streaming system
+ */
+
+/**
+ * Protocol used to deliver streamed audio
+ */
+export type AudioStreamProtocol = 'websocket' | 'http' | 'custom';
+
+/**
+ * Audio stream options
+ */
+export interface AudioStreamOptions {
+  /**
+   * Server URL to stream to (uses the shared WebSocket connection if omitted)
+   */
+  url?: string;
+  
+  /**
+   * WebSocketManager service to stream through (the default service if omitted)
+   */
+  serviceName?: string;
+  
+  /**
+   * Transport protocol
+   */
+  protocol?: AudioStreamProtocol;
+  
+  /**
+   * Number of samples to accumulate before sending a frame (0 = send every chunk as-is)
+   */
+  packetSize?: number;
+  
+  /**
+   * Maximum time (in ms) a partial frame may wait before being flushed
+   */
+  bufferTimeout?: number;
+  
+  /**
+   * Requested WebSocket wire format for audio (default 'json').
+   * 'binary' sends raw PCM frames once the server acknowledges them.
+   */
+  messageFormat?: 'binary' | 'json';
+  
+  /**
+   * Requested audio codec (default 'pcm').
+   * 'opus' encodes in a worker once the server acknowledges it.
+   */
+  codec?: 'pcm' | 'opus';
+  
+  /**
+   * Opus target bitrate in bits per second (default 24000)
+   */
+  opusBitrate?: number;
+  
+  /**
+   * Opus frame duration in ms: 10, 20, 40 or 60 (default 20)
+   */
+  opusFrameDuration?: number;
+  
+  /**
+   * Store audio captured while the connection is down in IndexedDB and send it after reconnecting
+   */
+  offlineQueue?: boolean;
+  
+  /**
+   * IndexedDB database of the offline queue (default: the service name with a random suffix,
+   * so streams in other tabs or to other services never share it)
+   */
+  offlineQueueDbName?: string;
+  
+  /**
+   * What voice activity does to audio streamed with a speech state (default 'off').
+   * 'gate' drops chunks without speech, except the one just before speech starts.
+   * 'flag' streams everything and tells the server when speech starts and ends.
+   */
+  vadMode?: 'off' | 'gate' | 'flag';
+  
+  /**
+   * Handler used when protocol is 'custom'
+   */
+  customHandler?: (audioData: Float32Array, sampleRate: number) => void | Promise<void>;
+  
+  [key: string]: unknown;
+}
+
+/**
+ * Audio stream state
+ */
+export enum AudioStreamState {
+  INACTIVE = 'inactive',
+  CONNECTING = 'connecting',
+  STREAMING = 'streaming',
+  ERROR = 'error'
+}
+
+/**
+ * Audio stream event types
+ */
+export enum AudioStreamEventType {
+  STREAM_START = 'stream_start',
+  STREAM_CHUNK_SENT = 'stream_chunk_sent',
+  STREAM_STOP = 'stream_stop',
+  STREAM_ERROR = 'stream_error',
+  CONNECTION_CHANGE = 'connection_change'
+}
+
+/**
+ * Details of each audio stream event type
+ */
+export interface AudioStreamEventDetails {
+  [AudioStreamEventType.STREAM_START]: {
+    sampleRate: number;
+  };
+  
+  [AudioStreamEventType.STREAM_CHUNK_SENT]: {
+    /**
+     * Samples in the chunk just sent
+     */
+    chunkSize: number;
+    chunksSent: number;
+    samplesSent: number;
+  };
+  
+  [AudioStreamEventType.STREAM_STOP]: {
+    chunksSent: number;
+    samplesSent: number;
+    
+    /**
+     * Chunks not sent because they held no speech
+     */
+    chunksGated: number;
+  };
+  
+  [AudioStreamEventType.STREAM_ERROR]: {
+    error: unknown;
+  };
+  
+  [AudioStreamEventType.CONNECTION_CHANGE]: {
+    connected: boolean;
+    message?: string;
+  };
+}
+
+/**
+ * Audio stream event; narrowing on type gives the matching details
+ */
+export type AudioStreamEvent<T extends AudioStreamEventType = AudioStreamEventType> = {
+  [K in T]: {
+    type: K;
+    timestamp: number;
+    details: AudioStreamEventDetails[K];
+  }
+}[T];
@@ -0,0 +1,109 @@
+/**
+ * Types for live captions built from incoming translation messages
+ */
+
+/**
+ * A single caption line
+ */
+export interface Caption {
+  /**
+   * Unique caption ID
+   */
+  id: number;
+
+  /**
+   * Caption text
+   */
+  text: string;
+
+  /**
+   * Language of the original speech
+   */
+  sourceLanguage: string;
+
+  /**
+   * Language of the caption text
+   */
+  targetLanguage: string;
+
+  /**
+   * Wall-clock time the caption was received (ms since epoch)
+   */
+  receivedAt: number;
+
+  /**
+   * Playback position the caption starts at (seconds on the media clock)
+   */
+  startTime: number;
+
+  /**
+   * Playback position the caption ends at (seconds on the media clock)
+   */
+  endTime: number;
+}
+
+/**
+ * Options for live captions
+ */
+export interface LiveCaptionOptions {
+  /**
+   * Whether to collect captions (default true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Time a caption stays on screen, in seconds of playback (default 6)
+   */
+  displayDuration?: number;
+
+  /**
+   * Maximum number of captions shown at once (default 2)
+   */
+  maxVisible?: number;
+
+  /**
+   * Maximum number of captions kept in the history (default 200)
+   */
+  maxHistory?: number;
+}
+
+/**
+ * A caption cue timed relative to the start of a capture
+ */
+export interface CaptionCue {
+  /**
+   * Caption text
+   */
+  text: string;
+
+  /**
+   * Language of the original speech
+   */
+  sourceLanguage: string;
+
+  /**
+   * Language of the caption text
+   */
+  targetLanguage: string;
+
+  /**
+   * Start time in seconds from the capture start
+   */
+  startTime: number;
+
+  /**
+   * End time in seconds from the capture start
+   */
+  endTime: number;
+}
+
+/**
+ * Options for recording captions during a capture
+ */
+export interface CaptionRecorderOptions {
+  /**
+   * Longest time a cue lasts, in seconds (default 6).
+   * A cue also ends when the next one starts.
+   */
+  maxCueDuration?: number;
+}
@@ -12,6 +12,8 @@ export interface DashAudioPlayerProps {
   streamingEnabled?: boolean;
   onStreamingStatusChange?: (status: boolean, message?: string) => void;
   enableCapture?: boolean;
+  showCaptions?: boolean;
+  showTargetLanguage?: boolean;
 }
 
 /**
@@ -0,0 +1,58 @@
+declare module '@evan/wasm/target/opus/deno.js' {
+  /**
+   * Opus application mode
+   */
+  export type OpusApplication = 'voip' | 'audio' | 'restricted_lowdelay';
+
+  /**
+   * Opus encoder backed by libopus compiled to WebAssembly
+   */
+  export class Encoder {
+    constructor(options?: {
+      channels?: number;
+      sample_rate?: number;
+      application?: OpusApplication;
+    });
+
+    /**
+     * Encode one frame of interleaved little-endian Int16 PCM
+     * @param buffer PCM bytes for exactly one frame (2.5, 5, 10, 20, 40 or 60 ms)
+     * @returns One Opus packet
+     */
+    encode(buffer: Uint8Array): Uint8Array;
+
+    reset(): void;
+    drop(): void;
+
+    readonly channels: number;
+    bitrate: number;
+    complexity: number;
+    vbr: boolean;
+    dtx: boolean;
+    inband_fec: boolean;
+    packet_loss: number;
+    signal: 'auto' | 'voice' | 'music';
+  }
+
+  /**
+   * Opus decoder backed by libopus compiled to WebAssembly
+   */
+  export class Decoder {
+    constructor(options?: {
+      channels?: number;
+      sample_rate?: number;
+    });
+
+    /**
+     * Decode one Opus packet
+     * @param buffer The packet
+     * @returns Interleaved little-endian Int16 PCM bytes
+     */
+    decode(buffer: Uint8Array): Uint8Array;
+
+    reset(): void;
+    drop(): void;
+
+    readonly channels: number;
+  }
+}
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Default WebSocket endpoint URL, e.g. wss://api.example.com/ws
+  readonly VITE_WS_URL?: string;
+  // Parts of the default endpoint URL, used when VITE_WS_URL is not set
+  readonly VITE_WS_HOST?: string;
+  readonly VITE_WS_PORT?: string;
+  readonly VITE_WS_PROTOCOL?: string;
+  // Named endpoints: "name=url,name=url"
+  readonly VITE_WS_ENDPOINTS?: string;
+  // Name of the endpoint used by default
+  readonly VITE_WS_DEFAULT_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}